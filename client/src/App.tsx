@@ -7,12 +7,17 @@ import { ProtectedRoute } from "./lib/protected-route";
 
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
 import DashboardPage from "@/pages/dashboard-page";
 import AccountsPage from "@/pages/accounts-page";
 import AiAssistantPage from "@/pages/ai-assistant-page";
 import GoalsPage from "@/pages/goals-page";
+import BudgetsPage from "@/pages/budgets-page";
+import RecurringPage from "@/pages/recurring-page";
 import JournalPage from "@/pages/journal-page";
 import SettingsPage from "@/pages/settings-page";
+import ActivityPage from "@/pages/activity-page";
 import MoodPage from "@/pages/mood-page";
 
 function Router() {
@@ -22,10 +27,15 @@ function Router() {
       <ProtectedRoute path="/accounts" component={AccountsPage} />
       <ProtectedRoute path="/ai-assistant" component={AiAssistantPage} />
       <ProtectedRoute path="/goals" component={GoalsPage} />
+      <ProtectedRoute path="/budgets" component={BudgetsPage} />
+      <ProtectedRoute path="/recurring" component={RecurringPage} />
       <ProtectedRoute path="/journal" component={JournalPage} />
       <ProtectedRoute path="/mood" component={MoodPage} />
       <ProtectedRoute path="/settings" component={SettingsPage} />
+      <ProtectedRoute path="/activity" component={ActivityPage} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <Route path="/verify-email" component={VerifyEmailPage} />
       <Route component={NotFound} />
     </Switch>
   );
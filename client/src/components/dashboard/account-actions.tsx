@@ -0,0 +1,560 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ArchiveIcon, ArchiveRestoreIcon, MoreHorizontalIcon, PencilIcon, Trash2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormDescription,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { accountTypeLabels } from "@/components/dashboard/account-card";
+import { useToast } from "@/hooks/use-toast";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm, type UseFormReturn } from "react-hook-form";
+import { z } from "zod";
+import { compareMoney, formatCurrency } from "@shared/money";
+import { commonCurrencies, DEFAULT_CURRENCY } from "@shared/currency";
+import { bankAccountTypes, type BankAccount, type BankAccountType } from "@shared/schema";
+
+const optionalNumber = (message: string, isValid: (value: number) => boolean) =>
+  z.string().refine(val => val === "" || (!isNaN(Number(val)) && isValid(Number(val))), { message });
+
+// One form for adding and editing; fields that don't apply to the type are ignored
+const accountFormSchema = z.object({
+  name: z.string().trim().min(1, "Enter a name for the account"),
+  type: z.enum(bankAccountTypes),
+  accountNumber: z.string().trim().min(4, "Account number must be at least 4 characters"),
+  balance: z.string().refine(val => val === "" || !isNaN(Number(val)), { message: "Balance must be a number" }),
+  currency: z.string().length(3, "Choose a currency"),
+  creditLimit: optionalNumber("Credit limit must be greater than 0", value => value > 0),
+  apr: optionalNumber("APR must be between 0 and 100", value => value >= 0 && value <= 100),
+  paymentDueDay: optionalNumber("Due day must be a day of the month (1-31)", value => Number.isInteger(value) && value >= 1 && value <= 31),
+});
+
+type AccountFormValues = z.infer<typeof accountFormSchema>;
+
+const defaultAccountValues: AccountFormValues = {
+  name: "",
+  type: "checking",
+  accountNumber: "",
+  balance: "",
+  currency: DEFAULT_CURRENCY,
+  creditLimit: "",
+  apr: "",
+  paymentDueDay: "",
+};
+
+function typeFieldsOf(data: AccountFormValues) {
+  const isCredit = data.type === "credit_card";
+  const isBorrowing = isCredit || data.type === "loan";
+  return {
+    creditLimit: isCredit && data.creditLimit ? data.creditLimit : null,
+    apr: isBorrowing && data.apr ? data.apr : null,
+    paymentDueDay: isBorrowing && data.paymentDueDay ? Number(data.paymentDueDay) : null,
+  };
+}
+
+function TypeSpecificFields({ form }: { form: UseFormReturn<AccountFormValues> }) {
+  const type = form.watch("type");
+  if (type !== "credit_card" && type !== "loan") return null;
+
+  return (
+    <div className="grid grid-cols-3 gap-4">
+      {type === "credit_card" && (
+        <FormField
+          control={form.control}
+          name="creditLimit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Credit Limit</FormLabel>
+              <FormControl>
+                <Input placeholder="0.00" type="number" step="0.01" min="0.01" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      <FormField
+        control={form.control}
+        name="apr"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>APR (%)</FormLabel>
+            <FormControl>
+              <Input placeholder="0.00" type="number" step="0.01" min="0" max="100" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="paymentDueDay"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Due Day</FormLabel>
+            <FormControl>
+              <Input placeholder="1-31" type="number" step="1" min="1" max="31" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
+interface AddAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: (account: BankAccount) => void;
+}
+
+export function AddAccountDialog({ open, onOpenChange, onCreated }: AddAccountDialogProps) {
+  const { toast } = useToast();
+  const homeCurrency = useHomeCurrency();
+  const defaultValues = { ...defaultAccountValues, currency: homeCurrency };
+
+  const form = useForm<AccountFormValues>({
+    resolver: zodResolver(accountFormSchema),
+    defaultValues,
+  });
+
+  const type = form.watch("type");
+  const isBorrowing = type === "credit_card" || type === "loan";
+
+  const createMutation = useMutation({
+    mutationFn: async (data: AccountFormValues) => {
+      const res = await apiRequest("POST", "/api/accounts", {
+        name: data.name,
+        type: data.type,
+        accountNumber: data.accountNumber,
+        balance: data.balance || "0",
+        currency: data.currency,
+        ...typeFieldsOf(data),
+      });
+      return await res.json() as BankAccount;
+    },
+    onSuccess: (account) => {
+      toast({
+        title: "Account added",
+        description: `${account.name} is ready to use.`
+      });
+      onOpenChange(false);
+      form.reset(defaultValues);
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      onCreated?.(account);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add account",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add an account</DialogTitle>
+          <DialogDescription>
+            Track another account alongside your existing ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => createMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Account Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Travel Card" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {bankAccountTypes.map((accountType) => (
+                          <SelectItem key={accountType} value={accountType}>{accountTypeLabels[accountType]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="accountNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Account Number</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. 1234-5678" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="balance"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Opening Balance</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0.00" type="number" step="0.01" {...field} />
+                    </FormControl>
+                    {isBorrowing && (
+                      <FormDescription>Enter what you owe as a negative amount.</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {commonCurrencies.map(currency => (
+                          <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>This can't be changed later.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <TypeSpecificFields form={form} />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={createMutation.isPending}
+              >
+                {createMutation.isPending ? "Adding..." : "Add Account"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AccountActionsProps {
+  account: BankAccount;
+  onDeleted?: () => void;
+}
+
+export function AccountActions({ account, onDeleted }: AccountActionsProps) {
+  const { toast } = useToast();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isCloseOpen, setIsCloseOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const hasBalance = compareMoney(account.balance, 0) !== 0;
+
+  const valuesOf = (account: BankAccount): AccountFormValues => ({
+    name: account.name,
+    type: account.type as BankAccountType,
+    accountNumber: account.accountNumber,
+    balance: account.balance,
+    currency: account.currency,
+    creditLimit: account.creditLimit ?? "",
+    apr: account.apr ?? "",
+    paymentDueDay: account.paymentDueDay?.toString() ?? "",
+  });
+
+  const editForm = useForm<AccountFormValues>({
+    resolver: zodResolver(accountFormSchema),
+    defaultValues: valuesOf(account),
+  });
+
+  const openEditForm = () => {
+    editForm.reset(valuesOf(account));
+    setIsEditOpen(true);
+  };
+
+  const onMutationSuccess = (title: string, description: string) => {
+    toast({ title, description });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+  };
+
+  const onMutationError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const editMutation = useMutation({
+    mutationFn: async (data: AccountFormValues) => {
+      return await apiRequest("PATCH", `/api/accounts/${account.id}`, {
+        name: data.name,
+        ...typeFieldsOf(data),
+      });
+    },
+    onSuccess: () => {
+      onMutationSuccess("Account updated", "Your changes have been saved.");
+      setIsEditOpen(false);
+    },
+    onError: onMutationError("Failed to update account"),
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/accounts/${account.id}/close`);
+    },
+    onSuccess: () => {
+      onMutationSuccess("Account closed", `${account.name} has been closed. Its history is still available.`);
+      setIsCloseOpen(false);
+    },
+    onError: onMutationError("Failed to close account"),
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/accounts/${account.id}/reopen`);
+    },
+    onSuccess: () => {
+      onMutationSuccess("Account reopened", `${account.name} is open again.`);
+    },
+    onError: onMutationError("Failed to reopen account"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/accounts/${account.id}`);
+    },
+    onSuccess: () => {
+      onMutationSuccess("Account deleted", `${account.name} has been removed.`);
+      setIsDeleteOpen(false);
+      onDeleted?.();
+    },
+    onError: onMutationError("Failed to delete account"),
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8">
+            <MoreHorizontalIcon className="h-4 w-4" />
+            <span className="sr-only">Account actions</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={openEditForm}>
+            <PencilIcon className="h-4 w-4 mr-2" />
+            Edit details
+          </DropdownMenuItem>
+          {account.closed ? (
+            <DropdownMenuItem onSelect={() => reopenMutation.mutate()} disabled={reopenMutation.isPending}>
+              <ArchiveRestoreIcon className="h-4 w-4 mr-2" />
+              Reopen
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem onSelect={() => setIsCloseOpen(true)}>
+              <ArchiveIcon className="h-4 w-4 mr-2" />
+              Close account
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-destructive"
+            onSelect={() => setIsDeleteOpen(true)}
+          >
+            <Trash2Icon className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Edit Dialog */}
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit account</DialogTitle>
+            <DialogDescription>
+              {accountTypeLabels[account.type as BankAccountType] ?? account.type} ending in {account.accountNumber.slice(-4)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...editForm}>
+            <form onSubmit={editForm.handleSubmit(data => editMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={editForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Account Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <TypeSpecificFields form={editForm} />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsEditOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={editMutation.isPending}
+                >
+                  {editMutation.isPending ? "Saving..." : "Save Changes"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Close Confirmation */}
+      <AlertDialog open={isCloseOpen} onOpenChange={setIsCloseOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close {account.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {hasBalance
+                ? `This account still has a balance of ${formatCurrency(account.balance, account.currency)}. Move or pay it off before closing the account.`
+                : "No money can move in or out of a closed account, and it won't appear when choosing an account. You can reopen it at any time."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                closeMutation.mutate();
+              }}
+              disabled={hasBalance || closeMutation.isPending}
+            >
+              {closeMutation.isPending ? "Closing..." : "Close Account"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {account.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only accounts without any transactions can be deleted. To keep an account's history, close it instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                deleteMutation.mutate();
+              }}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,7 +1,17 @@
 import { ArrowUpIcon } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
-import type { BankAccount } from "@shared/schema";
+import { addMoney, formatCurrency } from "@shared/money";
+import type { BankAccount, BankAccountType } from "@shared/schema";
+
+export const accountTypeLabels: Record<BankAccountType, string> = {
+  checking: "Checking",
+  savings: "Savings",
+  credit_card: "Credit Card",
+  loan: "Loan",
+  cash: "Cash",
+  investment: "Investment",
+};
 
 interface AccountCardProps {
   account: BankAccount;
@@ -10,11 +20,7 @@ interface AccountCardProps {
 
 export function AccountCard({ account, className }: AccountCardProps) {
   // Format account balance
-  const balanceNum = parseFloat(account.balance.toString());
-  const formattedBalance = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(balanceNum);
+  const formattedBalance = formatCurrency(account.balance, account.currency);
 
   // Last 4 digits of account number
   const lastFourDigits = account.accountNumber.substring(account.accountNumber.length - 4);
@@ -52,10 +58,16 @@ export function AccountCard({ account, className }: AccountCardProps) {
       </div>
       <div className="flex justify-between items-center text-sm">
         <p className="text-muted-foreground">**** {lastFourDigits}</p>
-        <div className="flex items-center text-green-500">
-          <ArrowUpIcon className="h-4 w-4 mr-1" />
-          <span>{account.type === 'checking' ? "+2.1%" : "+3.5%"}</span>
-        </div>
+        {account.type === 'credit_card' && account.creditLimit ? (
+          <p className="text-muted-foreground">{formatCurrency(addMoney(account.balance, account.creditLimit), account.currency)} available</p>
+        ) : account.type === 'checking' || account.type === 'savings' ? (
+          <div className="flex items-center text-green-500">
+            <ArrowUpIcon className="h-4 w-4 mr-1" />
+            <span>{account.type === 'checking' ? "+2.1%" : "+3.5%"}</span>
+          </div>
+        ) : (
+          <p className="text-muted-foreground">{accountTypeLabels[account.type as BankAccountType] ?? account.type}</p>
+        )}
       </div>
     </Card>
   );
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { TwoFactorStatus, User } from "@shared/schema";
+
+// Matches DELETION_GRACE_DAYS on the server, for the confirmation text
+const GRACE_DAYS = 14;
+
+interface AccountDeletionProps {
+  onExport: () => void;
+  isExporting: boolean;
+}
+
+// The Privacy tab's last section: ask for deletion, or call off a pending one
+export function AccountDeletion({ onExport, isExporting }: AccountDeletionProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/user/deletion");
+      return await res.json() as Omit<User, "password">;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/user"], updated);
+      toast({
+        title: "Deletion cancelled",
+        description: "Your account will be kept."
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to cancel deletion",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  if (user?.deleteAfter) {
+    return (
+      <div>
+        <Label className="text-destructive">Account scheduled for deletion</Label>
+        <p className="text-sm text-muted-foreground mb-2">
+          Your account and all of its data will be permanently erased on{" "}
+          {format(new Date(user.deleteAfter), "MMMM d, yyyy 'at' h:mm a")}. Until then you can download your data or change your mind.
+        </p>
+        <Button variant="outline" onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+          {cancelMutation.isPending ? "Cancelling..." : "Cancel deletion"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Label>Delete account</Label>
+      <p className="text-sm text-muted-foreground mb-2">
+        Permanently erase your profile, accounts, transactions, goals, journal and AI advice, {GRACE_DAYS} days after you ask
+      </p>
+      <Button variant="destructive" onClick={() => setDialogOpen(true)}>
+        Delete my account
+      </Button>
+      <DeleteAccountDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onExport={onExport}
+        isExporting={isExporting}
+      />
+    </div>
+  );
+}
+
+interface DeleteAccountDialogProps extends AccountDeletionProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function DeleteAccountDialog({ open, onOpenChange, onExport, isExporting }: DeleteAccountDialogProps) {
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+
+  const { data: twoFactor } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+    enabled: open,
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setPassword("");
+      setCode("");
+    }
+    onOpenChange(next);
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/deletion", {
+        password,
+        code: twoFactor?.enabled ? code : undefined,
+      });
+      return await res.json() as Omit<User, "password">;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/user"], updated);
+      toast({
+        title: "Account scheduled for deletion",
+        description: "We've emailed you the date. You can cancel any time before then."
+      });
+      handleOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete account",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Delete your account</DialogTitle>
+          <DialogDescription>
+            Your account stays open for {GRACE_DAYS} days, and you can cancel until then. After that everything is
+            erased for good and can't be recovered, and you'll be emailed an erasure receipt.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="rounded-md bg-muted p-3 text-sm">
+            <p className="mb-2">Want a copy of your data first?</p>
+            <Button variant="outline" size="sm" onClick={onExport} disabled={isExporting}>
+              {isExporting ? "Preparing export..." : "Download my data"}
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delete-account-password">Password</Label>
+            <Input
+              id="delete-account-password"
+              type="password"
+              value={password}
+              onChange={event => setPassword(event.target.value)}
+            />
+          </div>
+          {twoFactor?.enabled && (
+            <div className="space-y-2">
+              <Label htmlFor="delete-account-code">Authentication or recovery code</Label>
+              <Input
+                id="delete-account-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={event => setCode(event.target.value)}
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button
+            variant="destructive"
+            disabled={!password || (twoFactor?.enabled && !code) || deleteMutation.isPending}
+            onClick={() => deleteMutation.mutate()}
+          >
+            {deleteMutation.isPending ? "Scheduling..." : "Delete my account"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
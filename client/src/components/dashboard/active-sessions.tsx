@@ -0,0 +1,161 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDistanceToNow, format } from "date-fns";
+import { MonitorIcon, SmartphoneIcon } from "lucide-react";
+import type { ActiveSession } from "@shared/schema";
+
+// Enough of the user agent to recognise a device by, such as "Chrome on Windows"
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? userAgent.slice(0, 60);
+}
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+export function ActiveSessionsCard() {
+  const { toast } = useToast();
+
+  // Other devices sign in and out on their own, so always refetch
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/user/sessions"],
+    staleTime: 0,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/user/sessions/${id}`);
+      return await res.json() as ActiveSession;
+    },
+    onSuccess: (session) => {
+      toast({
+        title: "Session signed out",
+        description: `${describeUserAgent(session.userAgent)} is no longer signed in.`
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+    },
+    onError: onError("Failed to sign out session"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/sessions/revoke-others");
+      return await res.json() as { signedOutSessions: number };
+    },
+    onSuccess: ({ signedOutSessions }) => {
+      toast({
+        title: "Signed out everywhere else",
+        description: `${signedOutSessions} other ${signedOutSessions === 1 ? "session was" : "sessions were"} signed out.`
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+    },
+    onError: onError("Failed to sign out other sessions"),
+  });
+
+  const hasOthers = !!sessions?.some(session => !session.current);
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Active Sessions</CardTitle>
+          <CardDescription className="mt-1.5">
+            Devices signed in to your account. Sign out any you don't recognise.
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!hasOthers || revokeOthersMutation.isPending}
+          onClick={() => revokeOthersMutation.mutate()}
+        >
+          {revokeOthersMutation.isPending ? "Signing out..." : "Sign out everywhere else"}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array(2).fill(0).map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : !sessions || sessions.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No active sessions</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {sessions.map(session => {
+              const DeviceIcon = isMobile(session.userAgent) ? SmartphoneIcon : MonitorIcon;
+              return (
+                <div key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <DeviceIcon className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-foreground flex items-center gap-2">
+                        <span className="truncate" title={session.userAgent ?? undefined}>
+                          {describeUserAgent(session.userAgent)}
+                        </span>
+                        {session.current && <Badge variant="secondary">This device</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {session.ip ?? "Unknown address"}
+                        {session.signedInAt && <> · Signed in {format(new Date(session.signedInAt), "MMM d, yyyy 'at' h:mm a")}</>}
+                        {session.lastSeenAt && !session.current && (
+                          <> · Last active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}</>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={revokeMutation.isPending}
+                      onClick={() => revokeMutation.mutate(session.id)}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
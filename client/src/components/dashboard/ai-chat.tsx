@@ -6,8 +6,9 @@ import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { Link } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { AiAdvice } from "@shared/schema";
+import type { AiAdvice, PrivacyPreferences } from "@shared/schema";
 
 export function AiChat() {
   const { user } = useAuth();
@@ -20,6 +21,12 @@ export function AiChat() {
     queryKey: ["/api/ai/advice"],
   });
 
+  // The advisor can be turned off on the Privacy tab, and the server then refuses to answer
+  const { data: preferences } = useQuery<PrivacyPreferences>({
+    queryKey: ["/api/user/preferences"],
+  });
+  const advisorOff = preferences?.aiAdvisor === false;
+
   // AI advice mutation
   const adviceMutation = useMutation({
     mutationFn: async (query: string) => {
@@ -136,28 +143,35 @@ export function AiChat() {
         </div>
       </ScrollArea>
       
-      <form onSubmit={handleSubmit} className="relative">
-        <Input
-          type="text"
-          placeholder="Ask me anything about your finances..."
-          className="w-full p-3 pr-12 bg-muted border-none rounded-full focus:ring-2 focus:ring-primary focus:outline-none text-sm"
-          value={query}
-          onChange={(e) => setQuery(e.target.value)}
-          disabled={adviceMutation.isPending}
-        />
-        <Button
-          type="submit"
-          size="icon"
-          className="absolute right-2 top-1/2 transform -translate-y-1/2 w-8 h-8 rounded-full bg-gradient-to-r from-primary to-secondary text-white"
-          disabled={query.trim() === "" || adviceMutation.isPending}
-        >
-          {adviceMutation.isPending ? (
-            <Loader2 className="h-4 w-4 animate-spin" />
-          ) : (
-            <SendIcon className="h-4 w-4" />
-          )}
-        </Button>
-      </form>
+      {advisorOff ? (
+        <p className="text-sm text-muted-foreground text-center">
+          The AI financial advisor is turned off.{" "}
+          <Link href="/settings?tab=privacy" className="text-primary underline">Turn it on in your privacy settings</Link>
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="relative">
+          <Input
+            type="text"
+            placeholder="Ask me anything about your finances..."
+            className="w-full p-3 pr-12 bg-muted border-none rounded-full focus:ring-2 focus:ring-primary focus:outline-none text-sm"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            disabled={adviceMutation.isPending}
+          />
+          <Button
+            type="submit"
+            size="icon"
+            className="absolute right-2 top-1/2 transform -translate-y-1/2 w-8 h-8 rounded-full bg-gradient-to-r from-primary to-secondary text-white"
+            disabled={query.trim() === "" || adviceMutation.isPending}
+          >
+            {adviceMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <SendIcon className="h-4 w-4" />
+            )}
+          </Button>
+        </form>
+      )}
     </div>
   );
 }
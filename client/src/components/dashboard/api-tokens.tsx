@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format, formatDistanceToNow } from "date-fns";
+import { KeyRoundIcon } from "lucide-react";
+import type { ApiTokenScope, CreatedApiToken, PublicApiToken } from "@shared/schema";
+
+// Scopes come in read/write pairs per kind of data, except activity, which is read-only
+const scopeGroups: { label: string; read: ApiTokenScope; write?: ApiTokenScope }[] = [
+  { label: "Accounts", read: "accounts:read", write: "accounts:write" },
+  { label: "Transactions", read: "transactions:read", write: "transactions:write" },
+  { label: "Goals", read: "goals:read", write: "goals:write" },
+  { label: "Budgets", read: "budgets:read", write: "budgets:write" },
+  { label: "Scheduled", read: "recurring:read", write: "recurring:write" },
+  { label: "Journal", read: "journal:read", write: "journal:write" },
+  { label: "Activity", read: "activity:read" },
+];
+
+const expiryOptions = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+// The Security tab's list of personal access tokens
+export function ApiTokensCard() {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+
+  // Last-used times change whenever a script runs, so always refetch
+  const { data: tokens, isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ["/api/user/tokens"],
+    staleTime: 0,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/user/tokens/${id}`);
+      return await res.json() as PublicApiToken;
+    },
+    onSuccess: (token) => {
+      toast({
+        title: "API token revoked",
+        description: `Scripts using "${token.name}" can no longer reach your account.`
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/tokens"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke API token",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>API Tokens</CardTitle>
+          <CardDescription className="mt-1.5">
+            Let your own scripts use the API. Send a token as <code>Authorization: Bearer &lt;token&gt;</code>.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setCreateOpen(true)}>
+          New token
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array(2).fill(0).map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : !tokens || tokens.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No API tokens</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {tokens.map(token => {
+              const expired = !!token.expiresAt && new Date(token.expiresAt) <= new Date();
+              return (
+                <div key={token.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <KeyRoundIcon className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-foreground flex items-center gap-2">
+                        <span className="truncate">{token.name}</span>
+                        <span className="font-mono text-xs text-muted-foreground">{token.prefix}…</span>
+                        {expired && <Badge variant="destructive">Expired</Badge>}
+                      </p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {token.scopes.map(scope => (
+                          <Badge key={scope} variant="secondary" className="font-mono text-[10px]">{scope}</Badge>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Created {format(new Date(token.createdAt), "MMM d, yyyy")}
+                        {" · "}
+                        {token.expiresAt
+                          ? `${expired ? "Expired" : "Expires"} ${format(new Date(token.expiresAt), "MMM d, yyyy")}`
+                          : "Never expires"}
+                        {" · "}
+                        {token.lastUsedAt
+                          ? <>Last used {formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}{token.lastUsedIp && <> from {token.lastUsedIp}</>}</>
+                          : "Never used"}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(token.id)}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+      <CreateApiTokenDialog open={createOpen} onOpenChange={setCreateOpen} />
+    </Card>
+  );
+}
+
+interface CreateApiTokenDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function CreateApiTokenDialog({ open, onOpenChange }: CreateApiTokenDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [expiry, setExpiry] = useState("90");
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/tokens", {
+        name,
+        scopes,
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      });
+      return await res.json() as CreatedApiToken;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/tokens"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create API token",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setName("");
+      setScopes([]);
+      setExpiry("90");
+      createMutation.reset();
+    }
+    onOpenChange(next);
+  };
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(s => s !== scope));
+  };
+
+  const created = createMutation.data;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        {created ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Copy your new token</DialogTitle>
+              <DialogDescription>
+                Store it somewhere safe now. It won't be shown again.
+              </DialogDescription>
+            </DialogHeader>
+            <p className="rounded-md bg-muted p-3 font-mono text-sm break-all select-all">{created.token}</p>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => navigator.clipboard.writeText(created.token)}>
+                Copy
+              </Button>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>New API token</DialogTitle>
+              <DialogDescription>
+                Give the token only the access your script needs.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-token-name">Name</Label>
+                <Input
+                  id="api-token-name"
+                  placeholder="Monthly report script"
+                  value={name}
+                  onChange={event => setName(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                <div className="rounded-md border divide-y divide-border">
+                  {scopeGroups.map(group => (
+                    <div key={group.label} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span>{group.label}</span>
+                      <div className="flex gap-4">
+                        {[group.read, group.write].map(scope => scope && (
+                          <label key={scope} className="flex items-center gap-2 text-muted-foreground">
+                            <Checkbox
+                              checked={scopes.includes(scope)}
+                              onCheckedChange={checked => toggleScope(scope, checked === true)}
+                            />
+                            {scope.endsWith(":read") ? "Read" : "Write"}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Expires after</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expiryOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+              <Button
+                disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+                onClick={() => createMutation.mutate()}
+              >
+                {createMutation.isPending ? "Creating..." : "Create token"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
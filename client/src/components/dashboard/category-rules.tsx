@@ -0,0 +1,408 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { RefreshCwIcon, Trash2Icon, WandSparklesIcon } from "lucide-react";
+import { formatCurrency } from "@shared/money";
+import { transactionCategories, type CategoryRule } from "@shared/schema";
+
+const optionalAmount = z.string()
+  .refine(val => val === "" || (!isNaN(Number(val)) && Number(val) >= 0), { message: "Amount must be a positive number" });
+
+// Rule form schema
+const ruleFormSchema = z.object({
+  field: z.enum(["merchant", "description"]),
+  matchType: z.enum(["contains", "regex"]),
+  pattern: z.string().trim().min(1, "Enter text to match"),
+  category: z.string().min(1, "Choose a category"),
+  merchant: z.string(),
+  minAmount: optionalAmount,
+  maxAmount: optionalAmount,
+  priority: z.string().refine(val => Number.isInteger(Number(val)), { message: "Priority must be a whole number" }),
+});
+
+type RuleFormValues = z.infer<typeof ruleFormSchema>;
+
+const defaultRuleValues: RuleFormValues = {
+  field: "merchant",
+  matchType: "contains",
+  pattern: "",
+  category: "",
+  merchant: "",
+  minAmount: "",
+  maxAmount: "",
+  priority: "0",
+};
+
+function describeRule(rule: CategoryRule, currency: string): string {
+  const match = rule.matchType === "regex"
+    ? `${rule.field} matches /${rule.pattern}/`
+    : `${rule.field} contains "${rule.pattern}"`;
+
+  if (rule.minAmount && rule.maxAmount) {
+    return `${match}, ${formatCurrency(rule.minAmount, currency)} to ${formatCurrency(rule.maxAmount, currency)}`;
+  }
+  if (rule.minAmount) return `${match}, at least ${formatCurrency(rule.minAmount, currency)}`;
+  if (rule.maxAmount) return `${match}, up to ${formatCurrency(rule.maxAmount, currency)}`;
+  return match;
+}
+
+export function CategoryRulesCard() {
+  const { toast } = useToast();
+  const currency = useHomeCurrency();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: rules, isLoading } = useQuery<CategoryRule[]>({
+    queryKey: ["/api/category-rules"],
+  });
+
+  const ruleForm = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: defaultRuleValues,
+  });
+
+  const openCreateForm = () => {
+    ruleForm.reset(defaultRuleValues);
+    setIsFormOpen(true);
+  };
+
+  const createRuleMutation = useMutation({
+    mutationFn: async (data: RuleFormValues) => {
+      return await apiRequest("POST", "/api/category-rules", {
+        field: data.field,
+        matchType: data.matchType,
+        pattern: data.pattern,
+        category: data.category,
+        merchant: data.merchant.trim() || null,
+        minAmount: data.minAmount || null,
+        maxAmount: data.maxAmount || null,
+        priority: Number(data.priority),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Rule created",
+        description: "New transactions that match will be categorized automatically"
+      });
+      setIsFormOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/category-rules"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create rule",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (rule: CategoryRule) => {
+      return await apiRequest("DELETE", `/api/category-rules/${rule.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/category-rules"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete rule",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const applyRulesMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/category-rules/apply");
+      return await res.json() as { updated: number };
+    },
+    onSuccess: ({ updated }) => {
+      toast({
+        title: "Rules applied",
+        description: updated === 1 ? "1 transaction was updated" : `${updated} transactions were updated`
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets/progress"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to apply rules",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Categorization Rules</CardTitle>
+          <CardDescription>Fill in categories and tidy merchant names as transactions arrive</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => applyRulesMutation.mutate()}
+            disabled={applyRulesMutation.isPending || !rules?.length}
+          >
+            <RefreshCwIcon className="h-4 w-4 mr-2" />
+            {applyRulesMutation.isPending ? "Applying..." : "Re-apply to History"}
+          </Button>
+          <Button size="sm" onClick={openCreateForm}>Add Rule</Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : rules && rules.length > 0 ? (
+          <div className="divide-y divide-border">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium text-foreground">
+                    {rule.category}
+                    {rule.merchant && <span className="text-muted-foreground font-normal"> · {rule.merchant}</span>}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    When {describeRule(rule, currency)} (priority {rule.priority})
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => deleteRuleMutation.mutate(rule)}>
+                  <Trash2Icon className="h-3.5 w-3.5" />
+                  <span className="sr-only">Delete rule</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <WandSparklesIcon className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">
+              No rules yet. Add one to categorize transactions from a merchant or description automatically.
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Create Rule Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add a categorization rule</DialogTitle>
+            <DialogDescription>
+              Transactions without a category get this one when they match. Lower priorities are tried first.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...ruleForm}>
+            <form onSubmit={ruleForm.handleSubmit(data => createRuleMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={ruleForm.control}
+                  name="field"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Match On</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="merchant">Merchant</SelectItem>
+                          <SelectItem value="description">Description</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={ruleForm.control}
+                  name="matchType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Match Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="contains">Contains</SelectItem>
+                          <SelectItem value="regex">Regular expression</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={ruleForm.control}
+                name="pattern"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pattern</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. AMZN" {...field} />
+                    </FormControl>
+                    <FormDescription>Matching ignores upper and lower case.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={ruleForm.control}
+                  name="minAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Min Amount</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={ruleForm.control}
+                  name="maxAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max Amount</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={ruleForm.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {transactionCategories.map((category) => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={ruleForm.control}
+                  name="merchant"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Merchant Name (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Amazon" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={ruleForm.control}
+                  name="priority"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Priority</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsFormOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={createRuleMutation.isPending}
+                >
+                  {createRuleMutation.isPending ? "Saving..." : "Save Rule"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
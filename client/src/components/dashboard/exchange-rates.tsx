@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { ArrowLeftRightIcon, FileUpIcon, Trash2Icon } from "lucide-react";
+import { currencyCodeSchema, dateKey } from "@shared/currency";
+import type { ExchangeRate } from "@shared/schema";
+
+// Rate form schema
+const rateFormSchema = z.object({
+  baseCurrency: currencyCodeSchema,
+  quoteCurrency: currencyCodeSchema,
+  rate: z.string()
+    .refine(val => !isNaN(Number(val)) && Number(val) > 0, { message: "Rate must be a positive number" }),
+  effectiveDate: z.string().min(1, "Choose the date the rate applies from"),
+}).refine(data => data.baseCurrency !== data.quoteCurrency, {
+  message: "Choose two different currencies",
+  path: ["quoteCurrency"],
+});
+
+type RateFormValues = z.infer<typeof rateFormSchema>;
+
+const defaultRateValues = (): RateFormValues => ({
+  baseCurrency: "",
+  quoteCurrency: "",
+  rate: "",
+  effectiveDate: dateKey(),
+});
+
+// Admin-only: the rate table every user's conversions are based on
+export function ExchangeRatesCard() {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: rates, isLoading } = useQuery<ExchangeRate[]>({
+    queryKey: ["/api/exchange-rates"],
+  });
+
+  const rateForm = useForm<RateFormValues>({
+    resolver: zodResolver(rateFormSchema),
+    defaultValues: defaultRateValues(),
+  });
+
+  const openCreateForm = () => {
+    rateForm.reset(defaultRateValues());
+    setIsFormOpen(true);
+  };
+
+  // Totals and budgets are converted with these rates
+  const onRatesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts/totals"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/budgets/progress"] });
+  };
+
+  const createRateMutation = useMutation({
+    mutationFn: async (data: RateFormValues) => {
+      return await apiRequest("POST", "/api/exchange-rates", data);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Rate saved",
+        description: "Conversions from its date on will use it"
+      });
+      setIsFormOpen(false);
+      onRatesChanged();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save rate",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const res = await apiRequest("POST", "/api/exchange-rates/upload", { content });
+      return await res.json() as { saved: number };
+    },
+    onSuccess: ({ saved }) => {
+      toast({
+        title: "Rates uploaded",
+        description: saved === 1 ? "1 rate was saved" : `${saved} rates were saved`
+      });
+      onRatesChanged();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to upload rates",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: async (rate: ExchangeRate) => {
+      return await apiRequest("DELETE", `/api/exchange-rates/${rate.id}`);
+    },
+    onSuccess: onRatesChanged,
+    onError: (error) => {
+      toast({
+        title: "Failed to delete rate",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const onFileChange = async (input: HTMLInputElement) => {
+    const file = input.files?.[0];
+    if (!file) return;
+    uploadMutation.mutate(await file.text());
+    // Lets the same file be picked again after fixing it
+    input.value = "";
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Exchange Rates</CardTitle>
+          <CardDescription>
+            Used to convert balances, budgets and transfers between currencies
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <label className="cursor-pointer">
+              <FileUpIcon className="h-4 w-4 mr-2" />
+              {uploadMutation.isPending ? "Uploading..." : "Upload CSV"}
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="sr-only"
+                disabled={uploadMutation.isPending}
+                onChange={(e) => onFileChange(e.target)}
+              />
+            </label>
+          </Button>
+          <Button size="sm" onClick={openCreateForm}>Add Rate</Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : rates && rates.length > 0 ? (
+          <div className="divide-y divide-border">
+            {rates.map((rate) => (
+              <div key={rate.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium text-foreground">
+                    1 {rate.baseCurrency} = {rate.rate} {rate.quoteCurrency}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    From {rate.effectiveDate} · {rate.source === "upload" ? "Uploaded" : "Entered by hand"}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => deleteRateMutation.mutate(rate)}>
+                  <Trash2Icon className="h-3.5 w-3.5" />
+                  <span className="sr-only">Delete rate</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <ArrowLeftRightIcon className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">
+              No rates yet. Add one, or upload a CSV with base, quote, rate and date columns.
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Create Rate Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add an exchange rate</DialogTitle>
+            <DialogDescription>
+              How much of the quote currency one unit of the base currency buys. A rate for the same pair and date is replaced.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...rateForm}>
+            <form onSubmit={rateForm.handleSubmit(data => createRateMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={rateForm.control}
+                  name="baseCurrency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Base Currency</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. EUR" maxLength={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={rateForm.control}
+                  name="quoteCurrency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quote Currency</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. USD" maxLength={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={rateForm.control}
+                  name="rate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rate</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. 1.0845" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={rateForm.control}
+                  name="effectiveDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Effective From</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsFormOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={createRateMutation.isPending}
+                >
+                  {createRateMutation.isPending ? "Saving..." : "Save Rate"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,364 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ArchiveIcon, ArchiveRestoreIcon, MoreHorizontalIcon, PencilIcon, Trash2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { compareMoney, formatCurrency } from "@shared/money";
+import type { SavingGoal } from "@shared/schema";
+
+const editGoalSchema = z.object({
+  name: z.string().min(3, "Goal name must be at least 3 characters"),
+  targetAmount: z.string()
+    .refine(val => !isNaN(Number(val)), { message: "Target amount must be a number" })
+    .refine(val => Number(val) > 0, { message: "Target amount must be greater than 0" }),
+  deadline: z.string(),
+});
+
+const reopenGoalSchema = z.object({
+  targetAmount: z.string()
+    .refine(val => !isNaN(Number(val)), { message: "Target amount must be a number" }),
+});
+
+interface GoalActionsProps {
+  goal: SavingGoal;
+}
+
+export function GoalActions({ goal }: GoalActionsProps) {
+  const { toast } = useToast();
+  const currency = useHomeCurrency();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isReopenOpen, setIsReopenOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const hasFunds = compareMoney(goal.currentAmount, 0) > 0;
+
+  const editForm = useForm<z.infer<typeof editGoalSchema>>({
+    resolver: zodResolver(editGoalSchema),
+    defaultValues: {
+      name: goal.name,
+      targetAmount: goal.targetAmount,
+      deadline: goal.deadline ? format(new Date(goal.deadline), "yyyy-MM-dd") : "",
+    },
+  });
+
+  const reopenForm = useForm<z.infer<typeof reopenGoalSchema>>({
+    resolver: zodResolver(reopenGoalSchema),
+    defaultValues: {
+      targetAmount: "",
+    },
+  });
+
+  const openEditForm = () => {
+    editForm.reset({
+      name: goal.name,
+      targetAmount: goal.targetAmount,
+      deadline: goal.deadline ? format(new Date(goal.deadline), "yyyy-MM-dd") : "",
+    });
+    setIsEditOpen(true);
+  };
+
+  const onMutationSuccess = (title: string, description: string) => {
+    toast({ title, description });
+    queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+  };
+
+  const onMutationError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const editMutation = useMutation({
+    mutationFn: async (data: z.infer<typeof editGoalSchema>) => {
+      return await apiRequest("PATCH", `/api/goals/${goal.id}`, {
+        name: data.name,
+        targetAmount: data.targetAmount,
+        deadline: data.deadline ? new Date(data.deadline).toISOString() : null,
+      });
+    },
+    onSuccess: () => {
+      onMutationSuccess("Goal updated", "Progress has been recalculated against the new target.");
+      setIsEditOpen(false);
+    },
+    onError: onMutationError("Failed to update goal"),
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/goals/${goal.id}/archive`);
+    },
+    onSuccess: () => {
+      onMutationSuccess("Goal archived", `${goal.name} has been moved to your archived goals.`);
+    },
+    onError: onMutationError("Failed to archive goal"),
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async (targetAmount?: string) => {
+      return await apiRequest("POST", `/api/goals/${goal.id}/reopen`, targetAmount ? { targetAmount } : {});
+    },
+    onSuccess: () => {
+      onMutationSuccess("Goal reopened", `${goal.name} is active again.`);
+      setIsReopenOpen(false);
+    },
+    onError: onMutationError("Failed to reopen goal"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/goals/${goal.id}`);
+    },
+    onSuccess: () => {
+      onMutationSuccess("Goal deleted", `${goal.name} and its history have been removed.`);
+      setIsDeleteOpen(false);
+    },
+    onError: onMutationError("Failed to delete goal"),
+  });
+
+  // A goal that has reached its target only becomes active again with a higher one
+  const onReopen = () => {
+    if (goal.completed) {
+      reopenForm.reset({ targetAmount: "" });
+      setIsReopenOpen(true);
+    } else {
+      reopenMutation.mutate(undefined);
+    }
+  };
+
+  const onReopenSubmit = (data: z.infer<typeof reopenGoalSchema>) => {
+    if (compareMoney(data.targetAmount, goal.currentAmount) <= 0) {
+      reopenForm.setError("targetAmount", {
+        message: `The new target must be more than the ${formatCurrency(goal.currentAmount, currency)} already saved`,
+      });
+      return;
+    }
+    reopenMutation.mutate(data.targetAmount);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-7 w-7">
+            <MoreHorizontalIcon className="h-4 w-4" />
+            <span className="sr-only">Goal actions</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={openEditForm}>
+            <PencilIcon className="h-4 w-4 mr-2" />
+            Edit
+          </DropdownMenuItem>
+          {goal.archived || goal.completed ? (
+            <DropdownMenuItem onSelect={onReopen} disabled={reopenMutation.isPending}>
+              <ArchiveRestoreIcon className="h-4 w-4 mr-2" />
+              Reopen
+            </DropdownMenuItem>
+          ) : null}
+          {!goal.archived && (
+            <DropdownMenuItem onSelect={() => archiveMutation.mutate()} disabled={archiveMutation.isPending}>
+              <ArchiveIcon className="h-4 w-4 mr-2" />
+              Archive
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-destructive"
+            onSelect={() => setIsDeleteOpen(true)}
+          >
+            <Trash2Icon className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Edit Dialog */}
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit goal</DialogTitle>
+            <DialogDescription>
+              You've saved {formatCurrency(goal.currentAmount, currency)} so far. Changing the target recalculates your progress.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...editForm}>
+            <form onSubmit={editForm.handleSubmit(data => editMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={editForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Goal Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={editForm.control}
+                name="targetAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Target Amount</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0.00" type="number" step="0.01" min="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={editForm.control}
+                name="deadline"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Target Date (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsEditOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={editMutation.isPending}
+                >
+                  {editMutation.isPending ? "Saving..." : "Save Changes"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reopen Dialog, for goals that reached their target */}
+      <Dialog open={isReopenOpen} onOpenChange={setIsReopenOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reopen {goal.name}</DialogTitle>
+            <DialogDescription>
+              You've reached your {formatCurrency(goal.targetAmount, currency)} target. Set a higher one to keep saving.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...reopenForm}>
+            <form onSubmit={reopenForm.handleSubmit(onReopenSubmit)}>
+              <FormField
+                control={reopenForm.control}
+                name="targetAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New Target Amount</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0.00" type="number" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter className="mt-6">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsReopenOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={reopenMutation.isPending}
+                >
+                  {reopenMutation.isPending ? "Reopening..." : "Reopen Goal"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {goal.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {hasFunds
+                ? `This goal still holds ${formatCurrency(goal.currentAmount, currency)}. Release it to an account before deleting the goal.`
+                : "The goal and its contribution history will be removed. To keep a record, archive it instead."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                deleteMutation.mutate();
+              }}
+              disabled={hasFunds || deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
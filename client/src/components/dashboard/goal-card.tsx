@@ -1,9 +1,9 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
-import { PlusIcon } from "lucide-react";
+import { HistoryIcon, MinusIcon, PlusIcon } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -20,14 +20,27 @@ import {
   FormControl,
   FormMessage,
 } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { GoalActions } from "@/components/dashboard/goal-actions";
 import { useToast } from "@/hooks/use-toast";
+import { useHomeCurrency } from "@/hooks/use-currency";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { cn } from "@/lib/utils";
-import type { SavingGoal } from "@shared/schema";
+import { format } from "date-fns";
+import { compareMoney, formatCurrency, percentOf } from "@shared/money";
+import type { BankAccount, GoalContribution, GoalContributionResult, SavingGoal } from "@shared/schema";
+
+type ContributionType = GoalContribution["type"];
 
 interface GoalCardProps {
   goal: SavingGoal;
@@ -36,20 +49,15 @@ interface GoalCardProps {
 
 export function GoalCard({ goal, className }: GoalCardProps) {
   const { toast } = useToast();
-  const [isAddFundsOpen, setIsAddFundsOpen] = useState(false);
+  const currency = useHomeCurrency();
+  const [contributionType, setContributionType] = useState<ContributionType | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const isWithdrawal = contributionType === "withdrawal";
 
   // Calculate progress percentage
-  const targetAmount = parseFloat(goal.targetAmount.toString());
-  const currentAmount = parseFloat(goal.currentAmount.toString());
-  const progressPercent = Math.min(Math.round((currentAmount / targetAmount) * 100), 100);
-
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
-  };
+  const targetAmount = goal.targetAmount;
+  const currentAmount = goal.currentAmount;
+  const progressPercent = Math.min(Math.round(percentOf(currentAmount, targetAmount)), 100);
 
   // Calculate days left
   const calculateDaysLeft = () => {
@@ -63,47 +71,82 @@ export function GoalCard({ goal, className }: GoalCardProps) {
     return daysLeft > 0 ? `${daysLeft} days left` : 'Deadline passed';
   };
 
-  // Add funds form schema
-  const addFundsSchema = z.object({
+  const { data: accounts } = useQuery<BankAccount[]>({
+    queryKey: ["/api/accounts"],
+  });
+  // Goals are kept in the home currency, so only accounts in it can fund them
+  const openAccounts = accounts?.filter(account => !account.closed && account.currency === currency);
+
+  // Contribution form schema
+  const contributionSchema = z.object({
+    accountId: z.string().min(1, "Choose an account"),
     amount: z.string()
       .refine(val => !isNaN(Number(val)), { message: "Amount must be a number" })
-      .refine(val => Number(val) > 0, { message: "Amount must be greater than 0" })
+      .refine(val => Number(val) > 0, { message: "Amount must be greater than 0" }),
+    note: z.string().max(200, "Keep notes under 200 characters"),
   });
 
-  const form = useForm<z.infer<typeof addFundsSchema>>({
-    resolver: zodResolver(addFundsSchema),
+  const form = useForm<z.infer<typeof contributionSchema>>({
+    resolver: zodResolver(contributionSchema),
     defaultValues: {
-      amount: ""
+      accountId: "",
+      amount: "",
+      note: "",
     },
   });
 
-  // Add funds mutation
-  const addFundsMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof addFundsSchema>) => {
-      return await apiRequest("PATCH", `/api/goals/${goal.id}`, {
-        amount: data.amount
+  const openContributionForm = (type: ContributionType) => {
+    form.reset({ accountId: openAccounts?.[0]?.id.toString() ?? "", amount: "", note: "" });
+    setContributionType(type);
+  };
+
+  // History is only fetched once the dialog is opened
+  const { data: contributions, isLoading: isLoadingHistory } = useQuery<GoalContribution[]>({
+    queryKey: [`/api/goals/${goal.id}/contributions`],
+    enabled: isHistoryOpen,
+  });
+
+  // Deposit / withdrawal mutation
+  const contributionMutation = useMutation({
+    mutationFn: async (data: z.infer<typeof contributionSchema>) => {
+      const res = await apiRequest("POST", `/api/goals/${goal.id}/contributions`, {
+        accountId: parseInt(data.accountId),
+        type: contributionType,
+        amount: data.amount,
+        note: data.note.trim() || null,
       });
+      return await res.json() as GoalContributionResult;
     },
-    onSuccess: () => {
+    onSuccess: ({ transaction }) => {
+      const accountName = accounts?.find(account => account.id === transaction.accountId)?.name ?? "your account";
       toast({
-        title: "Funds added",
-        description: `You've successfully added funds to your ${goal.name} goal.`,
+        title: isWithdrawal ? "Funds released" : "Funds added",
+        description: isWithdrawal
+          ? `${formatCurrency(transaction.amount, currency)} from your ${goal.name} goal went back to ${accountName}.`
+          : `${formatCurrency(transaction.amount, currency)} moved from ${accountName} to your ${goal.name} goal.`,
       });
-      setIsAddFundsOpen(false);
+      setContributionType(null);
       form.reset();
       queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/goals/${goal.id}/contributions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
     },
     onError: (error) => {
       toast({
-        title: "Failed to add funds",
+        title: isWithdrawal ? "Failed to release funds" : "Failed to add funds",
         description: (error as Error).message,
         variant: "destructive",
       });
     },
   });
 
-  const onSubmit = (data: z.infer<typeof addFundsSchema>) => {
-    addFundsMutation.mutate(data);
+  const onSubmit = (data: z.infer<typeof contributionSchema>) => {
+    if (isWithdrawal && compareMoney(data.amount, currentAmount) > 0) {
+      form.setError("amount", { message: "You can't withdraw more than you've saved" });
+      return;
+    }
+    contributionMutation.mutate(data);
   };
 
   // Progress color based on completion percentage
@@ -119,15 +162,18 @@ export function GoalCard({ goal, className }: GoalCardProps) {
       <Card className={cn("bubble-card p-5 hover:translate-y-[-4px] transition-all", className)}>
         <div className="flex justify-between items-center mb-3">
           <h3 className="font-semibold text-foreground">{goal.name}</h3>
-          <span className="text-xs font-medium px-2 py-1 rounded-full bg-primary-light/20 text-primary">
-            {progressPercent}% Complete
-          </span>
+          <div className="flex items-center gap-1">
+            <span className="text-xs font-medium px-2 py-1 rounded-full bg-primary-light/20 text-primary">
+              {goal.archived ? "Archived" : `${progressPercent}% Complete`}
+            </span>
+            <GoalActions goal={goal} />
+          </div>
         </div>
         
         <div className="mb-3">
           <div className="flex justify-between text-sm mb-1">
-            <span className="text-muted-foreground">{formatCurrency(currentAmount)} saved</span>
-            <span className="text-foreground">{formatCurrency(targetAmount)} goal</span>
+            <span className="text-muted-foreground">{formatCurrency(currentAmount, currency)} saved</span>
+            <span className="text-foreground">{formatCurrency(targetAmount, currency)} goal</span>
           </div>
           <Progress 
             value={progressPercent} 
@@ -137,29 +183,76 @@ export function GoalCard({ goal, className }: GoalCardProps) {
         
         <div className="flex justify-between items-center text-sm">
           <span className="text-muted-foreground">{calculateDaysLeft()}</span>
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            className="text-primary font-medium hover:text-primary-dark hover:bg-primary/10"
-            onClick={() => setIsAddFundsOpen(true)}
-          >
-            Add funds
-          </Button>
+          <div className="flex items-center">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground"
+              onClick={() => setIsHistoryOpen(true)}
+            >
+              <HistoryIcon className="h-4 w-4" />
+              <span className="sr-only">Contribution history</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-muted-foreground font-medium"
+              onClick={() => openContributionForm("withdrawal")}
+              disabled={compareMoney(currentAmount, 0) <= 0}
+            >
+              Release
+            </Button>
+            {!goal.archived && (
+              <Button 
+                variant="ghost" 
+                size="sm" 
+                className="text-primary font-medium hover:text-primary-dark hover:bg-primary/10"
+                onClick={() => openContributionForm("deposit")}
+              >
+                Add funds
+              </Button>
+            )}
+          </div>
         </div>
       </Card>
 
-      {/* Add Funds Dialog */}
-      <Dialog open={isAddFundsOpen} onOpenChange={setIsAddFundsOpen}>
+      {/* Add / Release Funds Dialog */}
+      <Dialog open={contributionType !== null} onOpenChange={(open) => !open && setContributionType(null)}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Add funds to {goal.name}</DialogTitle>
+            <DialogTitle>{isWithdrawal ? `Release funds from ${goal.name}` : `Add funds to ${goal.name}`}</DialogTitle>
             <DialogDescription>
-              You're currently at {formatCurrency(currentAmount)} of your {formatCurrency(targetAmount)} goal.
+              You're currently at {formatCurrency(currentAmount, currency)} of your {formatCurrency(targetAmount, currency)} goal.
             </DialogDescription>
           </DialogHeader>
           
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)}>
+              <FormField
+                control={form.control}
+                name="accountId"
+                render={({ field }) => (
+                  <FormItem className="mb-4">
+                    <FormLabel>{isWithdrawal ? "Release to" : "Take from"}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select account" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {openAccounts?.map((account) => (
+                          <SelectItem key={account.id} value={account.id.toString()}>
+                            {account.name} ({formatCurrency(account.balance, account.currency)})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="amount"
@@ -179,26 +272,93 @@ export function GoalCard({ goal, className }: GoalCardProps) {
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="note"
+                render={({ field }) => (
+                  <FormItem className="mt-4">
+                    <FormLabel>Note (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder={isWithdrawal ? "e.g. Car repair" : "e.g. Birthday money"} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               
               <DialogFooter className="mt-6">
                 <Button 
                   type="button" 
                   variant="outline" 
-                  onClick={() => setIsAddFundsOpen(false)}
+                  onClick={() => setContributionType(null)}
                 >
                   Cancel
                 </Button>
                 <Button 
                   type="submit" 
-                  disabled={addFundsMutation.isPending}
+                  disabled={contributionMutation.isPending}
                 >
-                  {addFundsMutation.isPending ? "Adding..." : "Add Funds"}
+                  {contributionMutation.isPending
+                    ? "Saving..."
+                    : isWithdrawal ? "Release Funds" : "Add Funds"}
                 </Button>
               </DialogFooter>
             </form>
           </Form>
         </DialogContent>
       </Dialog>
+
+      {/* Contribution History Dialog */}
+      <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{goal.name} history</DialogTitle>
+            <DialogDescription>
+              Every deposit and withdrawal, newest first.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoadingHistory ? (
+            <p className="text-sm text-muted-foreground py-4">Loading...</p>
+          ) : contributions && contributions.length > 0 ? (
+            <div className="max-h-80 overflow-y-auto divide-y divide-border">
+              {contributions.map((contribution) => (
+                <div key={contribution.id} className="flex items-center justify-between py-3">
+                  <div className="flex items-center gap-3">
+                    <div className={cn(
+                      "w-8 h-8 rounded-full flex items-center justify-center",
+                      contribution.type === "withdrawal" ? "bg-red-100 text-red-500" : "bg-green-100 text-green-500"
+                    )}>
+                      {contribution.type === "withdrawal"
+                        ? <MinusIcon className="h-4 w-4" />
+                        : <PlusIcon className="h-4 w-4" />}
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-foreground">
+                        {contribution.note || (contribution.type === "withdrawal" ? "Withdrawal" : "Deposit")}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {contribution.createdAt ? format(new Date(contribution.createdAt), "MMM d, yyyy h:mm a") : ""}
+                      </p>
+                    </div>
+                  </div>
+                  <span className={cn(
+                    "text-sm font-medium",
+                    contribution.type === "withdrawal" ? "text-red-500" : "text-green-500"
+                  )}>
+                    {contribution.type === "withdrawal" ? "-" : "+"}{formatCurrency(contribution.amount, currency)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground py-4">
+              No contributions recorded yet.
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
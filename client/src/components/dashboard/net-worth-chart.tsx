@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  Tooltip,
+} from "recharts";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { compareMoney, formatCurrency, moneyToNumber, subtractMoney } from "@shared/money";
+import type { NetWorthHistory, NetWorthRange } from "@shared/schema";
+
+const rangeLabels: Record<NetWorthRange, string> = {
+  "1m": "1M",
+  "3m": "3M",
+  "6m": "6M",
+  "1y": "1Y",
+  "all": "All",
+};
+
+interface NetWorthChartProps {
+  className?: string;
+}
+
+export function NetWorthChart({ className }: NetWorthChartProps) {
+  const [range, setRange] = useState<NetWorthRange>("3m");
+
+  // Refetched on every visit, since today's snapshot moves with every transaction
+  const { data: history, isLoading } = useQuery<NetWorthHistory>({
+    queryKey: ["/api/networth/history", { range }],
+    staleTime: 0,
+  });
+
+  const snapshots = history?.snapshots ?? [];
+  const first = snapshots[0];
+  const latest = snapshots[snapshots.length - 1];
+  const change = first && latest ? subtractMoney(latest.netWorth, first.netWorth) : undefined;
+
+  // Recharts plots numbers, so convert only for the chart itself
+  const chartData = snapshots.map(snapshot => ({
+    date: snapshot.date,
+    netWorth: moneyToNumber(snapshot.netWorth),
+  }));
+  const missingRates = Array.from(new Set(snapshots.flatMap(snapshot => snapshot.missingRates)));
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Net Worth</CardTitle>
+          {latest && history && (
+            <div className="mt-2">
+              <p className="text-2xl font-bold text-foreground">{formatCurrency(latest.netWorth, history.currency)}</p>
+              {change !== undefined && (
+                <p className={cn("text-sm", compareMoney(change, 0) < 0 ? "text-destructive" : "text-green-600")}>
+                  {compareMoney(change, 0) < 0 ? "" : "+"}{formatCurrency(change, history.currency)} over this period
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+        <Tabs value={range} onValueChange={value => setRange(value as NetWorthRange)}>
+          <TabsList>
+            {(Object.keys(rangeLabels) as NetWorthRange[]).map(option => (
+              <TabsTrigger key={option} value={option} className="px-2 text-xs">
+                {rangeLabels[option]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="w-full h-56" />
+        ) : chartData.length > 0 && history ? (
+          <>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+                  <defs>
+                    <linearGradient id="netWorthFill" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="var(--primary)" stopOpacity={0.3} />
+                      <stop offset="95%" stopColor="var(--primary)" stopOpacity={0} />
+                    </linearGradient>
+                  </defs>
+                  <XAxis
+                    dataKey="date"
+                    axisLine={false}
+                    tickLine={false}
+                    minTickGap={32}
+                    tickFormatter={(date: string) => format(parseISO(date), "MMM d")}
+                    tick={{ fontSize: 12, fill: 'var(--muted-foreground)' }}
+                  />
+                  <YAxis hide={true} domain={["dataMin", "dataMax"]} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'var(--background)',
+                      border: '1px solid var(--border)',
+                      borderRadius: '0.5rem',
+                      boxShadow: '0 4px 12px rgba(0, 0, 0, 0.08)'
+                    }}
+                    labelFormatter={(date) => format(parseISO(date as string), "MMM d, yyyy")}
+                    formatter={(value) => [formatCurrency(value as number, history.currency), 'Net worth']}
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="netWorth"
+                    stroke="var(--primary)"
+                    strokeWidth={2}
+                    fill="url(#netWorthFill)"
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+            {latest && (
+              <div className="flex justify-between text-sm mt-4">
+                <span className="text-muted-foreground">
+                  Assets <span className="font-medium text-foreground">{formatCurrency(latest.assets, history.currency)}</span>
+                </span>
+                <span className="text-muted-foreground">
+                  Liabilities <span className="font-medium text-foreground">{formatCurrency(latest.liabilities, history.currency)}</span>
+                </span>
+              </div>
+            )}
+            {missingRates.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Leaves out {missingRates.join(", ")} balances on days with no exchange rate
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">
+            Add an account to start tracking your net worth.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
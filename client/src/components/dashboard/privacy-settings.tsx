@@ -0,0 +1,91 @@
+import { Fragment } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { defaultPrivacyPreferences } from "@shared/schema";
+import type { PrivacyPreferences, UpdatePrivacyPreferences } from "@shared/schema";
+
+const switches: { key: keyof PrivacyPreferences; label: string; description: string }[] = [
+  {
+    key: "dataAnalysis",
+    label: "Data analysis",
+    description: "Let the AI advisor analyze your transactions for personalized advice",
+  },
+  {
+    key: "aiAdvisor",
+    label: "AI financial advisor",
+    description: "Use your financial data to provide AI-powered advice",
+  },
+  {
+    key: "aiUsesJournal",
+    label: "Journal moods in advice",
+    description: "Let the AI advisor consider the moods from your journal",
+  },
+  {
+    key: "marketingEmails",
+    label: "Marketing communications",
+    description: "Receive personalized offers based on your financial activity",
+  },
+];
+
+// The Privacy tab's switches. Each change is saved as soon as it's made, and
+// the server stops using the data from that request on.
+export function PrivacySwitches() {
+  const { toast } = useToast();
+
+  const { data: preferences, isLoading } = useQuery<PrivacyPreferences>({
+    queryKey: ["/api/user/preferences"],
+  });
+
+  const preferencesMutation = useMutation({
+    mutationFn: async (changes: UpdatePrivacyPreferences) => {
+      const res = await apiRequest("PATCH", "/api/user/preferences", changes);
+      return await res.json() as PrivacyPreferences;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/user/preferences"], updated);
+      toast({
+        title: "Privacy settings saved",
+        description: "Your choices apply from now on."
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save privacy settings",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const current = preferences ?? defaultPrivacyPreferences;
+
+  return (
+    <>
+      {switches.map(({ key, label, description }, index) => (
+        <Fragment key={key}>
+          {index > 0 && <Separator />}
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor={`privacy-${key}`}>{label}</Label>
+              <p className="text-sm text-muted-foreground">{description}</p>
+            </div>
+            <Switch
+              id={`privacy-${key}`}
+              checked={current[key]}
+              disabled={
+                isLoading ||
+                preferencesMutation.isPending ||
+                (key === "aiUsesJournal" && !current.aiAdvisor)
+              }
+              onCheckedChange={checked => preferencesMutation.mutate({ [key]: checked })}
+            />
+          </div>
+        </Fragment>
+      ))}
+    </>
+  );
+}
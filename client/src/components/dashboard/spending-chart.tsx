@@ -11,16 +11,39 @@ import {
   Cell,
   Legend,
 } from "recharts";
-import type { Transaction } from "@shared/schema";
+import { startOfMonth, subMonths } from "date-fns";
+import { apiRequest, buildQueryUrl, type QueryParams } from "@/lib/queryClient";
+import { useCurrencyConverter } from "@/hooks/use-currency";
+import { addMoney, compareMoney, formatCurrency, moneyToNumber, subtractMoney } from "@shared/money";
+import type { Transaction, TransactionPage } from "@shared/schema";
 
 interface SpendingChartProps {
   className?: string;
 }
 
+// The chart aggregates every row in its range, so walk all pages of it
+async function fetchAllTransactions(params: QueryParams): Promise<Transaction[]> {
+  const transactions: Transaction[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const res = await apiRequest("GET", buildQueryUrl("/api/transactions", { ...params, cursor }));
+    const page: TransactionPage = await res.json();
+    transactions.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return transactions;
+}
+
 export function SpendingChart({ className }: SpendingChartProps) {
+  // Only the seven months shown in the chart
+  const params = { from: startOfMonth(subMonths(new Date(), 6)), limit: 200 };
   const { data: transactions, isLoading } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
+    queryKey: ["/api/transactions", params],
+    queryFn: () => fetchAllTransactions(params),
   });
+  const { homeCurrency: currency, currencyOf, convert } = useCurrencyConverter();
 
   if (isLoading) {
     return (
@@ -65,9 +88,9 @@ export function SpendingChart({ className }: SpendingChartProps) {
     const monthlyData = months
       .map((month, index) => ({ 
         month, 
-        spending: 0,
-        income: 0,
-        savings: 0,
+        spending: "0.00",
+        income: "0.00",
+        savings: "0.00",
         active: index === currentMonth
       }))
       .slice(currentMonth - 6 < 0 ? 12 + (currentMonth - 6) : currentMonth - 6, currentMonth + 1);
@@ -84,19 +107,21 @@ export function SpendingChart({ className }: SpendingChartProps) {
       const monthIndex = monthlyData.findIndex(m => m.month === months[transactionMonth]);
       if (monthIndex === -1) return;
       
-      const amount = parseFloat(transaction.amount.toString());
+      // Accounts can be in different currencies, so add up in the home currency
+      const amount = convert(transaction.amount, currencyOf(transaction.accountId), transaction.date);
+      if (amount === undefined) return;
       
       if (transaction.type === 'debit') {
-        monthlyData[monthIndex].spending += amount;
+        monthlyData[monthIndex].spending = addMoney(monthlyData[monthIndex].spending, amount);
       } else {
-        monthlyData[monthIndex].income += amount;
+        monthlyData[monthIndex].income = addMoney(monthlyData[monthIndex].income, amount);
       }
     });
     
     // Calculate savings for each month
     monthlyData.forEach(month => {
-      month.savings = month.income - month.spending;
-      if (month.savings < 0) month.savings = 0;
+      month.savings = subtractMoney(month.income, month.spending);
+      if (compareMoney(month.savings, 0) < 0) month.savings = "0.00";
     });
     
     return monthlyData;
@@ -104,21 +129,17 @@ export function SpendingChart({ className }: SpendingChartProps) {
 
   const monthlyData = getMonthlyData();
   
+  // Recharts plots numbers, so convert only for the chart itself
+  const chartData = monthlyData.map(month => ({
+    ...month,
+    spending: moneyToNumber(month.spending),
+  }));
+  
   // Calculate totals for the current month
   const currentMonthData = monthlyData.find(m => m.active) || {
-    spending: 0,
-    income: 0,
-    savings: 0
-  };
-
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(amount);
+    spending: "0.00",
+    income: "0.00",
+    savings: "0.00"
   };
 
   return (
@@ -130,7 +151,7 @@ export function SpendingChart({ className }: SpendingChartProps) {
         <div className="h-64">
           <ResponsiveContainer width="100%" height="100%">
             <BarChart
-              data={monthlyData}
+              data={chartData}
               margin={{ top: 10, right: 10, left: 0, bottom: 10 }}
             >
               <XAxis 
@@ -150,11 +171,11 @@ export function SpendingChart({ className }: SpendingChartProps) {
                   borderRadius: '0.5rem',
                   boxShadow: '0 4px 12px rgba(0, 0, 0, 0.08)'
                 }}
-                formatter={(value) => [formatCurrency(value as number), '']}
+                formatter={(value) => [formatCurrency(value as number, currency), '']}
               />
               <Legend />
               <Bar dataKey="spending" name="Spending" radius={[4, 4, 0, 0]}>
-                {monthlyData.map((entry, index) => (
+                {chartData.map((entry, index) => (
                   <Cell 
                     key={`cell-${index}`}
                     fill={entry.active ? 'var(--primary)' : 'var(--muted)'}
@@ -172,7 +193,7 @@ export function SpendingChart({ className }: SpendingChartProps) {
               <span className="text-sm text-muted-foreground">Spending</span>
             </div>
             <span className="text-sm font-medium text-foreground">
-              {formatCurrency(currentMonthData.spending)}
+              {formatCurrency(currentMonthData.spending, currency)}
             </span>
           </div>
           <div className="flex justify-between items-center">
@@ -181,7 +202,7 @@ export function SpendingChart({ className }: SpendingChartProps) {
               <span className="text-sm text-muted-foreground">Income</span>
             </div>
             <span className="text-sm font-medium text-foreground">
-              {formatCurrency(currentMonthData.income)}
+              {formatCurrency(currentMonthData.income, currency)}
             </span>
           </div>
           <div className="flex justify-between items-center">
@@ -190,7 +211,7 @@ export function SpendingChart({ className }: SpendingChartProps) {
               <span className="text-sm text-muted-foreground">Savings</span>
             </div>
             <span className="text-sm font-medium text-foreground">
-              {formatCurrency(currentMonthData.savings)}
+              {formatCurrency(currentMonthData.savings, currency)}
             </span>
           </div>
         </div>
@@ -0,0 +1,385 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertCircleIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { formatCurrency } from "@shared/money";
+import {
+  statementDateFormats,
+  statementFormats,
+  type BankAccount,
+  type CsvColumnMapping,
+  type StatementDateFormat,
+  type StatementImport,
+  type StatementImportResult,
+  type StatementPreview,
+} from "@shared/schema";
+
+type StatementFormat = typeof statementFormats[number];
+
+const mappingFields: { key: keyof CsvColumnMapping; label: string }[] = [
+  { key: "date", label: "Date" },
+  { key: "description", label: "Description" },
+  { key: "amount", label: "Amount (signed)" },
+  { key: "debit", label: "Debit / money out" },
+  { key: "credit", label: "Credit / money in" },
+  { key: "category", label: "Category" },
+  { key: "merchant", label: "Merchant" },
+];
+
+// Radix selects can't hold an empty value, so unmapped columns use a sentinel
+const UNMAPPED = "__none__";
+
+// Only the first rows are shown; the import itself covers the whole file
+const PREVIEW_ROWS = 50;
+
+function isCompleteMapping(mapping: Partial<CsvColumnMapping>): mapping is CsvColumnMapping {
+  return Boolean(mapping.date && mapping.description && (mapping.amount || mapping.debit || mapping.credit));
+}
+
+function formatFromFileName(name: string): StatementFormat {
+  const extension = name.split(".").pop()?.toLowerCase();
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "qif") return "qif";
+  return "csv";
+}
+
+interface StatementImportDialogProps {
+  account: BankAccount;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function StatementImportDialog({ account, open, onOpenChange }: StatementImportDialogProps) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [input, setInput] = useState<StatementImport | null>(null);
+  const [preview, setPreview] = useState<StatementPreview | null>(null);
+  const [mapping, setMapping] = useState<Partial<CsvColumnMapping>>({});
+
+  const reset = () => {
+    setFileName(null);
+    setInput(null);
+    setPreview(null);
+    setMapping({});
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (data: StatementImport) => {
+      const res = await apiRequest("POST", `/api/accounts/${account.id}/import/preview`, data);
+      return await res.json() as StatementPreview;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      // Keep the mapping the server guessed so the user adjusts rather than starts over
+      if (data.mapping) {
+        setMapping(data.mapping);
+        setInput(current => current && { ...current, mapping: data.mapping! });
+      }
+    },
+    onError: (error) => {
+      setPreview(null);
+      toast({
+        title: "Couldn't read statement",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (data: StatementImport) => {
+      const res = await apiRequest("POST", `/api/accounts/${account.id}/import`, data);
+      return await res.json() as StatementImportResult;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Statement imported",
+        description: `${result.imported.length} transaction(s) added` +
+          (result.skippedDuplicates > 0 ? `, ${result.skippedDuplicates} duplicate(s) skipped` : "")
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Import failed",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const updateInput = (changes: Partial<StatementImport>) => {
+    if (!input) return;
+    const next = { ...input, ...changes };
+    setInput(next);
+    previewMutation.mutate(next);
+  };
+
+  const onFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    const next: StatementImport = {
+      format: formatFromFileName(file.name),
+      content: await file.text(),
+      skipDuplicates: true,
+    };
+    setFileName(file.name);
+    setMapping({});
+    setInput(next);
+    previewMutation.mutate(next);
+  };
+
+  const onMappingChange = (key: keyof CsvColumnMapping, column: string) => {
+    const next = { ...mapping, [key]: column === UNMAPPED ? undefined : column };
+    // A signed amount column and debit/credit columns are alternatives
+    if (key === "amount" && next.amount) {
+      next.debit = undefined;
+      next.credit = undefined;
+    }
+    if ((key === "debit" || key === "credit") && next[key]) {
+      next.amount = undefined;
+    }
+    setMapping(next);
+
+    // Only re-read the file once the required columns are all chosen
+    if (isCompleteMapping(next)) {
+      updateInput({ mapping: next });
+    } else {
+      setPreview(current => current && { ...current, rows: [], errors: [] });
+    }
+  };
+
+  const rows = preview?.rows ?? [];
+  const duplicateCount = rows.filter(row => row.duplicate).length;
+  const importCount = input?.skipDuplicates ? rows.length - duplicateCount : rows.length;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import a statement into {account.name}</DialogTitle>
+          <DialogDescription>
+            Load a CSV, OFX or QIF file from another bank. You'll see every row before anything is added.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-1 space-y-2">
+              <Label htmlFor="statement-file">File</Label>
+              <Input
+                id="statement-file"
+                type="file"
+                accept=".csv,.ofx,.qfx,.qif,text/csv"
+                onChange={(e) => onFileChange(e.target.files?.[0])}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select
+                value={input?.format}
+                onValueChange={(value) => updateInput({ format: value as StatementFormat, mapping: undefined })}
+                disabled={!input}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a file first" />
+                </SelectTrigger>
+                <SelectContent>
+                  {statementFormats.map((value) => (
+                    <SelectItem key={value} value={value}>{value.toUpperCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {input?.format !== "ofx" && (
+              <div className="space-y-2">
+                <Label>Date format</Label>
+                <Select
+                  value={input?.dateFormat ?? (input?.format === "qif" ? "MM/DD/YYYY" : "YYYY-MM-DD")}
+                  onValueChange={(value) => updateInput({ dateFormat: value as StatementDateFormat })}
+                  disabled={!input}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statementDateFormats.map((value) => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {/* Column mapping, CSV only */}
+          {input?.format === "csv" && preview && preview.columns.length > 0 && (
+            <div className="rounded-lg border border-border p-3">
+              <p className="text-sm font-medium mb-3">Columns</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {mappingFields.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">{label}</Label>
+                    <Select
+                      value={mapping[key] ?? UNMAPPED}
+                      onValueChange={(value) => onMappingChange(key, value)}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                        {preview.columns.filter(Boolean).map((column) => (
+                          <SelectItem key={column} value={column}>{column}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Problems */}
+          {preview && preview.errors.length > 0 && (
+            <div className="rounded-lg border border-destructive/50 p-3 text-sm">
+              <p className="font-medium text-destructive flex items-center gap-2 mb-1">
+                <AlertCircleIcon className="h-4 w-4" />
+                {preview.errors.length} row(s) couldn't be read and will be left out
+              </p>
+              <ul className="text-muted-foreground space-y-0.5">
+                {preview.errors.slice(0, 5).map((error) => (
+                  <li key={error.line}>Line {error.line}: {error.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Rows */}
+          {previewMutation.isPending ? (
+            <p className="text-sm text-muted-foreground">Reading statement...</p>
+          ) : rows.length > 0 ? (
+            <>
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  {rows.length} transaction(s) found{duplicateCount > 0 && `, ${duplicateCount} already on this account`}
+                </p>
+                {duplicateCount > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="skip-duplicates"
+                      checked={input?.skipDuplicates ?? true}
+                      onCheckedChange={(checked) => input && setInput({ ...input, skipDuplicates: checked })}
+                    />
+                    <Label htmlFor="skip-duplicates" className="text-sm">Skip duplicates</Label>
+                  </div>
+                )}
+              </div>
+              <div className="rounded-lg border border-border max-h-72 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                      <TableRow key={row.line} className={row.duplicate && input?.skipDuplicates ? "opacity-50" : undefined}>
+                        <TableCell className="whitespace-nowrap">{format(new Date(row.date), "MMM d, yyyy")}</TableCell>
+                        <TableCell>
+                          {row.description}
+                          {row.duplicate && <Badge variant="outline" className="ml-2">Duplicate</Badge>}
+                        </TableCell>
+                        <TableCell>{row.category ?? "—"}</TableCell>
+                        <TableCell className={row.type === "credit" ? "text-right text-green-500" : "text-right text-red-500"}>
+                          {row.type === "credit" ? "+" : "-"}{formatCurrency(row.amount, account.currency)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {rows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROWS} rows</p>
+              )}
+            </>
+          ) : preview ? (
+            <p className="text-sm text-muted-foreground">
+              {input?.format === "csv" && !isCompleteMapping(mapping)
+                ? "Choose which columns hold the date, description and amount."
+                : "No transactions found in this file."}
+            </p>
+          ) : fileName === null ? (
+            <p className="text-sm text-muted-foreground">Choose a file to preview its transactions.</p>
+          ) : null}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              reset();
+              onOpenChange(false);
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => input && importMutation.mutate(input)}
+            disabled={
+              !input ||
+              importCount === 0 ||
+              (input.format === "csv" && !isCompleteMapping(mapping)) ||
+              previewMutation.isPending ||
+              importMutation.isPending
+            }
+          >
+            {importMutation.isPending ? "Importing..." : `Import ${importCount} transaction(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
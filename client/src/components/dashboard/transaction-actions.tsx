@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { MoreHorizontalIcon, PencilIcon, Trash2Icon, Undo2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import type { Transaction } from "@shared/schema";
+
+const editTransactionSchema = z.object({
+  amount: z.string()
+    .refine(val => !isNaN(Number(val)), { message: "Amount must be a number" })
+    .refine(val => Number(val) > 0, { message: "Amount must be greater than 0" }),
+  description: z.string().min(3, "Description must be at least 3 characters"),
+  merchant: z.string(),
+  category: z.string(),
+});
+
+interface TransactionActionsProps {
+  transaction: Transaction;
+}
+
+export function TransactionActions({ transaction }: TransactionActionsProps) {
+  const { toast } = useToast();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  // Transfer legs and reversals must keep offsetting their counterpart
+  const isTransfer = transaction.linkedTransactionId !== null;
+  const isReversal = transaction.reversalOfId !== null;
+
+  const form = useForm<z.infer<typeof editTransactionSchema>>({
+    resolver: zodResolver(editTransactionSchema),
+    defaultValues: {
+      amount: transaction.amount.toString(),
+      description: transaction.description,
+      merchant: transaction.merchant ?? "",
+      category: transaction.category ?? "",
+    },
+  });
+
+  // Balances change with every action, so refresh both lists
+  const onMutationSuccess = (title: string, description: string) => {
+    toast({ title, description });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+  };
+
+  const onMutationError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const editMutation = useMutation({
+    mutationFn: async (data: z.infer<typeof editTransactionSchema>) => {
+      return await apiRequest("PATCH", `/api/transactions/${transaction.id}`, {
+        ...(isTransfer || isReversal ? {} : { amount: data.amount }),
+        description: data.description,
+        merchant: data.merchant || null,
+        category: data.category || null,
+      });
+    },
+    onSuccess: () => {
+      onMutationSuccess("Transaction updated", "Your account balance has been adjusted.");
+      setIsEditOpen(false);
+    },
+    onError: onMutationError("Failed to update transaction"),
+  });
+
+  const reverseMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/transactions/${transaction.id}/reverse`);
+    },
+    onSuccess: () => {
+      onMutationSuccess(
+        "Transaction reversed",
+        isTransfer ? "Both sides of the transfer have been reversed." : "An offsetting entry has been posted."
+      );
+    },
+    onError: onMutationError("Failed to reverse transaction"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/transactions/${transaction.id}`);
+    },
+    onSuccess: () => {
+      onMutationSuccess("Transaction deleted", "Your account balance has been adjusted.");
+      setIsDeleteOpen(false);
+    },
+    onError: onMutationError("Failed to delete transaction"),
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8 ml-2">
+            <MoreHorizontalIcon className="h-4 w-4" />
+            <span className="sr-only">Transaction actions</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => setIsEditOpen(true)}>
+            <PencilIcon className="h-4 w-4 mr-2" />
+            Edit
+          </DropdownMenuItem>
+          {!isReversal && (
+            <DropdownMenuItem
+              onSelect={() => reverseMutation.mutate()}
+              disabled={reverseMutation.isPending}
+            >
+              <Undo2Icon className="h-4 w-4 mr-2" />
+              Reverse
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-destructive"
+            onSelect={() => setIsDeleteOpen(true)}
+          >
+            <Trash2Icon className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Edit Dialog */}
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit transaction</DialogTitle>
+            <DialogDescription>
+              {isTransfer || isReversal
+                ? "The amount of a transfer or reversal can't be changed. Reverse it instead."
+                : "Changing the amount will adjust your account balance."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(data => editMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0.00" {...field} disabled={isTransfer || isReversal} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="merchant"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Merchant</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Recipient name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Uncategorized" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Payment details" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsEditOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={editMutation.isPending}
+                >
+                  {editMutation.isPending ? "Saving..." : "Save Changes"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this transaction?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {isTransfer
+                ? "Both sides of the transfer will be removed and both account balances restored."
+                : "The transaction will be removed and your account balance restored. To keep a record, reverse it instead."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                deleteMutation.mutate();
+              }}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,14 +1,41 @@
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { CreditCardIcon, ArrowDownIcon, ShoppingCartIcon, CoffeeIcon, BriefcaseIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatDistanceToNow } from "date-fns";
-import type { Transaction } from "@shared/schema";
+import { apiRequest, buildQueryUrl } from "@/lib/queryClient";
+import { useCurrencyConverter } from "@/hooks/use-currency";
+import { formatCurrency } from "@shared/money";
+import { TransactionActions } from "./transaction-actions";
+import type { Transaction, TransactionPage } from "@shared/schema";
 
-export function TransactionList() {
-  const { data: transactions, isLoading, error } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
+interface TransactionListProps {
+  accountId?: number;
+  pageSize?: number;
+  editable?: boolean;
+}
+
+export function TransactionList({ accountId, pageSize = 10, editable = false }: TransactionListProps) {
+  const params = { accountId, limit: pageSize };
+  const {
+    data,
+    isLoading,
+    error,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/transactions", params],
+    queryFn: async ({ pageParam }): Promise<TransactionPage> => {
+      const res = await apiRequest("GET", buildQueryUrl("/api/transactions", { ...params, cursor: pageParam }));
+      return await res.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 
+  const transactions = data?.pages.flatMap(page => page.items);
+
   if (isLoading) {
     return <TransactionListSkeleton />;
   }
@@ -32,23 +59,34 @@ export function TransactionList() {
   return (
     <div className="space-y-4">
       {transactions.map((transaction) => (
-        <TransactionItem key={transaction.id} transaction={transaction} />
+        <TransactionItem key={transaction.id} transaction={transaction} editable={editable} />
       ))}
+      {hasNextPage && (
+        <Button
+          variant="ghost"
+          className="w-full text-sm text-muted-foreground"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          {isFetchingNextPage
+            ? "Loading..."
+            : `Load more (${transactions.length} of ${data?.pages[0].total})`}
+        </Button>
+      )}
     </div>
   );
 }
 
 interface TransactionItemProps {
   transaction: Transaction;
+  editable: boolean;
 }
 
-function TransactionItem({ transaction }: TransactionItemProps) {
-  // Format the amount with currency sign
-  const amount = parseFloat(transaction.amount.toString());
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(amount);
+function TransactionItem({ transaction, editable }: TransactionItemProps) {
+  const { currencyOf } = useCurrencyConverter();
+
+  // Format the amount in the account's currency
+  const formattedAmount = formatCurrency(transaction.amount, currencyOf(transaction.accountId));
 
   // Determine the transaction icon based on category
   const getTransactionIcon = () => {
@@ -120,6 +158,7 @@ function TransactionItem({ transaction }: TransactionItemProps) {
             <p className="text-muted-foreground">{formatDate(transaction.date)}</p>
           </div>
         </div>
+        {editable && <TransactionActions transaction={transaction} />}
       </div>
     </div>
   );
@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { TwoFactorRecoveryCodes, TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// The Security tab's two-factor switch: turning it on walks through setup,
+// turning it off asks for the password and a code again
+export function TwoFactorSwitch() {
+  const [setupOpen, setSetupOpen] = useState(false);
+  const [disableOpen, setDisableOpen] = useState(false);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+  });
+
+  const onCheckedChange = (checked: boolean) => {
+    if (checked) setSetupOpen(true);
+    else setDisableOpen(true);
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-3">
+        {status?.enabled && (
+          <span className="text-xs text-muted-foreground">
+            {status.recoveryCodesLeft} recovery codes left
+          </span>
+        )}
+        <Switch
+          checked={status?.enabled ?? false}
+          disabled={isLoading}
+          onCheckedChange={onCheckedChange}
+        />
+      </div>
+      <TwoFactorSetupDialog open={setupOpen} onOpenChange={setSetupOpen} />
+      <TwoFactorDisableDialog open={disableOpen} onOpenChange={setDisableOpen} />
+    </>
+  );
+}
+
+interface TwoFactorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function TwoFactorSetupDialog({ open, onOpenChange }: TwoFactorDialogProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  // A fresh key each time the dialog opens; one that was never confirmed is simply replaced
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/setup");
+      return await res.json() as TwoFactorSetup;
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to start setup",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+      onOpenChange(false);
+    }
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/user/two-factor/enable", { code });
+      return await res.json() as TwoFactorRecoveryCodes;
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to turn on two-factor authentication",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+      setCode("");
+    }
+  });
+
+  useEffect(() => {
+    if (open) {
+      setupMutation.mutate();
+    } else {
+      setCode("");
+      setRecoveryCodes(null);
+      setupMutation.reset();
+      enableMutation.reset();
+    }
+  }, [open]);
+
+  const setup = setupMutation.data;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        {recoveryCodes ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Save your recovery codes</DialogTitle>
+              <DialogDescription>
+                Each code signs you in once if you lose your authenticator. They won't be shown again.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+              {recoveryCodes.map(recoveryCode => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => navigator.clipboard.writeText(recoveryCodes.join("\n"))}
+              >
+                Copy
+              </Button>
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Turn on two-factor authentication</DialogTitle>
+              <DialogDescription>
+                Add NeuroBank to your authenticator app, then enter the code it shows.
+              </DialogDescription>
+            </DialogHeader>
+            {setup ? (
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <Label>Setup key</Label>
+                  <p className="rounded-md bg-muted p-2 font-mono text-sm break-all select-all">{setup.secret}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Type this into your app, or{" "}
+                    <a href={setup.otpauthUri} className="text-primary underline">open it in your authenticator</a>{" "}
+                    on this device.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Authentication code</Label>
+                  <CodeInput value={code} onChange={setCode} />
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground py-4">Generating a key...</p>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button
+                disabled={!setup || code.length < 6 || enableMutation.isPending}
+                onClick={() => enableMutation.mutate(code)}
+              >
+                {enableMutation.isPending ? "Verifying..." : "Turn on"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TwoFactorDisableDialog({ open, onOpenChange }: TwoFactorDialogProps) {
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setPassword("");
+      setCode("");
+    }
+    onOpenChange(next);
+  };
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/disable", { password, code });
+      return await res.json() as TwoFactorStatus;
+    },
+    onSuccess: (status) => {
+      queryClient.setQueryData(["/api/user/two-factor"], status);
+      toast({
+        title: "Two-factor authentication turned off",
+        description: "Your password alone now signs you in."
+      });
+      handleOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to turn off two-factor authentication",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Turn off two-factor authentication</DialogTitle>
+          <DialogDescription>
+            Confirm it's you with your password and a code from your authenticator app or a recovery code.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-password">Password</Label>
+            <Input
+              id="two-factor-password"
+              type="password"
+              value={password}
+              onChange={event => setPassword(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-code">Authentication or recovery code</Label>
+            <Input
+              id="two-factor-code"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={event => setCode(event.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button
+            variant="destructive"
+            disabled={!password || code.trim().length < 6 || disableMutation.isPending}
+            onClick={() => disableMutation.mutate()}
+          >
+            {disableMutation.isPending ? "Turning off..." : "Turn off"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,7 +14,9 @@ import {
   LeafIcon,
   BriefcaseIcon,
   BarChartIcon,
-  CalendarIcon
+  CalendarIcon,
+  PiggyBankIcon,
+  HistoryIcon
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { MobileMenu } from "./mobile-menu";
@@ -46,6 +48,16 @@ export function Sidebar() {
       path: "/goals",
       icon: <TargetIcon className="h-5 w-5" />
     },
+    {
+      name: "Budgets",
+      path: "/budgets",
+      icon: <PiggyBankIcon className="h-5 w-5" />
+    },
+    {
+      name: "Scheduled",
+      path: "/recurring",
+      icon: <CalendarIcon className="h-5 w-5" />
+    },
     {
       name: "Mood Budgeting",
       path: "/mood",
@@ -81,6 +93,11 @@ export function Sidebar() {
       path: "/accounts",
       icon: <CreditCardIcon className="h-5 w-5" />
     },
+    {
+      name: "Activity",
+      path: "/activity",
+      icon: <HistoryIcon className="h-5 w-5" />
+    },
     {
       name: "Settings",
       path: "/settings",
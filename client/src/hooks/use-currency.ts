@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { convertMoney, formatCurrency, MoneyValue } from "@shared/money";
+import { DEFAULT_CURRENCY, dateKey, findExchangeRate } from "@shared/currency";
+import type { BankAccount, ExchangeRate } from "@shared/schema";
+
+// The currency totals, budgets and goals are shown in
+export function useHomeCurrency(): string {
+  const { user } = useAuth();
+  return user?.homeCurrency ?? DEFAULT_CURRENCY;
+}
+
+// Converts amounts from the user's accounts into their home currency with the
+// same rate table the server uses. Amounts with no rate come back undefined.
+export function useCurrencyConverter() {
+  const homeCurrency = useHomeCurrency();
+
+  const { data: rates } = useQuery<ExchangeRate[]>({
+    queryKey: ["/api/exchange-rates"],
+  });
+  const { data: accounts } = useQuery<BankAccount[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const currencyOf = (accountId: number) =>
+    accounts?.find(account => account.id === accountId)?.currency ?? homeCurrency;
+
+  const convert = (amount: MoneyValue, from: string, on?: Date | string | null): string | undefined => {
+    const rate = findExchangeRate(rates ?? [], from, homeCurrency, dateKey(on ? new Date(on) : undefined));
+    return rate === undefined ? undefined : convertMoney(amount, rate);
+  };
+
+  return {
+    homeCurrency,
+    currencyOf,
+    convert,
+    format: (amount: MoneyValue) => formatCurrency(amount, homeCurrency),
+  };
+}
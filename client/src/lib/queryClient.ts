@@ -23,13 +23,28 @@ export async function apiRequest(
   return res;
 }
 
+export type QueryParams = Record<string, string | number | Date | null | undefined>;
+
+// Appends the defined params as a query string; dates are sent as ISO strings
+export function buildQueryUrl(url: string, params?: QueryParams): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params ?? {})) {
+    if (value === undefined || value === null || value === "") continue;
+    search.set(key, value instanceof Date ? value.toISOString() : String(value));
+  }
+  const query = search.toString();
+  return query ? `${url}?${query}` : url;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    // A second key segment, if present, holds the query params: ["/api/x", { ... }]
+    const [url, params] = queryKey as [string, QueryParams?];
+    const res = await fetch(buildQueryUrl(url, params), {
       credentials: "include",
     });
 
@@ -45,13 +45,19 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { TransactionList } from "@/components/dashboard/transaction-list";
+import { StatementImportDialog } from "@/components/dashboard/statement-import";
+import { AccountActions, AddAccountDialog } from "@/components/dashboard/account-actions";
+import { accountTypeLabels } from "@/components/dashboard/account-card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { ArrowUpIcon, BanknoteIcon, CreditCardIcon, PlusIcon, RefreshCwIcon } from "lucide-react";
-import type { BankAccount } from "@shared/schema";
+import { ArrowUpIcon, BanknoteIcon, CreditCardIcon, FileUpIcon, PlusIcon, RefreshCwIcon } from "lucide-react";
+import { addMoney, formatCurrency } from "@shared/money";
+import { transactionCategories, type BankAccount, type BankAccountType } from "@shared/schema";
 
 // Form schemas
 const transferSchema = z.object({
@@ -87,6 +93,9 @@ export default function AccountsPage() {
   const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [isDepositModalOpen, setIsDepositModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isAddAccountOpen, setIsAddAccountOpen] = useState(false);
+  const [showClosed, setShowClosed] = useState(false);
 
   // Fetch accounts data
   const { 
@@ -94,13 +103,20 @@ export default function AccountsPage() {
     isLoading: isLoadingAccounts 
   } = useQuery<BankAccount[]>({
     queryKey: ["/api/accounts"],
-    onSuccess: (data) => {
-      if (data.length > 0 && !selectedAccountId) {
-        setSelectedAccountId(data[0].id.toString());
-      }
-    }
   });
 
+  // Closed accounts can't move money, so only open ones are offered for it
+  const openAccounts = accounts?.filter(account => !account.closed);
+  const hasClosedAccounts = !!accounts?.some(account => account.closed);
+  const selectableAccounts = showClosed ? accounts : openAccounts;
+
+  // Start on the first open account
+  useEffect(() => {
+    if (!selectedAccountId && openAccounts && openAccounts.length > 0) {
+      setSelectedAccountId(openAccounts[0].id.toString());
+    }
+  }, [accounts, selectedAccountId]);
+
   // Form setup
   const transferForm = useForm<z.infer<typeof transferSchema>>({
     resolver: zodResolver(transferSchema),
@@ -134,12 +150,12 @@ export default function AccountsPage() {
 
   // Reset forms when accounts data is loaded
   useEffect(() => {
-    if (accounts && accounts.length > 0) {
-      const firstAccountId = accounts[0].id.toString();
+    if (openAccounts && openAccounts.length > 0) {
+      const firstAccountId = openAccounts[0].id.toString();
       
       transferForm.setValue("fromAccountId", firstAccountId);
-      if (accounts.length > 1) {
-        transferForm.setValue("toAccountId", accounts[1].id.toString());
+      if (openAccounts.length > 1) {
+        transferForm.setValue("toAccountId", openAccounts[1].id.toString());
       }
       
       paymentForm.setValue("accountId", firstAccountId);
@@ -148,11 +164,8 @@ export default function AccountsPage() {
   }, [accounts]);
 
   // Format account balance
-  const formatBalance = (balance: string | number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(Number(balance));
+  const formatBalance = (balance: string | number, currency: string) => {
+    return formatCurrency(balance, currency);
   };
 
   // Transfer mutation
@@ -247,6 +260,12 @@ export default function AccountsPage() {
   });
 
   // Handle form submissions
+  const transferFrom = accounts?.find(account => account.id.toString() === transferForm.watch("fromAccountId"));
+  const transferTo = accounts?.find(account => account.id.toString() === transferForm.watch("toAccountId"));
+  const transferCurrencies = transferFrom && transferTo
+    ? { from: transferFrom.currency, to: transferTo.currency }
+    : undefined;
+
   const onTransferSubmit = (data: z.infer<typeof transferSchema>) => {
     if (data.fromAccountId === data.toAccountId) {
       toast({
@@ -300,6 +319,14 @@ export default function AccountsPage() {
                   <CreditCardIcon className="h-4 w-4" />
                   <span>New Payment</span>
                 </Button>
+                <Button 
+                  variant="outline"
+                  className="flex items-center space-x-2"
+                  onClick={() => setIsAddAccountOpen(true)}
+                >
+                  <PlusIcon className="h-4 w-4" />
+                  <span>Add Account</span>
+                </Button>
                 <Button 
                   className="flex items-center space-x-2 bg-gradient-to-r from-primary to-secondary hover:opacity-90 transition-opacity"
                   onClick={() => setIsDepositModalOpen(true)}
@@ -317,25 +344,33 @@ export default function AccountsPage() {
           ) : accounts && accounts.length > 0 ? (
             <div className="mb-8">
               <Label htmlFor="account-select">Select Account</Label>
-              <Select
-                value={selectedAccountId || undefined}
-                onValueChange={setSelectedAccountId}
-              >
-                <SelectTrigger id="account-select" className="w-full md:w-80">
-                  <SelectValue placeholder="Select an account" />
-                </SelectTrigger>
-                <SelectContent>
-                  {accounts.map((account) => (
-                    <SelectItem key={account.id} value={account.id.toString()}>
-                      {account.name} ({formatBalance(account.balance)})
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                <Select
+                  value={selectedAccountId || undefined}
+                  onValueChange={setSelectedAccountId}
+                >
+                  <SelectTrigger id="account-select" className="w-full md:w-80">
+                    <SelectValue placeholder="Select an account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {selectableAccounts?.map((account) => (
+                      <SelectItem key={account.id} value={account.id.toString()}>
+                        {account.name} ({account.closed ? "closed" : formatBalance(account.balance, account.currency)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {hasClosedAccounts && (
+                  <div className="flex items-center space-x-2">
+                    <Switch id="show-closed" checked={showClosed} onCheckedChange={setShowClosed} />
+                    <Label htmlFor="show-closed">Show closed accounts</Label>
+                  </div>
+                )}
+              </div>
             </div>
           ) : (
             <div className="mb-8 p-6 bg-white rounded-lg shadow-sm border border-border">
-              <p className="text-muted-foreground">No accounts found. Please contact support to add an account.</p>
+              <p className="text-muted-foreground">No accounts found. Add an account to get started.</p>
             </div>
           )}
           
@@ -344,15 +379,21 @@ export default function AccountsPage() {
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               {/* Account Details */}
               <Card className="lg:col-span-1">
-                <CardHeader>
-                  <CardTitle>{selectedAccount.name}</CardTitle>
-                  <CardDescription>Account Details</CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      {selectedAccount.name}
+                      {selectedAccount.closed && <Badge variant="secondary">Closed</Badge>}
+                    </CardTitle>
+                    <CardDescription>Account Details</CardDescription>
+                  </div>
+                  <AccountActions account={selectedAccount} onDeleted={() => setSelectedAccountId(null)} />
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
                     <div>
                       <p className="text-sm text-muted-foreground">Balance</p>
-                      <p className="text-2xl font-bold">{formatBalance(selectedAccount.balance)}</p>
+                      <p className="text-2xl font-bold">{formatBalance(selectedAccount.balance, selectedAccount.currency)}</p>
                     </div>
                     <div>
                       <p className="text-sm text-muted-foreground">Account Number</p>
@@ -360,11 +401,46 @@ export default function AccountsPage() {
                     </div>
                     <div>
                       <p className="text-sm text-muted-foreground">Type</p>
-                      <p className="font-medium capitalize">{selectedAccount.type}</p>
+                      <p className="font-medium">
+                        {accountTypeLabels[selectedAccount.type as BankAccountType] ?? selectedAccount.type}
+                      </p>
                     </div>
+                    {selectedAccount.creditLimit && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Credit Limit</p>
+                        <p className="font-medium">
+                          {formatBalance(selectedAccount.creditLimit, selectedAccount.currency)}
+                          <span className="text-muted-foreground font-normal">
+                            {" "}({formatBalance(addMoney(selectedAccount.balance, selectedAccount.creditLimit), selectedAccount.currency)} available)
+                          </span>
+                        </p>
+                      </div>
+                    )}
+                    {selectedAccount.apr && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">APR</p>
+                        <p className="font-medium">{Number(selectedAccount.apr)}%</p>
+                      </div>
+                    )}
+                    {selectedAccount.paymentDueDay && (
+                      <div>
+                        <p className="text-sm text-muted-foreground">Payment Due</p>
+                        <p className="font-medium">Day {selectedAccount.paymentDueDay} of each month</p>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
-                <CardFooter>
+                <CardFooter className="flex flex-col gap-2">
+                  {!selectedAccount.closed && (
+                    <Button 
+                      variant="outline" 
+                      className="w-full flex items-center justify-center space-x-2"
+                      onClick={() => setIsImportModalOpen(true)}
+                    >
+                      <FileUpIcon className="h-4 w-4" />
+                      <span>Import Statement</span>
+                    </Button>
+                  )}
                   <Button 
                     variant="outline" 
                     className="w-full flex items-center justify-center space-x-2"
@@ -391,7 +467,7 @@ export default function AccountsPage() {
                     <CardDescription>Activity for this account</CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <TransactionList />
+                    <TransactionList accountId={selectedAccount.id} editable={!selectedAccount.closed} />
                   </CardContent>
                 </Card>
               </div>
@@ -404,6 +480,22 @@ export default function AccountsPage() {
         </div>
       </main>
 
+      {/* Add Account Modal */}
+      <AddAccountDialog
+        open={isAddAccountOpen}
+        onOpenChange={setIsAddAccountOpen}
+        onCreated={(account) => setSelectedAccountId(account.id.toString())}
+      />
+
+      {/* Statement Import Modal */}
+      {selectedAccount && (
+        <StatementImportDialog
+          account={selectedAccount}
+          open={isImportModalOpen}
+          onOpenChange={setIsImportModalOpen}
+        />
+      )}
+
       {/* Transfer Modal */}
       <Dialog open={isTransferModalOpen} onOpenChange={setIsTransferModalOpen}>
         <DialogContent>
@@ -432,9 +524,9 @@ export default function AccountsPage() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {accounts?.map((account) => (
+                        {openAccounts?.map((account) => (
                           <SelectItem key={account.id} value={account.id.toString()}>
-                            {account.name} ({formatBalance(account.balance)})
+                            {account.name} ({formatBalance(account.balance, account.currency)})
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -460,9 +552,9 @@ export default function AccountsPage() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {accounts?.map((account) => (
+                        {openAccounts?.map((account) => (
                           <SelectItem key={account.id} value={account.id.toString()}>
-                            {account.name} ({formatBalance(account.balance)})
+                            {account.name} ({formatBalance(account.balance, account.currency)})
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -481,6 +573,11 @@ export default function AccountsPage() {
                     <FormControl>
                       <Input placeholder="0.00" {...field} />
                     </FormControl>
+                    {transferCurrencies && transferCurrencies.from !== transferCurrencies.to && (
+                      <FormDescription>
+                        Sent in {transferCurrencies.from} and converted to {transferCurrencies.to} at the latest exchange rate.
+                      </FormDescription>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -548,9 +645,9 @@ export default function AccountsPage() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {accounts?.map((account) => (
+                        {openAccounts?.map((account) => (
                           <SelectItem key={account.id} value={account.id.toString()}>
-                            {account.name} ({formatBalance(account.balance)})
+                            {account.name} ({formatBalance(account.balance, account.currency)})
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -604,16 +701,9 @@ export default function AccountsPage() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="Shopping">Shopping</SelectItem>
-                        <SelectItem value="Food & Drink">Food & Drink</SelectItem>
-                        <SelectItem value="Transportation">Transportation</SelectItem>
-                        <SelectItem value="Entertainment">Entertainment</SelectItem>
-                        <SelectItem value="Utilities">Utilities</SelectItem>
-                        <SelectItem value="Housing">Housing</SelectItem>
-                        <SelectItem value="Healthcare">Healthcare</SelectItem>
-                        <SelectItem value="Travel">Travel</SelectItem>
-                        <SelectItem value="Education">Education</SelectItem>
-                        <SelectItem value="Other">Other</SelectItem>
+                        {transactionCategories.map((category) => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -683,9 +773,9 @@ export default function AccountsPage() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {accounts?.map((account) => (
+                        {openAccounts?.map((account) => (
                           <SelectItem key={account.id} value={account.id.toString()}>
-                            {account.name} ({formatBalance(account.balance)})
+                            {account.name} ({formatBalance(account.balance, account.currency)})
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, buildQueryUrl } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { AuditAction, AuditEntityType, AuditEvent, AuditEventPage } from "@shared/schema";
+
+const actionLabels: Record<AuditAction, string> = {
+  "auth.login": "Signed in",
+  "auth.login_failed": "Failed sign-in attempt",
+  "auth.logout": "Signed out",
+  "user.create": "Profile created",
+  "user.update": "Profile updated",
+  "user.password": "Password changed",
+  "user.password_reset": "Password reset by email",
+  "user.email_verify": "Email address verified",
+  "user.email_change": "Email address changed",
+  "user.two_factor_enable": "Two-factor authentication turned on",
+  "user.two_factor_disable": "Two-factor authentication turned off",
+  "user.privacy_update": "Privacy settings changed",
+  "user.deletion_request": "Account deletion requested",
+  "user.deletion_cancel": "Account deletion cancelled",
+  "user.erase": "Account erased",
+  "api_token.create": "API token created",
+  "api_token.revoke": "API token revoked",
+  "account.create": "Account opened",
+  "account.update": "Account updated",
+  "account.close": "Account closed",
+  "account.delete": "Account deleted",
+  "account.balance": "Balance set",
+  "transaction.create": "Transaction added",
+  "transaction.update": "Transaction edited",
+  "transaction.delete": "Transaction deleted",
+  "transaction.reverse": "Transaction reversed",
+  "transaction.recategorize": "Transaction recategorized",
+  "transfer.create": "Transfer made",
+  "goal.create": "Goal created",
+  "goal.update": "Goal updated",
+  "goal.delete": "Goal deleted",
+  "goal.contribution": "Goal contribution",
+  "budget.create": "Budget created",
+  "budget.update": "Budget updated",
+  "budget.delete": "Budget deleted",
+  "recurring.create": "Schedule created",
+  "recurring.update": "Schedule updated",
+  "recurring.delete": "Schedule deleted",
+  "category_rule.create": "Category rule created",
+  "category_rule.update": "Category rule updated",
+  "category_rule.delete": "Category rule deleted",
+  "exchange_rate.save": "Exchange rate saved",
+  "exchange_rate.delete": "Exchange rate deleted",
+};
+
+// The user-facing filter; exchange rates are shared data, so never in a user's activity
+const entityFilters: { value: AuditEntityType | "all"; label: string }[] = [
+  { value: "all", label: "All activity" },
+  { value: "user", label: "Sign-ins and profile" },
+  { value: "api_token", label: "API tokens" },
+  { value: "bank_account", label: "Accounts" },
+  { value: "transaction", label: "Transactions" },
+  { value: "saving_goal", label: "Goals" },
+  { value: "budget", label: "Budgets" },
+  { value: "recurring_transaction", label: "Scheduled" },
+  { value: "category_rule", label: "Category rules" },
+];
+
+// Bookkeeping fields that change with everything and say nothing
+const ignoredFields = ["id", "createdAt"];
+
+type FieldChange = { field: string; before: unknown; after: unknown };
+
+// Fields that differ between the before and after rows, or every field a
+// creation set or a deletion removed
+function changesOf(event: AuditEvent): FieldChange[] {
+  const before = (event.before ?? {}) as Record<string, unknown>;
+  const after = (event.after ?? {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter(field => !ignoredFields.includes(field))
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export default function ActivityPage() {
+  const [entityType, setEntityType] = useState<AuditEntityType | "all">("all");
+  const params = { entityType: entityType === "all" ? undefined : entityType, limit: 25 };
+
+  const {
+    data,
+    isLoading,
+    error,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/activity", params],
+    queryFn: async ({ pageParam }): Promise<AuditEventPage> => {
+      const res = await apiRequest("GET", buildQueryUrl("/api/activity", { ...params, cursor: pageParam }));
+      return await res.json();
+    },
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    // Everything the user does adds to this, so always start from the latest
+    staleTime: 0,
+  });
+
+  const events = data?.pages.flatMap(page => page.items);
+
+  return (
+    <div className="flex flex-col lg:flex-row h-screen">
+      <Sidebar />
+
+      <main className="flex-1 overflow-y-auto bg-background">
+        <div className="p-4 md:p-6 max-w-4xl mx-auto">
+          {/* Header */}
+          <header className="mb-8">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">Activity</h1>
+                <p className="text-muted-foreground mt-1">Every change to your money and every sign-in, newest first</p>
+              </div>
+              <div className="mt-4 md:mt-0 w-full md:w-56">
+                <Select value={entityType} onValueChange={value => setEntityType(value as AuditEntityType | "all")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {entityFilters.map(filter => (
+                      <SelectItem key={filter.value} value={filter.value}>
+                        {filter.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </header>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>History</CardTitle>
+              <CardDescription>
+                Each entry shows where the change came from. Quote its request id when contacting support about it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {Array(5).fill(0).map((_, i) => (
+                    <Skeleton key={i} className="h-16 w-full" />
+                  ))}
+                </div>
+              ) : error || !events ? (
+                <p className="text-muted-foreground text-center py-8">Failed to load activity</p>
+              ) : events.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">No activity yet</p>
+              ) : (
+                <div className="divide-y divide-border">
+                  {events.map(event => (
+                    <ActivityItem key={event.id} event={event} />
+                  ))}
+                  {hasNextPage && (
+                    <Button
+                      variant="ghost"
+                      className="w-full text-sm text-muted-foreground mt-2"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                    >
+                      {isFetchingNextPage ? "Loading..." : "Load more"}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+function ActivityItem({ event }: { event: AuditEvent }) {
+  const changes = changesOf(event);
+
+  return (
+    <div className="py-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-medium text-foreground">
+            {actionLabels[event.action as AuditAction] ?? event.action}
+            {event.entityId !== null && event.entityType !== "user" && (
+              <span className="text-muted-foreground font-normal"> #{event.entityId}</span>
+            )}
+          </p>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            {format(new Date(event.createdAt), "MMM d, yyyy 'at' h:mm:ss a")}
+            {event.ip && <> · {event.ip}</>}
+            {!event.requestId && <> · automatic</>}
+          </p>
+        </div>
+        {event.requestId && (
+          <Badge variant="outline" className="font-mono text-[10px] shrink-0" title={`Request ${event.requestId}`}>
+            {event.requestId.slice(0, 8)}
+          </Badge>
+        )}
+      </div>
+      {changes.length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-xs">
+          {changes.map(change => (
+            <li key={change.field} className="text-muted-foreground break-all">
+              <span className="font-medium text-foreground">{change.field}</span>:{" "}
+              {event.before !== null && <><span className="line-through">{formatValue(change.before)}</span> → </>}
+              {formatValue(change.after)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,11 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Redirect } from "wouter";
+import { useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { forgotPasswordSchema } from "@shared/schema";
 import { 
   Tabs, 
   TabsContent, 
@@ -27,6 +31,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
 
@@ -48,7 +53,9 @@ const registerSchema = z.object({
 
 export default function AuthPage() {
   const { user, loginMutation, registerMutation } = useAuth();
+  const twoFactorRequired = !!loginMutation.data && "twoFactorRequired" in loginMutation.data;
   const [activeTab, setActiveTab] = useState<"login" | "register">("login");
+  const [forgotPassword, setForgotPassword] = useState(false);
 
   // Login form
   const loginForm = useForm<z.infer<typeof loginSchema>>({
@@ -156,72 +163,88 @@ export default function AuthPage() {
             </TabsList>
             
             <TabsContent value="login">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Welcome back</CardTitle>
-                  <CardDescription>
-                    Sign in to your NeuroBank account to access your financial dashboard
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <Form {...loginForm}>
-                    <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                      <FormField
-                        control={loginForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Username</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Enter your username" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+              {twoFactorRequired ? (
+                <TwoFactorStep onCancel={() => loginMutation.reset()} />
+              ) : forgotPassword ? (
+                <ForgotPasswordStep onBack={() => setForgotPassword(false)} />
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Welcome back</CardTitle>
+                    <CardDescription>
+                      Sign in to your NeuroBank account to access your financial dashboard
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Form {...loginForm}>
+                      <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+                        <FormField
+                          control={loginForm.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Username</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Enter your username" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                       
-                      <FormField
-                        control={loginForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Password</FormLabel>
-                            <FormControl>
-                              <Input type="password" placeholder="Enter your password" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                        <FormField
+                          control={loginForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <div className="flex items-center justify-between">
+                                <FormLabel>Password</FormLabel>
+                                <Button
+                                  type="button"
+                                  variant="link"
+                                  className="h-auto p-0 text-xs"
+                                  onClick={() => setForgotPassword(true)}
+                                >
+                                  Forgot password?
+                                </Button>
+                              </div>
+                              <FormControl>
+                                <Input type="password" placeholder="Enter your password" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                       
-                      <Button 
-                        type="submit" 
-                        className="w-full" 
-                        disabled={loginMutation.isPending}
-                      >
-                        {loginMutation.isPending ? (
-                          <>
-                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                            Signing in...
-                          </>
-                        ) : "Sign In"}
-                      </Button>
-                    </form>
-                  </Form>
-                </CardContent>
-                <CardFooter className="flex flex-col items-center space-y-2">
-                  <div className="text-sm text-muted-foreground">
-                    Don't have an account?
-                  </div>
-                  <Button 
-                    variant="link" 
-                    onClick={() => setActiveTab("register")}
-                    className="text-primary"
-                  >
-                    Create an account
-                  </Button>
-                </CardFooter>
-              </Card>
+                        <Button 
+                          type="submit" 
+                          className="w-full" 
+                          disabled={loginMutation.isPending}
+                        >
+                          {loginMutation.isPending ? (
+                            <>
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              Signing in...
+                            </>
+                          ) : "Sign In"}
+                        </Button>
+                      </form>
+                    </Form>
+                  </CardContent>
+                  <CardFooter className="flex flex-col items-center space-y-2">
+                    <div className="text-sm text-muted-foreground">
+                      Don't have an account?
+                    </div>
+                    <Button 
+                      variant="link" 
+                      onClick={() => setActiveTab("register")}
+                      className="text-primary"
+                    >
+                      Create an account
+                    </Button>
+                  </CardFooter>
+                </Card>
+              )}
             </TabsContent>
             
             <TabsContent value="register">
@@ -340,3 +363,153 @@ export default function AuthPage() {
     </div>
   );
 }
+
+// The second sign-in step, once the password checked out for an account with two-factor on
+function TwoFactorStep({ onCancel }: { onCancel: () => void }) {
+  const { twoFactorMutation } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const onSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    twoFactorMutation.mutate(code);
+  };
+
+  const switchMethod = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode("");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+        <CardDescription>
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you turned on two-factor authentication"
+            : "Enter the 6-digit code from your authenticator app"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={onSubmit} className="space-y-4">
+          {useRecoveryCode ? (
+            <Input
+              placeholder="xxxx-xxxx"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={event => setCode(event.target.value)}
+            />
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={twoFactorMutation.isPending || (!useRecoveryCode && code.length < 6)}
+          >
+            {twoFactorMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Verifying...
+              </>
+            ) : "Verify"}
+          </Button>
+        </form>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        <Button variant="link" className="px-0" onClick={onCancel}>
+          Back to sign in
+        </Button>
+        <Button variant="link" className="px-0" onClick={switchMethod}>
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+// Asks for a reset link by email; the answer is the same whether or not the address has an account
+function ForgotPasswordStep({ onBack }: { onBack: () => void }) {
+  const { toast } = useToast();
+  const form = useForm<z.infer<typeof forgotPasswordSchema>>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (data: z.infer<typeof forgotPasswordSchema>) => {
+      const res = await apiRequest("POST", "/api/forgot-password", data);
+      return await res.json() as { message: string };
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Request failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reset your password</CardTitle>
+        <CardDescription>
+          Enter the email address on your account and we'll send you a link to choose a new password
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {forgotPasswordMutation.isSuccess ? (
+          <p className="text-sm text-muted-foreground">{forgotPasswordMutation.data.message}</p>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(data => forgotPasswordMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="Enter your email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={forgotPasswordMutation.isPending}
+              >
+                {forgotPasswordMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending...
+                  </>
+                ) : "Send reset link"}
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button variant="link" className="px-0" onClick={onBack}>
+          Back to sign in
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,406 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { SpendingChart } from "@/components/dashboard/spending-chart";
+import { CategoryRulesCard } from "@/components/dashboard/category-rules";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { ChevronLeftIcon, ChevronRightIcon, PencilIcon, PiggyBankIcon, Trash2Icon } from "lucide-react";
+import { compareMoney, formatCurrency, subtractMoney, sumMoney } from "@shared/money";
+import { transactionCategories, type Budget, type BudgetProgress } from "@shared/schema";
+
+// Budget form schema
+const budgetFormSchema = z.object({
+  category: z.string().min(1, "Choose a category"),
+  monthlyLimit: z.string()
+    .refine(val => !isNaN(Number(val)), { message: "Limit must be a number" })
+    .refine(val => Number(val) > 0, { message: "Limit must be greater than 0" }),
+  rollover: z.boolean(),
+});
+
+// Months are "YYYY-MM" in UTC, matching the server's buckets
+const toMonth = (date: Date) => date.toISOString().slice(0, 7);
+
+const shiftMonth = (month: string, count: number) => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return toMonth(new Date(Date.UTC(year, monthIndex - 1 + count, 1)));
+};
+
+export default function BudgetsPage() {
+  const { toast } = useToast();
+  const currency = useHomeCurrency();
+  const [month, setMonth] = useState(() => toMonth(new Date()));
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+
+  // Fetch progress for the selected month
+  const {
+    data: progress,
+    isLoading: isLoadingProgress
+  } = useQuery<BudgetProgress[]>({
+    queryKey: ["/api/budgets/progress", { month }],
+  });
+
+  // Form setup
+  const budgetForm = useForm<z.infer<typeof budgetFormSchema>>({
+    resolver: zodResolver(budgetFormSchema),
+    defaultValues: {
+      category: "",
+      monthlyLimit: "",
+      rollover: false,
+    }
+  });
+
+  const openCreateForm = () => {
+    setEditingBudget(null);
+    budgetForm.reset({ category: "", monthlyLimit: "", rollover: false });
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (budget: Budget) => {
+    setEditingBudget(budget);
+    budgetForm.reset({
+      category: budget.category,
+      monthlyLimit: budget.monthlyLimit,
+      rollover: budget.rollover,
+    });
+    setIsFormOpen(true);
+  };
+
+  const invalidateBudgets = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/budgets/progress"] });
+  };
+
+  // Create or update mutation
+  const saveBudgetMutation = useMutation({
+    mutationFn: async (data: z.infer<typeof budgetFormSchema>) => {
+      if (editingBudget) {
+        return await apiRequest("PATCH", `/api/budgets/${editingBudget.id}`, data);
+      }
+      return await apiRequest("POST", "/api/budgets", data);
+    },
+    onSuccess: () => {
+      toast({
+        title: editingBudget ? "Budget updated" : "Budget created",
+        description: "Your monthly budget has been saved"
+      });
+      setIsFormOpen(false);
+      invalidateBudgets();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save budget",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Delete mutation
+  const deleteBudgetMutation = useMutation({
+    mutationFn: async (budget: Budget) => {
+      return await apiRequest("DELETE", `/api/budgets/${budget.id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Budget deleted",
+        description: "The budget has been removed"
+      });
+      invalidateBudgets();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete budget",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const onBudgetSubmit = (data: z.infer<typeof budgetFormSchema>) => {
+    saveBudgetMutation.mutate(data);
+  };
+
+  const totalAvailable = sumMoney(progress?.map(entry => entry.available) ?? []);
+  const totalSpent = sumMoney(progress?.map(entry => entry.spent) ?? []);
+  const monthLabel = format(new Date(`${month}-01T12:00:00Z`), "MMMM yyyy");
+
+  return (
+    <div className="flex flex-col lg:flex-row h-screen">
+      <Sidebar />
+
+      <main className="flex-1 overflow-y-auto bg-background">
+        <div className="p-4 md:p-6 max-w-6xl mx-auto">
+          {/* Header */}
+          <header className="mb-8">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">Budgets</h1>
+                <p className="text-muted-foreground mt-1">Set monthly limits and see where your money goes</p>
+              </div>
+              <div className="mt-4 md:mt-0">
+                <Button
+                  className="bg-gradient-to-r from-primary to-secondary hover:opacity-90 transition-opacity"
+                  onClick={openCreateForm}
+                >
+                  Create Budget
+                </Button>
+              </div>
+            </div>
+          </header>
+
+          {/* Month Selector */}
+          <div className="flex items-center justify-between mb-6">
+            <Button variant="outline" size="icon" onClick={() => setMonth(shiftMonth(month, -1))}>
+              <ChevronLeftIcon className="h-4 w-4" />
+            </Button>
+            <div className="text-center">
+              <p className="font-semibold text-foreground">{monthLabel}</p>
+              {progress && progress.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {formatCurrency(totalSpent, currency)} of {formatCurrency(totalAvailable, currency)} spent
+                </p>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setMonth(shiftMonth(month, 1))}
+              disabled={month >= toMonth(new Date())}
+            >
+              <ChevronRightIcon className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Budget Progress */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Spending vs. Limit</CardTitle>
+                <CardDescription>Debits minus refunds in each budgeted category</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isLoadingProgress ? (
+                  <div className="space-y-6">
+                    <Skeleton className="h-12 w-full" />
+                    <Skeleton className="h-12 w-full" />
+                    <Skeleton className="h-12 w-full" />
+                  </div>
+                ) : progress && progress.length > 0 ? (
+                  <div className="space-y-6">
+                    {progress.map((entry) => (
+                      <BudgetProgressRow
+                        key={entry.budget.id}
+                        entry={entry}
+                        onEdit={() => openEditForm(entry.budget)}
+                        onDelete={() => deleteBudgetMutation.mutate(entry.budget)}
+                      />
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-12">
+                    <PiggyBankIcon className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-lg font-medium mb-2">No budgets yet</h3>
+                    <p className="text-muted-foreground mb-6">
+                      Give a spending category a monthly limit to track it here
+                    </p>
+                    <Button
+                      onClick={openCreateForm}
+                      className="bg-gradient-to-r from-primary to-secondary"
+                    >
+                      Create Your First Budget
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <SpendingChart />
+          </div>
+
+          <div className="mt-6">
+            <CategoryRulesCard />
+          </div>
+        </div>
+      </main>
+
+      {/* Create / Edit Budget Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingBudget ? `Edit ${editingBudget.category} budget` : "Create a budget"}</DialogTitle>
+            <DialogDescription>
+              Set how much you want to spend in a category each month.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...budgetForm}>
+            <form onSubmit={budgetForm.handleSubmit(onBudgetSubmit)} className="space-y-4">
+              <FormField
+                control={budgetForm.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {transactionCategories.map((category) => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={budgetForm.control}
+                name="monthlyLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Monthly Limit</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0.00" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={budgetForm.control}
+                name="rollover"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border border-border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Roll over unspent money</FormLabel>
+                      <FormDescription>
+                        Anything left at the end of a month is added to the next month's limit.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsFormOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={saveBudgetMutation.isPending}
+                >
+                  {saveBudgetMutation.isPending ? "Saving..." : "Save Budget"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface BudgetProgressRowProps {
+  entry: BudgetProgress;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+function BudgetProgressRow({ entry, onEdit, onDelete }: BudgetProgressRowProps) {
+  const currency = useHomeCurrency();
+  const isOverBudget = compareMoney(entry.remaining, 0) < 0;
+  const hasCarryOver = compareMoney(entry.carriedOver, 0) > 0;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-1">
+        <div className="flex items-center gap-1">
+          <span className="font-medium text-foreground">{entry.budget.category}</span>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onEdit}>
+            <PencilIcon className="h-3.5 w-3.5" />
+            <span className="sr-only">Edit budget</span>
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onDelete}>
+            <Trash2Icon className="h-3.5 w-3.5" />
+            <span className="sr-only">Delete budget</span>
+          </Button>
+        </div>
+        <span className="text-sm text-foreground">
+          {formatCurrency(entry.spent, currency)} / {formatCurrency(entry.available, currency)}
+        </span>
+      </div>
+      <Progress
+        value={Math.min(entry.percentUsed, 100)}
+        className={cn("h-2", isOverBudget && "[&>div]:bg-destructive")}
+      />
+      <div className="flex justify-between text-xs text-muted-foreground mt-1">
+        <span>
+          {isOverBudget
+            ? `${formatCurrency(subtractMoney(0, entry.remaining), currency)} over budget`
+            : `${formatCurrency(entry.remaining, currency)} left`}
+        </span>
+        {hasCarryOver && <span>Includes {formatCurrency(entry.carriedOver, currency)} rolled over</span>}
+      </div>
+    </div>
+  );
+}
@@ -7,11 +7,13 @@ import { GoalCard, CreateGoalCard } from "@/components/dashboard/goal-card";
 import { TransactionList } from "@/components/dashboard/transaction-list";
 import { AiChat } from "@/components/dashboard/ai-chat";
 import { SpendingChart } from "@/components/dashboard/spending-chart";
+import { NetWorthChart } from "@/components/dashboard/net-worth-chart";
 import { MoodTracker } from "@/components/dashboard/mood-tracker";
 import { ArrowDownIcon, ArrowUpIcon, PlusIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { BankAccount, SavingGoal } from "@shared/schema";
+import { formatCurrency } from "@shared/money";
+import type { AccountTotals, BankAccount, SavingGoal } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 
@@ -27,6 +29,14 @@ export default function DashboardPage() {
   } = useQuery<BankAccount[]>({
     queryKey: ["/api/accounts"],
   });
+  const openAccounts = accounts?.filter(account => !account.closed);
+
+  // Balances across currencies, converted to the home currency on the server.
+  // Refetched on every visit since balances change from several pages.
+  const { data: totals } = useQuery<AccountTotals>({
+    queryKey: ["/api/accounts/totals"],
+    staleTime: 0,
+  });
 
   // Fetch goals data
   const { 
@@ -35,6 +45,7 @@ export default function DashboardPage() {
   } = useQuery<SavingGoal[]>({
     queryKey: ["/api/goals"],
   });
+  const activeGoals = goals?.filter(goal => !goal.archived) ?? [];
 
   const handleNewGoal = () => {
     setLocation("/goals");
@@ -77,15 +88,29 @@ export default function DashboardPage() {
           
           {/* Accounts Summary */}
           <section className="mb-8">
-            <h2 className="text-lg font-semibold text-foreground mb-4">Your Accounts</h2>
+            <div className="flex justify-between items-baseline mb-4">
+              <h2 className="text-lg font-semibold text-foreground">Your Accounts</h2>
+              {totals && (
+                <div className="text-right">
+                  <p className="text-sm text-muted-foreground">
+                    Total <span className="font-semibold text-foreground">{formatCurrency(totals.total, totals.currency)}</span>
+                  </p>
+                  {totals.missingRates.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Leaves out {totals.missingRates.join(", ")} balances with no exchange rate yet
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {isLoadingAccounts ? (
                 <>
                   <Skeleton className="h-36 rounded-2xl" />
                   <Skeleton className="h-36 rounded-2xl" />
                 </>
-              ) : accounts && accounts.length > 0 ? (
-                accounts.map((account) => (
+              ) : openAccounts && openAccounts.length > 0 ? (
+                openAccounts.map((account) => (
                   <AccountCard key={account.id} account={account} />
                 ))
               ) : (
@@ -102,6 +127,11 @@ export default function DashboardPage() {
             </div>
           </section>
           
+          {/* Net Worth */}
+          <section className="mb-8">
+            <NetWorthChart />
+          </section>
+          
           {/* Saving Goals */}
           <section className="mb-8">
             <div className="flex justify-between items-center mb-4">
@@ -125,9 +155,9 @@ export default function DashboardPage() {
                   <Skeleton className="h-44 rounded-2xl" />
                   <Skeleton className="h-44 rounded-2xl" />
                 </>
-              ) : goals && goals.length > 0 ? (
+              ) : activeGoals.length > 0 ? (
                 <>
-                  {goals.slice(0, 2).map((goal) => (
+                  {activeGoals.slice(0, 2).map((goal) => (
                     <GoalCard key={goal.id} goal={goal} />
                   ))}
                   <CreateGoalCard onClick={handleNewGoal} />
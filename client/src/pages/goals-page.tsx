@@ -33,11 +33,13 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useHomeCurrency } from "@/hooks/use-currency";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { CheckCircleIcon, LineChartIcon, TargetIcon } from "lucide-react";
+import { ArchiveIcon, CheckCircleIcon, LineChartIcon, TargetIcon } from "lucide-react";
+import { compareMoney, divideMoney, formatCurrency, percentOf, subtractMoney, sumMoney } from "@shared/money";
 import type { SavingGoal } from "@shared/schema";
 
 // Create goal form schema
@@ -51,6 +53,7 @@ const createGoalSchema = z.object({
 
 export default function GoalsPage() {
   const { toast } = useToast();
+  const currency = useHomeCurrency();
   const [isCreateGoalOpen, setIsCreateGoalOpen] = useState(false);
   
   // Fetch goals data
@@ -105,37 +108,43 @@ export default function GoalsPage() {
     createGoalMutation.mutate(data);
   };
 
-  // Filter goals by status
+  // Filter goals by status; archived goals are set aside from both of the others
   const filterGoals = (goals: SavingGoal[] | undefined) => {
-    if (!goals) return { active: [], completed: [] };
+    if (!goals) return { active: [], completed: [], archived: [] };
     
     return {
-      active: goals.filter(goal => !goal.completed),
-      completed: goals.filter(goal => goal.completed)
+      active: goals.filter(goal => !goal.archived && !goal.completed),
+      completed: goals.filter(goal => !goal.archived && goal.completed),
+      archived: goals.filter(goal => goal.archived)
     };
   };
 
-  const { active: activeGoals, completed: completedGoals } = filterGoals(goals);
+  const { active: activeGoals, completed: completedGoals, archived: archivedGoals } = filterGoals(goals);
+  const currentGoals = [...activeGoals, ...completedGoals];
 
   // Calculate overall progress
   const calculateOverallProgress = () => {
-    if (!goals || goals.length === 0) return 0;
+    if (currentGoals.length === 0) return 0;
     
-    const totalTargetAmount = goals.reduce((sum, goal) => 
-      sum + parseFloat(goal.targetAmount.toString()), 0);
+    const totalTargetAmount = sumMoney(currentGoals.map(goal => goal.targetAmount));
+    const totalCurrentAmount = sumMoney(currentGoals.map(goal => goal.currentAmount));
     
-    const totalCurrentAmount = goals.reduce((sum, goal) => 
-      sum + parseFloat(goal.currentAmount.toString()), 0);
-    
-    return Math.min(Math.round((totalCurrentAmount / totalTargetAmount) * 100), 100);
+    return Math.min(Math.round(percentOf(totalCurrentAmount, totalTargetAmount)), 100);
   };
 
-  // Format currency
-  const formatCurrency = (amount: string | number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(Number(amount));
+  // Recommended monthly saving to reach a goal by its deadline, or null without one
+  const getMonthlyContribution = (goal: SavingGoal) => {
+    if (!goal.deadline) return null;
+
+    const remaining = subtractMoney(goal.targetAmount, goal.currentAmount);
+    if (compareMoney(remaining, 0) <= 0) return "0.00";
+
+    const today = new Date();
+    const deadline = new Date(goal.deadline);
+    const monthsDiff = (deadline.getFullYear() - today.getFullYear()) * 12 + 
+      (deadline.getMonth() - today.getMonth());
+
+    return monthsDiff > 0 ? divideMoney(remaining, monthsDiff) : remaining;
   };
 
   const overallProgress = calculateOverallProgress();
@@ -177,11 +186,11 @@ export default function GoalsPage() {
                   <div className="flex justify-between items-center mb-2">
                     <span className="text-sm text-muted-foreground">Progress: {overallProgress}%</span>
                     <span className="text-sm font-medium">
-                      {goals && goals.length > 0 ? (
+                      {currentGoals.length > 0 ? (
                         <>
-                          {formatCurrency(goals.reduce((sum, goal) => sum + parseFloat(goal.currentAmount.toString()), 0))}
+                          {formatCurrency(sumMoney(currentGoals.map(goal => goal.currentAmount)), currency)}
                           {" / "}
-                          {formatCurrency(goals.reduce((sum, goal) => sum + parseFloat(goal.targetAmount.toString()), 0))}
+                          {formatCurrency(sumMoney(currentGoals.map(goal => goal.targetAmount)), currency)}
                         </>
                       ) : "No goals yet"}
                     </span>
@@ -203,6 +212,10 @@ export default function GoalsPage() {
                 <CheckCircleIcon className="h-4 w-4" />
                 <span>Completed ({completedGoals?.length || 0})</span>
               </TabsTrigger>
+              <TabsTrigger value="archived" className="flex items-center gap-1">
+                <ArchiveIcon className="h-4 w-4" />
+                <span>Archived ({archivedGoals.length})</span>
+              </TabsTrigger>
               <TabsTrigger value="insights" className="flex items-center gap-1">
                 <LineChartIcon className="h-4 w-4" />
                 <span>Insights</span>
@@ -263,6 +276,28 @@ export default function GoalsPage() {
               )}
             </TabsContent>
             
+            <TabsContent value="archived">
+              {isLoadingGoals ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                  <Skeleton className="h-44 rounded-2xl" />
+                </div>
+              ) : archivedGoals.length > 0 ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {archivedGoals.map((goal) => (
+                    <GoalCard key={goal.id} goal={goal} className="opacity-75" />
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  <ArchiveIcon className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-medium mb-2">No archived goals</h3>
+                  <p className="text-muted-foreground">
+                    Goals you archive are kept here with their history
+                  </p>
+                </div>
+              )}
+            </TabsContent>
+            
             <TabsContent value="insights">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <Card>
@@ -278,15 +313,17 @@ export default function GoalsPage() {
                     ) : goals && goals.length > 0 ? (
                       <div className="space-y-4">
                         {goals.map((goal) => {
-                          const percentage = parseFloat(goal.currentAmount.toString()) / 
-                            goals.reduce((sum, g) => sum + parseFloat(g.currentAmount.toString()), 0) * 100;
+                          const percentage = percentOf(
+                            goal.currentAmount,
+                            sumMoney(goals.map(g => g.currentAmount))
+                          );
                           
                           return (
                             <div key={goal.id}>
                               <div className="flex justify-between mb-1">
                                 <span className="text-sm font-medium">{goal.name}</span>
                                 <span className="text-sm text-muted-foreground">
-                                  {formatCurrency(goal.currentAmount)} ({percentage.toFixed(1)}%)
+                                  {formatCurrency(goal.currentAmount, currency)} ({percentage.toFixed(1)}%)
                                 </span>
                               </div>
                               <Progress value={percentage} className="h-2" />
@@ -317,30 +354,14 @@ export default function GoalsPage() {
                     ) : activeGoals && activeGoals.length > 0 ? (
                       <div className="space-y-4">
                         {activeGoals.map((goal) => {
-                          const targetAmount = parseFloat(goal.targetAmount.toString());
-                          const currentAmount = parseFloat(goal.currentAmount.toString());
-                          const remaining = targetAmount - currentAmount;
-                          
-                          let monthlyContribution = 0;
-                          if (goal.deadline) {
-                            const today = new Date();
-                            const deadline = new Date(goal.deadline);
-                            const monthsDiff = (deadline.getFullYear() - today.getFullYear()) * 12 + 
-                              (deadline.getMonth() - today.getMonth());
-                            
-                            if (monthsDiff > 0) {
-                              monthlyContribution = remaining / monthsDiff;
-                            } else {
-                              monthlyContribution = remaining;
-                            }
-                          }
+                          const monthlyContribution = getMonthlyContribution(goal);
                           
                           return (
                             <div key={goal.id} className="flex justify-between items-center">
                               <span className="text-sm font-medium">{goal.name}</span>
                               <span className="text-sm font-bold">
-                                {monthlyContribution > 0 
-                                  ? formatCurrency(monthlyContribution.toFixed(2)) + "/mo"
+                                {monthlyContribution && compareMoney(monthlyContribution, 0) > 0
+                                  ? formatCurrency(monthlyContribution, currency) + "/mo"
                                   : goal.deadline 
                                     ? "Past deadline" 
                                     : "No deadline set"
@@ -355,27 +376,8 @@ export default function GoalsPage() {
                             <span>Total Monthly Required</span>
                             <span className="text-primary">
                               {formatCurrency(
-                                activeGoals.reduce((sum, goal) => {
-                                  const targetAmount = parseFloat(goal.targetAmount.toString());
-                                  const currentAmount = parseFloat(goal.currentAmount.toString());
-                                  const remaining = targetAmount - currentAmount;
-                                  
-                                  let monthlyContribution = 0;
-                                  if (goal.deadline) {
-                                    const today = new Date();
-                                    const deadline = new Date(goal.deadline);
-                                    const monthsDiff = (deadline.getFullYear() - today.getFullYear()) * 12 + 
-                                      (deadline.getMonth() - today.getMonth());
-                                    
-                                    if (monthsDiff > 0) {
-                                      monthlyContribution = remaining / monthsDiff;
-                                    } else if (remaining > 0) {
-                                      monthlyContribution = remaining;
-                                    }
-                                  }
-                                  
-                                  return sum + monthlyContribution;
-                                }, 0).toFixed(2)
+                                sumMoney(activeGoals.map(goal => getMonthlyContribution(goal) ?? 0)),
+                                currency
                               )}
                             </span>
                           </div>
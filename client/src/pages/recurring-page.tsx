@@ -0,0 +1,562 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { CalendarIcon, PauseIcon, PlayIcon, SendIcon, SkipForwardIcon, Trash2Icon } from "lucide-react";
+import { formatCurrency } from "@shared/money";
+import { describeRecurrenceRule, parseRecurrenceRule, recurrenceFrequencies } from "@shared/recurrence";
+import { transactionCategories, type BankAccount, type RecurringTransaction } from "@shared/schema";
+
+const frequencyLabels: Record<typeof recurrenceFrequencies[number] | "CUSTOM", string> = {
+  DAILY: "Daily",
+  WEEKLY: "Weekly",
+  MONTHLY: "Monthly",
+  YEARLY: "Yearly",
+  CUSTOM: "Custom rule",
+};
+
+// Recurring transaction form schema
+const recurringFormSchema = z.object({
+  accountId: z.string().min(1, "Choose an account"),
+  description: z.string().min(1, "Description is required"),
+  amount: z.string()
+    .refine(val => !isNaN(Number(val)), { message: "Amount must be a number" })
+    .refine(val => Number(val) > 0, { message: "Amount must be greater than 0" }),
+  type: z.enum(["debit", "credit"]),
+  category: z.string().optional(),
+  frequency: z.enum([...recurrenceFrequencies, "CUSTOM"]),
+  interval: z.coerce.number().int().min(1, "Must be at least 1"),
+  customRule: z.string().optional(),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.frequency !== "CUSTOM") return;
+  try {
+    parseRecurrenceRule(data.customRule ?? "");
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message, path: ["customRule"] });
+  }
+});
+
+type RecurringFormValues = z.infer<typeof recurringFormSchema>;
+type RecurringAction = "skip" | "pause" | "resume" | "post-now" | "delete";
+
+const toRule = (data: RecurringFormValues) =>
+  data.frequency === "CUSTOM"
+    ? data.customRule!.trim()
+    : `FREQ=${data.frequency};INTERVAL=${data.interval}`;
+
+const isFinished = (recurring: RecurringTransaction) =>
+  recurring.endDate !== null && new Date(recurring.nextRunAt) > new Date(recurring.endDate);
+
+export default function RecurringPage() {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  // Fetch schedules and the accounts they post to
+  const {
+    data: schedules,
+    isLoading: isLoadingSchedules
+  } = useQuery<RecurringTransaction[]>({
+    queryKey: ["/api/recurring"],
+  });
+
+  const { data: accounts } = useQuery<BankAccount[]>({
+    queryKey: ["/api/accounts"],
+  });
+  const openAccounts = accounts?.filter(account => !account.closed);
+
+  // Form setup
+  const recurringForm = useForm<RecurringFormValues>({
+    resolver: zodResolver(recurringFormSchema),
+    defaultValues: {
+      accountId: "",
+      description: "",
+      amount: "",
+      type: "debit",
+      category: "",
+      frequency: "MONTHLY",
+      interval: 1,
+      customRule: "",
+      startDate: format(new Date(), "yyyy-MM-dd"),
+      endDate: "",
+    }
+  });
+
+  const frequency = recurringForm.watch("frequency");
+
+  // Create mutation
+  const createRecurringMutation = useMutation({
+    mutationFn: async (data: RecurringFormValues) => {
+      return await apiRequest("POST", "/api/recurring", {
+        accountId: parseInt(data.accountId),
+        description: data.description,
+        amount: data.amount,
+        type: data.type,
+        category: data.category || null,
+        rule: toRule(data),
+        startDate: data.startDate,
+        endDate: data.endDate || null,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Schedule created",
+        description: "The transaction will be posted automatically when it is due"
+      });
+      setIsFormOpen(false);
+      recurringForm.reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring"] });
+      // A start date in the past is caught up on the next scheduler run
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create schedule",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Skip, pause, resume, post now and delete
+  const recurringActionMutation = useMutation({
+    mutationFn: async ({ recurring, action }: { recurring: RecurringTransaction; action: RecurringAction }) => {
+      if (action === "delete") {
+        return await apiRequest("DELETE", `/api/recurring/${recurring.id}`);
+      }
+      return await apiRequest("POST", `/api/recurring/${recurring.id}/${action}`);
+    },
+    onSuccess: (_, { action }) => {
+      const messages: Record<RecurringAction, string> = {
+        "skip": "The next occurrence will not be posted",
+        "pause": "Nothing will be posted until you resume it",
+        "resume": "Occurrences missed while paused have been skipped",
+        "post-now": "The next occurrence has been posted",
+        "delete": "Transactions it already posted have been kept",
+      };
+      toast({
+        title: "Schedule updated",
+        description: messages[action]
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring"] });
+      if (action === "post-now") {
+        queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update schedule",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const onRecurringSubmit = (data: RecurringFormValues) => {
+    createRecurringMutation.mutate(data);
+  };
+
+  const accountName = (accountId: number) =>
+    accounts?.find(account => account.id === accountId)?.name ?? "Unknown account";
+
+  const accountCurrency = (accountId: number) =>
+    accounts?.find(account => account.id === accountId)?.currency;
+
+  return (
+    <div className="flex flex-col lg:flex-row h-screen">
+      <Sidebar />
+
+      <main className="flex-1 overflow-y-auto bg-background">
+        <div className="p-4 md:p-6 max-w-6xl mx-auto">
+          {/* Header */}
+          <header className="mb-8">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">Scheduled Payments</h1>
+                <p className="text-muted-foreground mt-1">Bills, salaries and other transactions that repeat</p>
+              </div>
+              <div className="mt-4 md:mt-0">
+                <Button
+                  className="bg-gradient-to-r from-primary to-secondary hover:opacity-90 transition-opacity"
+                  onClick={() => setIsFormOpen(true)}
+                >
+                  New Schedule
+                </Button>
+              </div>
+            </div>
+          </header>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Recurring Transactions</CardTitle>
+              <CardDescription>Each is posted to its account on its due date</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingSchedules ? (
+                <div className="space-y-4">
+                  <Skeleton className="h-16 w-full" />
+                  <Skeleton className="h-16 w-full" />
+                  <Skeleton className="h-16 w-full" />
+                </div>
+              ) : schedules && schedules.length > 0 ? (
+                <div className="divide-y divide-border">
+                  {schedules.map((recurring) => {
+                    const finished = isFinished(recurring);
+                    const runAction = (action: RecurringAction) =>
+                      recurringActionMutation.mutate({ recurring, action });
+
+                    return (
+                      <div key={recurring.id} className="py-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium text-foreground">{recurring.description}</p>
+                            {recurring.paused && <Badge variant="secondary">Paused</Badge>}
+                            {finished && <Badge variant="outline">Finished</Badge>}
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {describeRecurrenceRule(recurring.rule)} · {accountName(recurring.accountId)}
+                            {recurring.category && ` · ${recurring.category}`}
+                          </p>
+                          {!finished && (
+                            <p className="text-xs text-muted-foreground">
+                              Next: {format(new Date(recurring.nextRunAt), "MMM d, yyyy")}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className={recurring.type === "credit" ? "font-semibold text-green-500" : "font-semibold text-red-500"}>
+                            {recurring.type === "credit" ? "+" : "-"}{formatCurrency(recurring.amount, accountCurrency(recurring.accountId))}
+                          </span>
+                          <div className="flex items-center">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              disabled={finished || recurring.paused || recurringActionMutation.isPending}
+                              onClick={() => runAction("post-now")}
+                            >
+                              <SendIcon className="h-4 w-4" />
+                              <span className="sr-only">Post now</span>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              disabled={finished || recurringActionMutation.isPending}
+                              onClick={() => runAction("skip")}
+                            >
+                              <SkipForwardIcon className="h-4 w-4" />
+                              <span className="sr-only">Skip next</span>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              disabled={finished || recurringActionMutation.isPending}
+                              onClick={() => runAction(recurring.paused ? "resume" : "pause")}
+                            >
+                              {recurring.paused ? <PlayIcon className="h-4 w-4" /> : <PauseIcon className="h-4 w-4" />}
+                              <span className="sr-only">{recurring.paused ? "Resume" : "Pause"}</span>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              disabled={recurringActionMutation.isPending}
+                              onClick={() => runAction("delete")}
+                            >
+                              <Trash2Icon className="h-4 w-4" />
+                              <span className="sr-only">Delete schedule</span>
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  <CalendarIcon className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-medium mb-2">No scheduled payments</h3>
+                  <p className="text-muted-foreground mb-6">
+                    Schedule rent, subscriptions or your salary so they're recorded automatically
+                  </p>
+                  <Button
+                    onClick={() => setIsFormOpen(true)}
+                    className="bg-gradient-to-r from-primary to-secondary"
+                  >
+                    Schedule Your First Payment
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      {/* New Schedule Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Schedule a transaction</DialogTitle>
+            <DialogDescription>
+              It will be posted to the account every time it falls due.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...recurringForm}>
+            <form onSubmit={recurringForm.handleSubmit(onRecurringSubmit)} className="space-y-4">
+              <FormField
+                control={recurringForm.control}
+                name="accountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Account</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select account" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {openAccounts?.map((account) => (
+                          <SelectItem key={account.id} value={account.id.toString()}>
+                            {account.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={recurringForm.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Rent, Netflix, Salary..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={recurringForm.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount</FormLabel>
+                      <FormControl>
+                        <Input placeholder="0.00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={recurringForm.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="debit">Payment (Debit)</SelectItem>
+                          <SelectItem value="credit">Deposit (Credit)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={recurringForm.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category (Optional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {transactionCategories.map((category) => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={recurringForm.control}
+                  name="frequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repeats</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(frequencyLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {frequency !== "CUSTOM" && (
+                  <FormField
+                    control={recurringForm.control}
+                    name="interval"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Every</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              {frequency === "CUSTOM" && (
+                <FormField
+                  control={recurringForm.control}
+                  name="customRule"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rule</FormLabel>
+                      <FormControl>
+                        <Input placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=FR" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        FREQ, INTERVAL, BYDAY (weekly) and BYMONTHDAY (monthly, -1 for the last day) are supported.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={recurringForm.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Starts</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={recurringForm.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ends (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsFormOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={createRecurringMutation.isPending}
+                >
+                  {createRecurringMutation.isPending ? "Saving..." : "Save Schedule"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useSearch } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Button } from "@/components/ui/button";
@@ -20,8 +21,21 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
+import { TwoFactorSwitch } from "@/components/dashboard/two-factor";
+import { ActiveSessionsCard } from "@/components/dashboard/active-sessions";
+import { ApiTokensCard } from "@/components/dashboard/api-tokens";
+import { PrivacySwitches } from "@/components/dashboard/privacy-settings";
+import { AccountDeletion } from "@/components/dashboard/account-deletion";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   AlertCircleIcon,
@@ -36,6 +50,11 @@ import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ExchangeRatesCard } from "@/components/dashboard/exchange-rates";
+import { commonCurrencies, DEFAULT_CURRENCY } from "@shared/currency";
+import type { User } from "@shared/schema";
 
 // Profile form schema
 const profileSchema = z.object({
@@ -57,7 +76,10 @@ const passwordSchema = z.object({
 export default function SettingsPage() {
   const { user, logoutMutation } = useAuth();
   const { toast } = useToast();
-  const [activeTab, setActiveTab] = useState("account");
+  const search = useSearch();
+  // Links elsewhere in the app may open a given tab with ?tab=
+  const [activeTab, setActiveTab] = useState(() => new URLSearchParams(search).get("tab") ?? "account");
+  const [isExporting, setIsExporting] = useState(false);
   
   // Profile form
   const profileForm = useForm<z.infer<typeof profileSchema>>({
@@ -79,23 +101,149 @@ export default function SettingsPage() {
     }
   });
 
+  const profileMutation = useMutation({
+    mutationFn: async ({ email, ...profile }: z.infer<typeof profileSchema>) => {
+      const res = await apiRequest("PATCH", "/api/user", profile);
+      const updated = await res.json() as Omit<User, "password">;
+
+      // A new address only replaces the old one once it's confirmed from its inbox
+      let emailChange: { message: string } | undefined;
+      if (email !== updated.email) {
+        const emailRes = await apiRequest("POST", "/api/user/email", { email });
+        emailChange = await emailRes.json();
+      }
+      return { updated, emailChange };
+    },
+    onSuccess: ({ updated, emailChange }) => {
+      queryClient.setQueryData(["/api/user"], updated);
+      profileForm.reset({ name: updated.name, email: updated.email, username: updated.username });
+      toast({
+        title: emailChange ? "Confirm your new email address" : "Profile updated",
+        description: emailChange?.message ?? "Your profile has been updated successfully."
+      });
+    },
+    onError: (error) => {
+      // The rest of the profile may have saved before an email change was refused
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Failed to update profile",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const verificationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/email/verification");
+      return await res.json() as { message: string };
+    },
+    onSuccess: ({ message }) => {
+      toast({
+        title: "Verification email sent",
+        description: message
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to send verification email",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: async (data: z.infer<typeof passwordSchema>) => {
+      const res = await apiRequest("POST", "/api/user/password", {
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      return await res.json() as { signedOutSessions: number };
+    },
+    onSuccess: ({ signedOutSessions }) => {
+      passwordForm.reset();
+      toast({
+        title: "Password updated",
+        description: signedOutSessions > 0
+          ? "Your password has been changed and your other devices have been signed out."
+          : "Your password has been changed successfully."
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update password",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
   // Handle profile form submission
   const onProfileSubmit = (data: z.infer<typeof profileSchema>) => {
-    // This would typically call an API to update the user's profile
-    toast({
-      title: "Profile updated",
-      description: "Your profile has been updated successfully."
-    });
+    profileMutation.mutate(data);
   };
 
   // Handle password form submission
   const onPasswordSubmit = (data: z.infer<typeof passwordSchema>) => {
-    // This would typically call an API to update the user's password
-    toast({
-      title: "Password updated",
-      description: "Your password has been changed successfully."
-    });
-    passwordForm.reset();
+    passwordMutation.mutate(data);
+  };
+
+  // Totals, budgets and goals are all shown in the home currency
+  const homeCurrencyMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const res = await apiRequest("PATCH", "/api/user/home-currency", { currency });
+      return await res.json() as Omit<User, "password">;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/user"], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts/totals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets/progress"] });
+      toast({
+        title: "Home currency updated",
+        description: `Totals and budgets are now shown in ${updated.homeCurrency}.`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update home currency",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Download a ZIP of everything the user owns, as JSON and CSV
+  const onRequestExport = async () => {
+    setIsExporting(true);
+    try {
+      const res = await fetch("/api/user/export", { credentials: "include" });
+      if (!res.ok) {
+        throw new Error((await res.text()) || res.statusText);
+      }
+
+      const filename = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "")?.[1]
+        ?? "neurobank-export.zip";
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Data export ready",
+        description: "Your download has started."
+      });
+    } catch (error) {
+      toast({
+        title: "Data export failed",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   return (
@@ -170,6 +318,22 @@ export default function SettingsPage() {
                             <FormControl>
                               <Input {...field} type="email" />
                             </FormControl>
+                            <FormDescription>
+                              {user?.emailVerified ? "Verified. A new address takes effect once you confirm it." : (
+                                <>
+                                  Not verified yet.{" "}
+                                  <Button
+                                    type="button"
+                                    variant="link"
+                                    className="h-auto p-0 text-xs"
+                                    disabled={verificationMutation.isPending}
+                                    onClick={() => verificationMutation.mutate()}
+                                  >
+                                    Resend verification email
+                                  </Button>
+                                </>
+                              )}
+                            </FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -189,8 +353,8 @@ export default function SettingsPage() {
                         )}
                       />
                       
-                      <Button type="submit" className="mt-4">
-                        Update Profile
+                      <Button type="submit" className="mt-4" disabled={profileMutation.isPending}>
+                        {profileMutation.isPending ? "Saving..." : "Update Profile"}
                       </Button>
                     </form>
                   </Form>
@@ -290,8 +454,8 @@ export default function SettingsPage() {
                         )}
                       />
                       
-                      <Button type="submit" className="mt-4">
-                        Update Password
+                      <Button type="submit" className="mt-4" disabled={passwordMutation.isPending}>
+                        {passwordMutation.isPending ? "Updating..." : "Update Password"}
                       </Button>
                     </form>
                   </Form>
@@ -314,7 +478,7 @@ export default function SettingsPage() {
                           Add an extra layer of security to your account
                         </FormDescription>
                       </div>
-                      <Switch disabled />
+                      <TwoFactorSwitch />
                     </div>
                     
                     <Separator />
@@ -343,6 +507,9 @@ export default function SettingsPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              <ActiveSessionsCard />
+              <ApiTokensCard />
             </TabsContent>
             
             {/* Notifications Tab */}
@@ -434,6 +601,31 @@ export default function SettingsPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-6">
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="home-currency">Home currency</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Totals, budgets and goals are shown in this currency
+                        </p>
+                      </div>
+                      <Select
+                        value={user?.homeCurrency ?? DEFAULT_CURRENCY}
+                        onValueChange={currency => homeCurrencyMutation.mutate(currency)}
+                        disabled={homeCurrencyMutation.isPending}
+                      >
+                        <SelectTrigger id="home-currency" className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {commonCurrencies.map(currency => (
+                            <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <Separator />
+
                     <div className="flex items-center justify-between">
                       <div className="space-y-0.5">
                         <FormLabel>Default account</FormLabel>
@@ -492,6 +684,12 @@ export default function SettingsPage() {
                   </Button>
                 </CardFooter>
               </Card>
+
+              {user?.isAdmin && (
+                <div className="mt-8">
+                  <ExchangeRatesCard />
+                </div>
+              )}
             </TabsContent>
             
             {/* Privacy Tab */}
@@ -505,58 +703,25 @@ export default function SettingsPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-6">
-                    <div className="flex items-center justify-between">
-                      <div className="space-y-0.5">
-                        <FormLabel>Data analysis</FormLabel>
-                        <FormDescription>
-                          Allow us to analyze your transactions for personalized insights
-                        </FormDescription>
-                      </div>
-                      <Switch defaultChecked />
-                    </div>
-                    
-                    <Separator />
-                    
-                    <div className="flex items-center justify-between">
-                      <div className="space-y-0.5">
-                        <FormLabel>AI financial advisor</FormLabel>
-                        <FormDescription>
-                          Use your financial data to provide AI-powered advice
-                        </FormDescription>
-                      </div>
-                      <Switch defaultChecked />
-                    </div>
+                    <PrivacySwitches />
                     
                     <Separator />
                     
-                    <div className="flex items-center justify-between">
-                      <div className="space-y-0.5">
-                        <FormLabel>Marketing communications</FormLabel>
-                        <FormDescription>
-                          Receive personalized offers based on your financial activity
-                        </FormDescription>
-                      </div>
-                      <Switch />
+                    <div>
+                      <Label>Data export</Label>
+                      <p className="text-sm text-muted-foreground mb-2">
+                        Download a copy of all your financial data, with each dataset as JSON and CSV
+                      </p>
+                      <Button variant="outline" onClick={onRequestExport} disabled={isExporting}>
+                        {isExporting ? "Preparing export..." : "Request data export"}
+                      </Button>
                     </div>
                     
                     <Separator />
                     
-                    <div>
-                      <FormLabel>Data export</FormLabel>
-                      <FormDescription className="mb-2">
-                        Download a copy of all your financial data
-                      </FormDescription>
-                      <Button variant="outline">
-                        Request data export
-                      </Button>
-                    </div>
+                    <AccountDeletion onExport={onRequestExport} isExporting={isExporting} />
                   </div>
                 </CardContent>
-                <CardFooter>
-                  <Button className="ml-auto">
-                    Save Privacy Settings
-                  </Button>
-                </CardFooter>
               </Card>
             </TabsContent>
           </Tabs>
@@ -0,0 +1,71 @@
+import { useEffect } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Where the link in a verification email leads. Works whether or not this
+// browser is signed in, since the link may be opened on another device.
+export default function VerifyEmailPage() {
+  const { user } = useAuth();
+  const token = new URLSearchParams(useSearch()).get("token");
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/verify-email", { token });
+      return await res.json() as { message: string; email: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  // Links are single-use, so this only ever runs once per page load
+  useEffect(() => {
+    if (token) verifyMutation.mutate();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted px-4 py-8">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Email verification</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <p className="text-sm text-muted-foreground">
+              This verification link is incomplete. Open the link from the email again.
+            </p>
+          ) : verifyMutation.isSuccess ? (
+            <p className="text-sm text-muted-foreground">
+              {verifyMutation.data.email} is now the verified email address for your account.
+            </p>
+          ) : verifyMutation.isError ? (
+            <p className="text-sm text-destructive">
+              This verification link is invalid or has expired. Request a new one from Settings.
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground flex items-center">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </p>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button variant="link" className="px-0" asChild>
+            <Link href={user ? "/settings" : "/auth"}>{user ? "Go to settings" : "Go to sign in"}</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
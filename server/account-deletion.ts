@@ -0,0 +1,98 @@
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { sendMail } from "./mail";
+import type { ErasureReceipt, User } from "@shared/schema";
+
+// Deleting an account takes two steps. Asking for it only schedules the
+// erasure DELETION_GRACE_DAYS ahead, and the user can keep using the account
+// and call it off until then. After that the scheduler erases the user and
+// everything that is theirs in a single database transaction. The user is
+// emailed a receipt whose id can be looked up later. Functions that read the
+// time take `now`, so the grace period can be checked against a fixed clock.
+
+export const DELETION_GRACE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+export async function requestAccountDeletion(user: User, now = new Date()): Promise<User | undefined> {
+  const deleteAfter = new Date(now.getTime() + DELETION_GRACE_DAYS * DAY_MS);
+  const scheduled = await storage.scheduleUserDeletion(user.id, deleteAfter);
+  if (!scheduled) return undefined;
+
+  await sendMail({
+    to: user.email,
+    userId: user.id,
+    subject: "Your NeuroBank account is scheduled for deletion",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      `Your NeuroBank account (${user.username}) and all of its data will be permanently deleted on ${deleteAfter.toUTCString()}.`,
+      "",
+      "To keep your account, sign in before then and choose \"Cancel deletion\" on the Privacy tab in Settings. You can still download a copy of your data there.",
+      "",
+      "If you didn't ask for this, sign in, cancel the deletion and change your password.",
+    ].join("\n"),
+  });
+  return scheduled;
+}
+
+// Undefined if the deletion was cancelled, or already carried out, meanwhile
+export async function eraseAccount(user: User, now = new Date()): Promise<ErasureReceipt | undefined> {
+  const receipt = await storage.eraseUser(user.id, randomUUID(), now);
+  if (!receipt) return undefined;
+
+  // Sent once the erasure is committed, so it only goes out for one that
+  // happened. It is deliberately not tied to the user: it is their copy of
+  // the receipt, and with the outbox transport it stays queued until
+  // delivered, as a mail provider's copy would. It holds no financial data.
+  await sendMail({
+    to: user.email,
+    userId: null,
+    subject: "Your NeuroBank account has been deleted",
+    text: [
+      `Your NeuroBank account (${user.username}) was deleted on ${receipt.erasedAt.toUTCString()}, as you asked on ${receipt.requestedAt.toUTCString()}.`,
+      "",
+      `Erasure receipt: ${receipt.receiptId}`,
+      "",
+      "Records erased:",
+      ...Object.entries(receipt.erasedRecords).map(([dataset, count]) => `  ${dataset}: ${count}`),
+      "",
+      "Keep the receipt id to confirm the erasure later. Apart from the receipt, none of your data is kept.",
+    ].join("\n"),
+  });
+  return receipt;
+}
+
+// Erases every account whose grace period is over; returns how many
+export async function runDueAccountDeletions(now = new Date()): Promise<number> {
+  let erased = 0;
+  for (const user of await storage.getUsersDueForDeletion(now)) {
+    try {
+      if (await eraseAccount(user, now)) erased++;
+    } catch (error) {
+      console.error(`Error erasing user ${user.id}:`, error);
+    }
+  }
+  return erased;
+}
+
+// Runs once at startup, catching up on anything due while the server was down, then hourly
+export function startAccountDeletionScheduler(onErased?: (count: number) => void): NodeJS.Timeout {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const erased = await runDueAccountDeletions();
+      if (erased > 0) onErased?.(erased);
+    } catch (error) {
+      console.error("Error running account deletions:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  return setInterval(tick, SCHEDULER_INTERVAL_MS);
+}
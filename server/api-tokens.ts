@@ -0,0 +1,75 @@
+import { randomBytes, createHash } from "crypto";
+import { storage } from "./storage";
+import type { ApiToken, ApiTokenScope, CreatedApiToken, PublicApiToken, User } from "@shared/schema";
+
+// Personal access tokens, for scripts that call the API without a browser
+// session. A token is sent as `Authorization: Bearer <token>` and is only
+// looked at by routes that name the scope they need; every other route is
+// for signed-in browsers alone. Tokens are random, so a plain SHA-256 is
+// enough to store them by, and they never create a session.
+
+// Lets leaked tokens be recognised by secret scanners and people alike
+const TOKEN_PREFIX = "nbk_";
+// How much of the token is kept to tell tokens apart in the list
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+export type ApiTokenAuthentication =
+  | { user: User; token: ApiToken }
+  | { error: string };
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function createApiToken(
+  userId: number,
+  name: string,
+  scopes: ApiTokenScope[],
+  expiresInDays: number | null,
+  now = new Date()
+): Promise<CreatedApiToken> {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  const created = await storage.createApiToken({
+    userId,
+    name,
+    tokenHash: hashApiToken(token),
+    prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes: Array.from(new Set(scopes)),
+    expiresAt: expiresInDays === null ? null : new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000),
+  });
+  return { ...toPublicApiToken(created), token };
+}
+
+export function toPublicApiToken(token: ApiToken): PublicApiToken {
+  const { tokenHash, ...rest } = token;
+  return rest;
+}
+
+// The token from an Authorization header, or undefined if it isn't a Bearer one
+export function bearerToken(header: string | undefined): string | undefined {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match?.[1];
+}
+
+// Resolves a presented token to its user, noting when and from where it was
+// last used. Unknown, expired and orphaned tokens get the same answer.
+export async function authenticateApiToken(
+  presented: string,
+  ip: string | null,
+  now = new Date()
+): Promise<ApiTokenAuthentication> {
+  const token = await storage.getApiTokenByHash(hashApiToken(presented));
+  if (!token || (token.expiresAt && token.expiresAt <= now)) {
+    return { error: "Invalid or expired API token" };
+  }
+
+  // Scripts stop once the account is set to be deleted
+  const user = await storage.getUser(token.userId);
+  if (!user || user.deleteAfter) return { error: "Invalid or expired API token" };
+
+  if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() >= LAST_USED_INTERVAL_MS || token.lastUsedIp !== ip) {
+    await storage.recordApiTokenUse(token.id, ip, now);
+  }
+  return { user, token };
+}
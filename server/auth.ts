@@ -1,11 +1,38 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
-import { storage } from "./storage";
-import { User as SelectUser, insertUserSchema } from "@shared/schema";
+import { storage, UserSessionRecord } from "./storage";
+import { requestContext } from "./request-context";
+import { clearLoginFailures, loginRetryAfter, recordLoginFailure } from "./login-throttle";
+import { sendMail } from "./mail";
+import { requestAccountDeletion } from "./account-deletion";
+import {
+  generateTotpSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  matchTotpStep,
+  otpauthUri,
+  verifySecondFactor,
+} from "./two-factor";
+import {
+  User as SelectUser,
+  insertUserSchema,
+  updateProfileSchema,
+  changePasswordSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  changeEmailSchema,
+  verifyEmailSchema,
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+  deleteAccountSchema,
+  TwoFactorMethod,
+  TwoFactorStatus,
+  ActiveSession,
+} from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -13,6 +40,22 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password checks out for a user with two-factor on, until they give a code
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+    // Where a signed-in session is used from, for the session list
+    device?: { userAgent: string | null; ip: string | null; signedInAt: number | null; lastSeenAt: number };
+  }
+}
+
+const TWO_FACTOR_WINDOW_MS = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+const VERIFY_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+// Last-seen times are only this precise, rather than costing a store write per request
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
 const scryptAsync = promisify(scrypt);
 
 async function hashPassword(password: string) {
@@ -28,6 +71,125 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Checked against when the username doesn't exist, so that takes as long as a wrong password
+const UNKNOWN_USER_PASSWORD = `${"0".repeat(128)}.${"0".repeat(32)}`;
+
+// The same answer whether or not the username exists
+function tooManyAttempts(res: Response, retryAfterMs: number) {
+  res.set("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+  return res.status(429).json({ message: "Too many sign-in attempts. Please try again later." });
+}
+
+// Attempts against unknown usernames are kept too, under no user, since
+// they are what probing for accounts looks like
+async function recordFailedLogin(username: unknown) {
+  const attempted = typeof username === "string" ? username : null;
+  const user = attempted ? await storage.getUserByUsername(attempted) : undefined;
+  await storage.recordAuditEvent({
+    userId: user?.id ?? null,
+    action: "auth.login_failed",
+    entityType: "user",
+    entityId: user?.id ?? null,
+    after: { username: attempted },
+  });
+}
+
+// Tokens sent by email are long and random, so a plain hash is enough to make a leaked table useless
+function newEmailToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+function hashEmailToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Links in email point here. APP_URL should be set in production, since the
+// Host header the fallback trusts is whatever the client sent.
+function appUrl(req: Request): string {
+  return process.env.APP_URL?.replace(/\/$/, "") || `${req.protocol}://${req.get("host")}`;
+}
+
+// Sends a link proving the user owns `email`, their current address or the one they're changing to
+async function sendVerificationEmail(req: Request, user: SelectUser, email: string) {
+  const token = newEmailToken();
+  await storage.createEmailVerificationToken(user.id, email, hashEmailToken(token), new Date(Date.now() + VERIFY_TOKEN_TTL_MS));
+  
+  const link = `${appUrl(req)}/verify-email?token=${encodeURIComponent(token)}`;
+  const changing = email !== user.email;
+  await sendMail({
+    to: email,
+    userId: user.id,
+    subject: changing ? "Confirm your new NeuroBank email address" : "Verify your NeuroBank email address",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      changing
+        ? `To use ${email} for your NeuroBank account instead of ${user.email}, open this link within 24 hours:`
+        : "To confirm this is your email address, open this link within 24 hours:",
+      "",
+      link,
+      "",
+      "If you didn't ask for this, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+function recordSessionDevice(req: Request) {
+  const now = Date.now();
+  req.session.device = { userAgent: req.get("User-Agent") ?? null, ip: req.ip ?? null, signedInAt: now, lastSeenAt: now };
+}
+
+// Sessions are listed under a hash of their id, since the id is what the cookie carries
+function publicSessionId(sessionId: string): string {
+  return createHash("sha256").update(sessionId).digest("hex").slice(0, 32);
+}
+
+function toActiveSession(record: UserSessionRecord, currentSessionId: string): ActiveSession {
+  const device = record.data.device;
+  return {
+    id: publicSessionId(record.sessionId),
+    userAgent: device?.userAgent ?? null,
+    ip: device?.ip ?? null,
+    signedInAt: device?.signedInAt ? new Date(device.signedInAt).toISOString() : null,
+    lastSeenAt: device ? new Date(device.lastSeenAt).toISOString() : null,
+    expiresAt: record.expiresAt?.toISOString() ?? null,
+    current: record.sessionId === currentSessionId,
+  };
+}
+
+// Starts the session for a user whose credentials all checked out
+function completeLogin(req: Request, res: Response, next: NextFunction, user: SelectUser, twoFactor?: TwoFactorMethod) {
+  req.login(user, async (err) => {
+    if (err) return next(err);
+    recordSessionDevice(req);
+    
+    try {
+      await clearLoginFailures(user.username);
+      await storage.recordAuditEvent({
+        userId: user.id,
+        action: "auth.login",
+        entityType: "user",
+        entityId: user.id,
+        after: twoFactor ? { twoFactor } : undefined,
+      });
+    } catch (error) {
+      return next(error);
+    }
+    
+    // Remove password from response
+    const { password, ...userWithoutPassword } = user;
+    res.status(200).json(userWithoutPassword);
+  });
+}
+
+async function twoFactorStatus(userId: number): Promise<TwoFactorStatus> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  return {
+    enabled: !!credential?.enabledAt,
+    recoveryCodesLeft: credential?.enabledAt ? credential.recoveryCodes.length : 0,
+  };
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "neurobank-secret-key-change-in-production",
@@ -45,12 +207,29 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(requestContext); // the session store's callbacks run outside the request's context
+
+  // Keeps each session's last-seen time and address current for the session list
+  app.use((req, res, next) => {
+    if (req.isAuthenticated()) {
+      const device = req.session.device;
+      if (!device) {
+        // Signed in before sessions recorded their device
+        req.session.device = { userAgent: req.get("User-Agent") ?? null, ip: req.ip ?? null, signedInAt: null, lastSeenAt: Date.now() };
+      } else if (Date.now() - device.lastSeenAt > LAST_SEEN_INTERVAL_MS) {
+        device.lastSeenAt = Date.now();
+        device.ip = req.ip ?? null;
+      }
+    }
+    next();
+  });
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       try {
         const user = await storage.getUserByUsername(username);
-        if (!user || !(await comparePasswords(password, user.password))) {
+        const passwordMatches = await comparePasswords(password, user?.password ?? UNKNOWN_USER_PASSWORD);
+        if (!user || !passwordMatches) {
           return done(null, false, { message: "Invalid username or password" });
         }
         return done(null, user);
@@ -100,9 +279,12 @@ export function setupAuth(app: Express) {
         balance: "12840.50",
         type: "savings"
       });
+      
+      await sendVerificationEmail(req, user, user.email);
 
       req.login(user, (err) => {
         if (err) return next(err);
+        recordSessionDevice(req);
         
         // Remove password from response
         const { password, ...userWithoutPassword } = user;
@@ -113,28 +295,155 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err, user, info) => {
+  app.post("/api/login", async (req, res, next) => {
+    const username = typeof req.body?.username === "string" ? req.body.username : "";
+    try {
+      const retryAfter = await loginRetryAfter(username, req.ip);
+      if (retryAfter > 0) return tooManyAttempts(res, retryAfter);
+    } catch (error) {
+      return next(error);
+    }
+    
+    passport.authenticate("local", async (err, user, info) => {
       if (err) return next(err);
-      if (!user) return res.status(401).json({ message: info?.message || "Login failed" });
+      if (!user) {
+        try {
+          await recordLoginFailure(username, req.ip);
+          await recordFailedLogin(req.body?.username);
+        } catch (error) {
+          return next(error);
+        }
+        return res.status(401).json({ message: info?.message || "Login failed" });
+      }
       
-      req.login(user, (err) => {
-        if (err) return next(err);
-        
-        // Remove password from response
-        const { password, ...userWithoutPassword } = user;
-        res.status(200).json(userWithoutPassword);
-      });
+      try {
+        // The password alone doesn't sign in; the session only remembers who still owes a code
+        if ((await twoFactorStatus(user.id)).enabled) {
+          req.session.pendingTwoFactor = {
+            userId: user.id,
+            expiresAt: Date.now() + TWO_FACTOR_WINDOW_MS,
+            attempts: 0,
+          };
+          return res.status(200).json({ twoFactorRequired: true });
+        }
+      } catch (error) {
+        return next(error);
+      }
+      
+      completeLogin(req, res, next, user);
     })(req, res, next);
   });
 
-  app.post("/api/logout", (req, res, next) => {
+  app.post("/api/login/two-factor", async (req, res, next) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "Sign in again to continue" });
+    }
+    
+    try {
+      const user = await storage.getUser(pending.userId);
+      if (!user) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Sign in again to continue" });
+      }
+      
+      const retryAfter = await loginRetryAfter(user.username, req.ip);
+      if (retryAfter > 0) return tooManyAttempts(res, retryAfter);
+      
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const method = await verifySecondFactor(user.id, code);
+      
+      if (!method) {
+        // A handful of guesses per password, then the password is needed again.
+        // Wrong codes also count as failed sign-ins, so signing in again doesn't reset the guessing.
+        pending.attempts++;
+        if (pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+        }
+        await recordLoginFailure(user.username, req.ip);
+        await storage.recordAuditEvent({
+          userId: pending.userId,
+          action: "auth.login_failed",
+          entityType: "user",
+          entityId: pending.userId,
+          after: { twoFactor: "invalid_code" },
+        });
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+      
+      delete req.session.pendingTwoFactor;
+      completeLogin(req, res, next, user, method);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to verify code", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/logout", async (req, res, next) => {
+    try {
+      // Recorded first, while the session still says who is signing out
+      if (req.user) {
+        await storage.recordAuditEvent({ userId: req.user.id, action: "auth.logout", entityType: "user", entityId: req.user.id });
+      }
+    } catch (error) {
+      return next(error);
+    }
+    
     req.logout((err) => {
       if (err) return next(err);
       res.sendStatus(200);
     });
   });
 
+  app.post("/api/forgot-password", async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+      const user = await storage.getUserByEmail(email);
+      
+      if (user) {
+        const token = newEmailToken();
+        await storage.createPasswordResetToken(user.id, hashEmailToken(token), new Date(Date.now() + RESET_TOKEN_TTL_MS));
+        await sendMail({
+          to: user.email,
+          userId: user.id,
+          subject: "Reset your NeuroBank password",
+          text: [
+            `Hi ${user.name},`,
+            "",
+            "Someone asked to reset the password for your NeuroBank account. To choose a new one, open this link within the next hour:",
+            "",
+            `${appUrl(req)}/reset-password?token=${encodeURIComponent(token)}`,
+            "",
+            "If it wasn't you, ignore this email and your password will stay as it is.",
+          ].join("\n"),
+        });
+      }
+      
+      // The same answer either way, so this can't be used to find out who has an account
+      res.json({ message: "If an account uses that email, a link to reset its password is on its way." });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to request a password reset", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/reset-password", async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      
+      const user = await storage.resetPasswordWithToken(hashEmailToken(token), await hashPassword(password));
+      if (!user) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+      
+      // Whoever knew the old password is signed out, and any lockout from guessing it ends
+      await storage.destroyUserSessions(user.id);
+      await clearLoginFailures(user.username);
+      res.json({ message: "Password updated. Sign in with your new password." });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to reset password", error: (error as Error).message });
+    }
+  });
+
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
     
@@ -143,4 +452,303 @@ export function setupAuth(app: Express) {
     const { password, ...userWithoutPassword } = user;
     res.json(userWithoutPassword);
   });
+
+  app.patch("/api/user", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      const user = req.user as SelectUser;
+      const changes = updateProfileSchema.parse(req.body);
+      
+      // Checked up front for a clear message; the unique constraint still catches races
+      if (changes.username !== undefined && changes.username !== user.username &&
+          await storage.getUserByUsername(changes.username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      
+      const updated = await storage.updateUser(user.id, changes);
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { password, ...userWithoutPassword } = updated;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update profile", error: (error as Error).message });
+    }
+  });
+
+  // The first step of changing address: nothing changes until the link sent to the new one is opened
+  app.post("/api/user/email", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      const user = req.user as SelectUser;
+      const { email } = changeEmailSchema.parse(req.body);
+      
+      if (email === user.email) {
+        return res.status(400).json({ message: "That is already your email address" });
+      }
+      if (await storage.getUserByEmail(email)) {
+        return res.status(400).json({ message: "Email already in use" });
+      }
+      
+      await sendVerificationEmail(req, user, email);
+      res.json({ message: `We sent a confirmation link to ${email}. Your address changes once you open it.`, pendingEmail: email });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to change email", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/user/email/verification", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      const user = req.user as SelectUser;
+      if (user.emailVerified) {
+        return res.status(400).json({ message: "Your email address is already verified" });
+      }
+      
+      await sendVerificationEmail(req, user, user.email);
+      res.json({ message: `We sent a verification link to ${user.email}.` });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to send verification email", error: (error as Error).message });
+    }
+  });
+
+  // Open without signing in, since the link may be opened on another device
+  app.post("/api/verify-email", async (req, res) => {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+      
+      const result = await storage.verifyEmailWithToken(hashEmailToken(token));
+      if (!result) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+      
+      const { user, previousEmail } = result;
+      if (previousEmail !== user.email) {
+        // The old address hears about it, in case the change wasn't the owner's doing
+        await sendMail({
+          to: previousEmail,
+          userId: user.id,
+          subject: "Your NeuroBank email address was changed",
+          text: [
+            `Hi ${user.name},`,
+            "",
+            `The email address for your NeuroBank account was changed from ${previousEmail} to ${user.email}.`,
+            "",
+            "If you didn't make this change, reset your password and contact support right away.",
+          ].join("\n"),
+        });
+      }
+      
+      res.json({ message: "Email address verified", email: user.email });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to verify email", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/user/password", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      const user = req.user as SelectUser;
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      
+      if (!(await comparePasswords(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+      
+      await storage.updateUser(user.id, { password: await hashPassword(newPassword) });
+      await clearLoginFailures(user.username);
+      
+      // Anyone holding an old session may have had the old password; this one stays signed in
+      const signedOutSessions = await storage.destroyUserSessions(user.id, req.sessionID);
+      res.json({ message: "Password updated", signedOutSessions });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update password", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/user/two-factor", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      res.json(await twoFactorStatus(req.user.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch two-factor status", error: (error as Error).message });
+    }
+  });
+
+  // Issues a new secret; nothing changes at sign-in until a code from it is confirmed
+  app.post("/api/user/two-factor/setup", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      const user = req.user as SelectUser;
+      const secret = generateTotpSecret();
+      await storage.startTwoFactorEnrollment(user.id, secret);
+      res.json({ secret, otpauthUri: otpauthUri(secret, user.username) });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to start two-factor setup", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/user/two-factor/enable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      const user = req.user as SelectUser;
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      
+      const credential = await storage.getTwoFactorCredential(user.id);
+      if (!credential || credential.enabledAt) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+      
+      const step = matchTotpStep(credential.secret, code);
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+      
+      const recoveryCodes = generateRecoveryCodes();
+      const enabled = await storage.enableTwoFactor(user.id, step, recoveryCodes.map(hashRecoveryCode));
+      if (!enabled) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+      
+      res.json({ recoveryCodes });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to enable two-factor authentication", error: (error as Error).message });
+    }
+  });
+
+  // A signed-in session isn't enough: the password and a current code are both needed
+  app.post("/api/user/two-factor/disable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      const user = req.user as SelectUser;
+      const { password, code } = disableTwoFactorSchema.parse(req.body);
+      
+      if (!(await comparePasswords(password, user.password))) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+      if (!(await verifySecondFactor(user.id, code))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+      
+      await storage.disableTwoFactor(user.id);
+      res.json(await twoFactorStatus(user.id));
+    } catch (error) {
+      res.status(400).json({ message: "Failed to disable two-factor authentication", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/user/sessions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      const records = await storage.getUserSessions(req.user.id);
+      const sessions = records
+        .map(record => toActiveSession(record, req.sessionID))
+        .sort((a, b) => Number(b.current) - Number(a.current) || (b.lastSeenAt ?? "").localeCompare(a.lastSeenAt ?? ""));
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sessions", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/user/sessions/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      const user = req.user as SelectUser;
+      const records = await storage.getUserSessions(user.id);
+      const record = records.find(record => publicSessionId(record.sessionId) === req.params.id);
+      if (!record) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (record.sessionId === req.sessionID) {
+        return res.status(400).json({ message: "Sign out to end this session" });
+      }
+      
+      await storage.destroyUserSession(user.id, record.sessionId);
+      res.json(toActiveSession(record, req.sessionID));
+    } catch (error) {
+      res.status(400).json({ message: "Failed to sign out session", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/user/sessions/revoke-others", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      const signedOutSessions = await storage.destroyUserSessions(req.user.id, req.sessionID);
+      res.json({ message: "Signed out of all other sessions", signedOutSessions });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to sign out other sessions", error: (error as Error).message });
+    }
+  });
+
+  // Schedules the account's erasure; see account-deletion.ts for the grace period
+  app.post("/api/user/deletion", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      const user = req.user as SelectUser;
+      const { password: enteredPassword, code } = deleteAccountSchema.parse(req.body);
+      
+      if (user.deleteAfter) {
+        return res.status(400).json({ message: "Your account is already scheduled for deletion" });
+      }
+      if (!(await comparePasswords(enteredPassword, user.password))) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+      if ((await twoFactorStatus(user.id)).enabled && !(code && await verifySecondFactor(user.id, code))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+      
+      const scheduled = await requestAccountDeletion(user);
+      if (!scheduled) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { password, ...userWithoutPassword } = scheduled;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to schedule account deletion", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/user/deletion", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    
+    try {
+      const updated = await storage.cancelUserDeletion(req.user.id);
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { password, ...userWithoutPassword } = updated;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to cancel account deletion", error: (error as Error).message });
+    }
+  });
+
+  // Anyone holding a receipt id may check it; the receipt says nothing about who they were
+  app.get("/api/erasure-receipts/:receiptId", async (req, res) => {
+    try {
+      const receipt = await storage.getErasureReceipt(req.params.receiptId);
+      if (!receipt) {
+        return res.status(404).json({ message: "Erasure receipt not found" });
+      }
+      
+      res.json(receipt);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch erasure receipt", error: (error as Error).message });
+    }
+  });
 }
@@ -0,0 +1,96 @@
+import { storage } from "./storage";
+import { createCurrencyConverter } from "./exchange-rates";
+import { Budget, BudgetProgress, CategorySpending, User } from "@shared/schema";
+import { addMoney, compareMoney, percentOf, subtractMoney } from "@shared/money";
+import { dateKey } from "@shared/currency";
+
+// Months are "YYYY-MM" strings in UTC, the same buckets storage groups spending by
+
+export function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+export function monthStart(month: string): Date {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1));
+}
+
+export function addMonths(month: string, count: number): string {
+  const start = monthStart(month);
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + count, 1))
+    .toISOString()
+    .slice(0, 7);
+}
+
+function monthOf(date: Date | null): string {
+  return (date ?? new Date()).toISOString().slice(0, 7);
+}
+
+// Categories are free text on transactions, so match them case-insensitively
+function spentIn(spending: CategorySpending[], category: string, month: string): string {
+  const key = category.toLowerCase();
+  return spending
+    .filter(entry => entry.month === month && entry.category.toLowerCase() === key)
+    .reduce((total, entry) => addMoney(total, entry.spent), "0.00");
+}
+
+export function calculateBudgetProgress(
+  budget: Budget,
+  month: string,
+  spending: CategorySpending[]
+): BudgetProgress {
+  // With rollover, whatever is left at the end of each month since the budget
+  // was created carries into the next; overspending never carries a debt
+  let carriedOver = "0.00";
+  if (budget.rollover) {
+    for (let m = monthOf(budget.createdAt); m < month; m = addMonths(m, 1)) {
+      const left = subtractMoney(addMoney(budget.monthlyLimit, carriedOver), spentIn(spending, budget.category, m));
+      carriedOver = compareMoney(left, 0) > 0 ? left : "0.00";
+    }
+  }
+
+  const available = addMoney(budget.monthlyLimit, carriedOver);
+  const spent = spentIn(spending, budget.category, month);
+
+  return {
+    budget,
+    month,
+    carriedOver,
+    available,
+    spent,
+    remaining: subtractMoney(available, spent),
+    percentUsed: percentOf(spent, available),
+  };
+}
+
+// Budgets are in the user's home currency. Spending on accounts in other
+// currencies is converted at the rate in effect on the last day of its month;
+// spending in a currency with no rate at all can't be counted.
+async function inHomeCurrency(user: User, spending: CategorySpending[]): Promise<CategorySpending[]> {
+  const converter = await createCurrencyConverter(user.homeCurrency);
+
+  return spending.flatMap(entry => {
+    const lastDay = dateKey(new Date(monthStart(addMonths(entry.month, 1)).getTime() - 1));
+    const spent = converter.convert(entry.spent, entry.currency, lastDay);
+    return spent === undefined ? [] : [{ ...entry, currency: user.homeCurrency, spent }];
+  });
+}
+
+export async function getBudgetProgress(user: User, month: string): Promise<BudgetProgress[]> {
+  const budgets = await storage.getBudgetsByUserId(user.id);
+  if (budgets.length === 0) return [];
+
+  // Rollover needs every month back to the oldest budget's creation
+  const firstMonth = budgets
+    .map(budget => monthOf(budget.createdAt))
+    .reduce((earliest, m) => (m < earliest ? m : earliest), month);
+
+  const spending = await storage.getMonthlySpendingByCategory(
+    user.id,
+    monthStart(firstMonth),
+    monthStart(addMonths(month, 1))
+  );
+
+  const converted = await inHomeCurrency(user, spending);
+  return budgets.map(budget => calculateBudgetProgress(budget, month, converted));
+}
@@ -0,0 +1,142 @@
+import { createHash } from "crypto";
+import { getTableColumns } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { storage } from "./storage";
+import { createZip, ZipEntry } from "./zip";
+import {
+  User,
+  users,
+  bankAccounts,
+  transactions,
+  savingGoals,
+  goalContributions,
+  budgets,
+  recurringTransactions,
+  categoryRules,
+  netWorthSnapshots,
+  accountBalanceSnapshots,
+  journalEntries,
+  aiAdvices
+} from "@shared/schema";
+
+// Bump whenever a dataset gains, loses or changes the meaning of a column, so
+// anything reading old exports can tell which layout it has
+export const EXPORT_SCHEMA_VERSION = 6;
+
+type Dataset = {
+  name: string;
+  columns: string[];
+  records: Record<string, unknown>[];
+};
+
+export type ExportManifest = {
+  schemaVersion: number;
+  generatedAt: string;
+  user: { id: number; username: string };
+  datasets: {
+    name: string;
+    records: number;
+    columns: string[];
+    files: { name: string; sha256: string }[];
+  }[];
+};
+
+// Columns come from the table definitions, so empty datasets still get a header
+function columnsOf(table: PgTable, omit: string[] = []): string[] {
+  return Object.keys(getTableColumns(table)).filter(column => !omit.includes(column));
+}
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(dataset: Dataset): string {
+  const lines = [dataset.columns.map(csvValue).join(",")];
+  for (const record of dataset.records) {
+    lines.push(dataset.columns.map(column => csvValue(record[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+function sha256(content: string): string {
+  return createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+async function collectDatasets(user: User): Promise<Dataset[]> {
+  const { password, ...profile } = user;
+
+  const [
+    accountRows,
+    transactionRows,
+    goalRows,
+    budgetRows,
+    recurringRows,
+    ruleRows,
+    netWorthRows,
+    balanceRows,
+    journalRows,
+    adviceRows,
+  ] = await Promise.all([
+    storage.getBankAccountsByUserId(user.id),
+    storage.getTransactionsByUserId(user.id),
+    storage.getSavingGoalsByUserId(user.id),
+    storage.getBudgetsByUserId(user.id),
+    storage.getRecurringTransactionsByUserId(user.id),
+    storage.getCategoryRulesByUserId(user.id),
+    storage.getNetWorthSnapshots(user.id),
+    storage.getAccountBalanceSnapshots(user.id),
+    storage.getJournalEntriesByUserId(user.id),
+    storage.getAiAdvicesByUserId(user.id),
+  ]);
+
+  // Contributions are stored per goal
+  const contributionRows = (await Promise.all(goalRows.map(goal => storage.getGoalContributions(goal.id)))).flat();
+
+  return [
+    { name: "profile", columns: columnsOf(users, ["password"]), records: [profile] },
+    { name: "bankAccounts", columns: columnsOf(bankAccounts), records: accountRows },
+    { name: "transactions", columns: columnsOf(transactions), records: transactionRows },
+    { name: "savingGoals", columns: columnsOf(savingGoals), records: goalRows },
+    { name: "goalContributions", columns: columnsOf(goalContributions), records: contributionRows },
+    { name: "budgets", columns: columnsOf(budgets), records: budgetRows },
+    { name: "recurringTransactions", columns: columnsOf(recurringTransactions), records: recurringRows },
+    { name: "categoryRules", columns: columnsOf(categoryRules), records: ruleRows },
+    { name: "netWorthSnapshots", columns: columnsOf(netWorthSnapshots), records: netWorthRows },
+    { name: "accountBalanceSnapshots", columns: columnsOf(accountBalanceSnapshots), records: balanceRows },
+    { name: "journalEntries", columns: columnsOf(journalEntries), records: journalRows },
+    { name: "aiAdvices", columns: columnsOf(aiAdvices), records: adviceRows },
+  ];
+}
+
+// A ZIP holding every dataset as <name>.json and <name>.csv, plus a manifest
+// with the schema version, record counts and a SHA-256 of each file
+export async function createUserExport(user: User, now = new Date()): Promise<Buffer> {
+  const datasets = await collectDatasets(user);
+  const entries: ZipEntry[] = [];
+  const manifest: ExportManifest = {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    generatedAt: now.toISOString(),
+    user: { id: user.id, username: user.username },
+    datasets: [],
+  };
+
+  for (const dataset of datasets) {
+    const files = [
+      { name: `${dataset.name}.json`, content: JSON.stringify(dataset.records, null, 2) + "\n" },
+      { name: `${dataset.name}.csv`, content: toCsv(dataset) },
+    ];
+
+    entries.push(...files);
+    manifest.datasets.push({
+      name: dataset.name,
+      records: dataset.records.length,
+      columns: dataset.columns,
+      files: files.map(file => ({ name: file.name, sha256: sha256(file.content) })),
+    });
+  }
+
+  entries.unshift({ name: "manifest.json", content: JSON.stringify(manifest, null, 2) + "\n" });
+  return createZip(entries, now);
+}
@@ -0,0 +1,78 @@
+import { storage } from "./storage";
+import { parseCsvRecords } from "./statements";
+import { AccountTotals, InsertExchangeRate, User, insertExchangeRateSchema } from "@shared/schema";
+import { addMoney, convertMoney, MoneyValue } from "@shared/money";
+import { dateKey, findExchangeRate } from "@shared/currency";
+
+// Converts amounts into one currency using the rate table as loaded once, so a
+// page of totals sees a single consistent set of rates
+export type CurrencyConverter = {
+  currency: string;
+  convert(amount: MoneyValue, from: string, on?: string): string | undefined;
+};
+
+export async function createCurrencyConverter(currency: string): Promise<CurrencyConverter> {
+  const rates = await storage.getExchangeRates();
+
+  return {
+    currency,
+    convert(amount, from, on = dateKey()) {
+      const rate = findExchangeRate(rates, from, currency, on);
+      return rate === undefined ? undefined : convertMoney(amount, rate);
+    },
+  };
+}
+
+export async function getAccountTotals(user: User): Promise<AccountTotals> {
+  const accounts = (await storage.getBankAccountsByUserId(user.id)).filter(account => !account.closed);
+  const converter = await createCurrencyConverter(user.homeCurrency);
+  const missingRates = new Set<string>();
+  let total = "0.00";
+
+  for (const account of accounts) {
+    const converted = converter.convert(account.balance, account.currency);
+    if (converted === undefined) {
+      missingRates.add(account.currency);
+    } else {
+      total = addMoney(total, converted);
+    }
+  }
+
+  return { currency: user.homeCurrency, total, missingRates: Array.from(missingRates) };
+}
+
+// Uploads are CSV with a header row naming base, quote, rate and date
+// columns in any order, e.g. "base,quote,rate,date" then "EUR,USD,1.0845,2024-05-01"
+export function parseExchangeRateCsv(content: string): InsertExchangeRate[] {
+  const [header, ...records] = parseCsvRecords(content);
+  if (!header) {
+    throw new Error("The file is empty");
+  }
+
+  const columns = header.fields.map(field => field.toLowerCase());
+  const indexOf = (name: string) => {
+    const index = columns.indexOf(name);
+    if (index === -1) {
+      throw new Error(`Missing a "${name}" column; expected base, quote, rate and date`);
+    }
+    return index;
+  };
+  const base = indexOf("base");
+  const quote = indexOf("quote");
+  const rate = indexOf("rate");
+  const date = indexOf("date");
+
+  return records.map(record => {
+    const parsed = insertExchangeRateSchema.safeParse({
+      baseCurrency: record.fields[base],
+      quoteCurrency: record.fields[quote],
+      rate: record.fields[rate],
+      effectiveDate: record.fields[date],
+      source: "upload",
+    });
+    if (!parsed.success) {
+      throw new Error(`Line ${record.line}: ${parsed.error.issues[0].message}`);
+    }
+    return parsed.data;
+  });
+}
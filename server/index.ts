@@ -1,10 +1,15 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startRecurringScheduler } from "./recurring";
+import { startNetWorthScheduler } from "./net-worth";
+import { startAccountDeletionScheduler } from "./account-deletion";
+import { requestContext } from "./request-context";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "5mb" })); // statement imports send whole files
 app.use(express.urlencoded({ extended: false }));
+app.use(requestContext);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -63,5 +68,8 @@ app.use((req, res, next) => {
   const host = process.env.HOST || 'localhost';
   server.listen(port, host, () => {
     log(`Server running at http://${host}:${port}`);
+    startRecurringScheduler(count => log(`Posted ${count} recurring transaction(s)`, "scheduler"));
+    startNetWorthScheduler(count => log(`Recorded ${count} day(s) of net worth`, "scheduler"));
+    startAccountDeletionScheduler(count => log(`Erased ${count} deleted account(s)`, "scheduler"));
   });
 })();
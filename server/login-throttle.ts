@@ -0,0 +1,91 @@
+import { storage } from "./storage";
+import type { LoginThrottle, LoginThrottleScope, LoginThrottleState } from "@shared/schema";
+
+// Slows down password guessing. Failed sign-ins are counted per username and
+// per IP address: after a few free mistakes each further failure doubles the
+// wait before the next attempt, and enough of them lock sign-in out for a
+// while. A lockout ends by itself or when the password is changed. Every
+// function that reads the time takes `now`, so the policy can be checked
+// against a fixed clock.
+
+type ThrottlePolicy = {
+  freeFailures: number; // failures allowed before any wait
+  lockoutAfter: number; // failures that lock sign-in out
+};
+
+// An address is often shared, so it gets more room than a single username
+const policies: Record<LoginThrottleScope, ThrottlePolicy> = {
+  username: { freeFailures: 3, lockoutAfter: 10 },
+  ip: { freeFailures: 10, lockoutAfter: 50 },
+};
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+// Failures older than this are forgotten
+const WINDOW_MS = 60 * 60 * 1000;
+
+function usernameKey(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+// The scopes an attempt counts against, leaving out whichever is missing
+function keysFor(username: string, ip: string | undefined): [LoginThrottleScope, string][] {
+  const keys: [LoginThrottleScope, string][] = [];
+  if (usernameKey(username)) keys.push(["username", usernameKey(username)]);
+  if (ip) keys.push(["ip", ip]);
+  return keys;
+}
+
+// How long to refuse attempts after the given number of failures
+export function delayAfter(scope: LoginThrottleScope, failures: number): number {
+  const policy = policies[scope];
+  if (failures >= policy.lockoutAfter) return LOCKOUT_MS;
+  if (failures <= policy.freeFailures) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - policy.freeFailures - 1), MAX_DELAY_MS);
+}
+
+// Counts one more failure, starting over once the window has passed or a
+// lockout has run out
+export function nextThrottleState(
+  scope: LoginThrottleScope,
+  current: LoginThrottleState | undefined,
+  now = new Date()
+): LoginThrottleState {
+  const expired = !current?.lastFailedAt ||
+    now.getTime() - current.lastFailedAt.getTime() > WINDOW_MS ||
+    (current.failures >= policies[scope].lockoutAfter && (!current.blockedUntil || current.blockedUntil <= now));
+  const failures = (expired ? 0 : current.failures) + 1;
+  const delay = delayAfter(scope, failures);
+
+  return {
+    failures,
+    lastFailedAt: now,
+    blockedUntil: delay > 0 ? new Date(now.getTime() + delay) : null,
+  };
+}
+
+function remainingMs(throttle: LoginThrottle | undefined, now: Date): number {
+  if (!throttle?.blockedUntil) return 0;
+  return Math.max(throttle.blockedUntil.getTime() - now.getTime(), 0);
+}
+
+// Milliseconds until this username may try again from this address; 0 if it may now
+export async function loginRetryAfter(username: string, ip: string | undefined, now = new Date()): Promise<number> {
+  const waits = await Promise.all(
+    keysFor(username, ip).map(async ([scope, key]) => remainingMs(await storage.getLoginThrottle(scope, key), now))
+  );
+  return Math.max(0, ...waits);
+}
+
+export async function recordLoginFailure(username: string, ip: string | undefined, now = new Date()): Promise<void> {
+  for (const [scope, key] of keysFor(username, ip)) {
+    await storage.updateLoginThrottle(scope, key, current => nextThrottleState(scope, current, now));
+  }
+}
+
+// After a successful sign-in or a password change. The address keeps its
+// count, since one good password shouldn't excuse guesses at other accounts.
+export async function clearLoginFailures(username: string): Promise<void> {
+  await storage.clearLoginThrottle("username", usernameKey(username));
+}
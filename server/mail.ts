@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import type { MailMessage } from "@shared/schema";
+
+// Outgoing email goes through a single transport, picked with MAIL_TRANSPORT.
+// The default, "outbox", keeps each message in the email_outbox table (or in
+// memory with STORAGE_DRIVER=memory); "file" writes each one to MAIL_OUTBOX_DIR
+// as an .eml file any mail client can open. Neither needs a mail server, so
+// everything that sends mail works offline. Delivering through a provider only
+// takes another MailTransport.
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "NeuroBank <no-reply@neurobank.local>";
+
+export const outboxTransport: MailTransport = {
+  async send(message) {
+    await storage.queueEmail(message);
+  },
+};
+
+export function fileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+      const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomBytes(4).toString("hex")}.eml`;
+      await fs.writeFile(path.join(directory, name), toEml(message));
+    },
+  };
+}
+
+function toEml(message: MailMessage): string {
+  return [
+    `From: ${MAIL_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text,
+  ].join("\r\n");
+}
+
+let transport: MailTransport = process.env.MAIL_TRANSPORT === "file"
+  ? fileTransport(process.env.MAIL_OUTBOX_DIR || "outbox")
+  : outboxTransport;
+
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage) {
+  await transport.send(message);
+}
@@ -0,0 +1,185 @@
+import { storage } from "./storage";
+import {
+  BankAccount,
+  BankAccountType,
+  InsertAccountBalanceSnapshot,
+  InsertNetWorthSnapshot,
+  NetWorthHistory,
+  NetWorthRange,
+  Transaction,
+  User,
+} from "@shared/schema";
+import { addMoney, convertMoney, normalizeMoney, subtractMoney } from "@shared/money";
+import { dateKey, findExchangeRate } from "@shared/currency";
+
+// Snapshots are end-of-day (UTC) positions rebuilt from the ledger: an
+// account's balance on a day is its current balance with every transaction
+// dated after that day undone. That lets the first run backfill a user's
+// whole history, and lets any run fill days missed while the server was down.
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const liabilityTypes: BankAccountType[] = ["credit_card", "loan"];
+
+function isLiability(account: BankAccount): boolean {
+  return liabilityTypes.includes(account.type as BankAccountType);
+}
+
+// Every day from `from` through `to`, both "YYYY-MM-DD"
+function daysBetween(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let time = Date.parse(from); time <= Date.parse(to); time += DAY_MS) {
+    days.push(dateKey(new Date(time)));
+  }
+  return days;
+}
+
+// The day an account's history starts: when it was opened, or its earliest
+// transaction if older entries were imported into it
+function firstDayOf(account: BankAccount, ledger: Transaction[]): string {
+  return ledger.reduce(
+    (first, transaction) => {
+      const day = dateKey(transaction.date ?? undefined);
+      return day < first ? day : first;
+    },
+    dateKey(account.createdAt ?? undefined)
+  );
+}
+
+// End-of-day balances for each of the given days, oldest first
+function dailyBalances(account: BankAccount, ledger: Transaction[], days: string[]): string[] {
+  const newestFirst = ledger
+    .map(transaction => ({ day: dateKey(transaction.date ?? undefined), transaction }))
+    .sort((a, b) => b.day.localeCompare(a.day));
+  const balances: string[] = [];
+  let balance = normalizeMoney(account.balance);
+  let next = 0;
+
+  for (let i = days.length - 1; i >= 0; i--) {
+    for (; next < newestFirst.length && newestFirst[next].day > days[i]; next++) {
+      const { transaction } = newestFirst[next];
+      balance = transaction.type === "debit"
+        ? addMoney(balance, transaction.amount)
+        : subtractMoney(balance, transaction.amount);
+    }
+    balances[i] = balance;
+  }
+
+  return balances;
+}
+
+// Brings a user's snapshots up to date: every day from the latest one taken
+// (which may have been mid-day) through today, or their whole history the
+// first time and whenever their home currency has changed since. Returns how
+// many days were added.
+export async function recordNetWorthSnapshots(user: User, now = new Date()): Promise<number> {
+  const [accounts, ledger, latest, rates] = await Promise.all([
+    storage.getBankAccountsByUserId(user.id),
+    storage.getTransactionsByUserId(user.id),
+    storage.getLatestNetWorthSnapshot(user.id),
+    storage.getExchangeRates(),
+  ]);
+  if (accounts.length === 0) return 0;
+
+  const histories = accounts.map(account => {
+    const accountLedger = ledger.filter(transaction => transaction.accountId === account.id);
+    return { account, ledger: accountLedger, firstDay: firstDayOf(account, accountLedger) };
+  });
+
+  const today = dateKey(now);
+  const historyStart = histories.reduce((first, history) => (history.firstDay < first ? history.firstDay : first), today);
+  const from = latest && latest.currency === user.homeCurrency && latest.date > historyStart
+    ? latest.date
+    : historyStart;
+  const days = daysBetween(from, today);
+
+  const balances: InsertAccountBalanceSnapshot[] = [];
+  const totals = days.map(() => ({ assets: "0.00", liabilities: "0.00", missingRates: new Set<string>() }));
+
+  for (const { account, ledger: accountLedger, firstDay } of histories) {
+    // The account's days are the tail of the user's, from when it was opened
+    const accountDays = days.filter(day => day >= firstDay);
+    const offset = days.length - accountDays.length;
+
+    dailyBalances(account, accountLedger, accountDays).forEach((balance, index) => {
+      balances.push({ accountId: account.id, userId: user.id, date: accountDays[index], balance });
+
+      const total = totals[offset + index];
+      const rate = findExchangeRate(rates, account.currency, user.homeCurrency, accountDays[index]);
+      if (rate === undefined) {
+        total.missingRates.add(account.currency);
+      } else if (isLiability(account)) {
+        // Liability balances are negative while money is owed
+        total.liabilities = subtractMoney(total.liabilities, convertMoney(balance, rate));
+      } else {
+        total.assets = addMoney(total.assets, convertMoney(balance, rate));
+      }
+    });
+  }
+
+  const snapshots: InsertNetWorthSnapshot[] = days.map((day, index) => {
+    const { assets, liabilities, missingRates } = totals[index];
+    return {
+      userId: user.id,
+      date: day,
+      currency: user.homeCurrency,
+      assets,
+      liabilities,
+      netWorth: subtractMoney(assets, liabilities),
+      missingRates: Array.from(missingRates).sort(),
+    };
+  });
+
+  await storage.saveNetWorthSnapshots(snapshots, balances);
+  return from === latest?.date ? days.length - 1 : days.length;
+}
+
+export function rangeStart(range: NetWorthRange, now = new Date()): string | undefined {
+  const months = { "1m": 1, "3m": 3, "6m": 6, "1y": 12, "all": undefined }[range];
+  if (months === undefined) return undefined;
+
+  return dateKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months, now.getUTCDate())));
+}
+
+export async function getNetWorthHistory(user: User, range: NetWorthRange, now = new Date()): Promise<NetWorthHistory> {
+  // Catch up first so the history always ends with today
+  await recordNetWorthSnapshots(user, now);
+
+  const from = rangeStart(range, now);
+  const [snapshots, accounts] = await Promise.all([
+    storage.getNetWorthSnapshots(user.id, from),
+    storage.getAccountBalanceSnapshots(user.id, from),
+  ]);
+
+  return { currency: user.homeCurrency, range, snapshots, accounts };
+}
+
+// Runs once at startup, backfilling anyone without history yet, then hourly
+// so each day's snapshot ends up reflecting its closing balances
+export function startNetWorthScheduler(onRecorded?: (count: number) => void): NodeJS.Timeout {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      let recorded = 0;
+      for (const user of await storage.getUsers()) {
+        try {
+          recorded += await recordNetWorthSnapshots(user);
+        } catch (error) {
+          console.error(`Error recording net worth for user ${user.id}:`, error);
+        }
+      }
+      if (recorded > 0) onRecorded?.(recorded);
+    } catch (error) {
+      console.error("Error recording net worth snapshots:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  return setInterval(tick, SCHEDULER_INTERVAL_MS);
+}
@@ -6,16 +6,22 @@ import {
   SavingGoal, 
   JournalEntry 
 } from "@shared/schema";
+import { addMoney, compareMoney, formatCurrency, percentOf } from "@shared/money";
+import { dateKey } from "@shared/currency";
+import type { CurrencyConverter } from "./exchange-rates";
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
 const MODEL = "gpt-4o";
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || "dummy-key-for-development" });
 
+// Transactions and journal entries are null when the user's privacy settings
+// keep them from the advisor; the prompt then leaves out what they'd inform
 interface FinancialContext {
   accounts: BankAccount[];
-  transactions: Transaction[];
+  transactions: Transaction[] | null;
   goals: SavingGoal[];
-  journalEntries: JournalEntry[];
+  journalEntries: JournalEntry[] | null;
+  converter: CurrencyConverter; // into the user's home currency
 }
 
 export async function generateFinancialAdvice(
@@ -25,7 +31,7 @@ export async function generateFinancialAdvice(
 ): Promise<string> {
   try {
     // Prepare recent transactions data
-    const recentTransactions = context.transactions.slice(0, 10).map(transaction => ({
+    const recentTransactions = (context.transactions ?? []).slice(0, 10).map(transaction => ({
       amount: transaction.amount,
       description: transaction.description,
       category: transaction.category,
@@ -35,32 +41,39 @@ export async function generateFinancialAdvice(
     }));
 
     // Prepare recent journal entries to understand emotional context
-    const recentJournalEntries = context.journalEntries.slice(0, 5).map(entry => ({
+    const recentJournalEntries = (context.journalEntries ?? []).slice(0, 5).map(entry => ({
       mood: entry.mood,
       date: entry.date
     }));
 
+    // Accounts can be in different currencies, so amounts are converted into
+    // the home currency before they are added up; any without a rate are left out
+    const { converter } = context;
+    const currencyOf = new Map<number, string>(context.accounts.map(account => [account.id, account.currency]));
+    const format = (amount: string) => formatCurrency(amount, converter.currency);
+
     // Calculate spending by category
-    const spendingByCategory: Record<string, number> = {};
-    context.transactions.forEach(transaction => {
+    const spendingByCategory: Record<string, string> = {};
+    (context.transactions ?? []).forEach(transaction => {
       if (transaction.type === 'debit' && transaction.category) {
         const category = transaction.category;
-        const amount = parseFloat(transaction.amount.toString());
-        spendingByCategory[category] = (spendingByCategory[category] || 0) + amount;
+        const currency = currencyOf.get(transaction.accountId) ?? converter.currency;
+        const amount = converter.convert(transaction.amount, currency, dateKey(transaction.date ?? undefined));
+        if (amount === undefined) return;
+        spendingByCategory[category] = addMoney(spendingByCategory[category] || 0, amount);
       }
     });
 
     // Calculate total balance
-    const totalBalance = context.accounts.reduce(
-      (sum, account) => sum + parseFloat(account.balance.toString()),
-      0
-    );
+    const totalBalance = context.accounts
+      .filter(account => !account.closed)
+      .reduce((total, account) => addMoney(total, converter.convert(account.balance, account.currency) ?? 0), "0.00");
 
     // Calculate savings progress
     const savingsProgress = context.goals.map(goal => {
-      const targetAmount = parseFloat(goal.targetAmount.toString());
-      const currentAmount = parseFloat(goal.currentAmount.toString());
-      const progressPercentage = (currentAmount / targetAmount) * 100;
+      const targetAmount = goal.targetAmount;
+      const currentAmount = goal.currentAmount;
+      const progressPercentage = percentOf(currentAmount, targetAmount);
       
       return {
         name: goal.name,
@@ -88,6 +101,22 @@ export async function generateFinancialAdvice(
       }
     }
 
+    // Only what the user's privacy settings let the advisor see
+    const contextLines = [`- Total account balance: ${format(totalBalance)}`];
+    if (context.journalEntries) {
+      contextLines.push(`- Recent emotional state: ${primaryMood}`);
+    }
+    if (context.transactions) {
+      const topCategories = Object.entries(spendingByCategory)
+        .sort((a, b) => compareMoney(b[1], a[1]))
+        .slice(0, 3)
+        .map(([category, amount]) => `${category} (${format(amount)})`);
+      contextLines.push(`- Top spending categories: ${topCategories.join(', ')}`);
+    }
+    contextLines.push(`- Savings goals: ${savingsProgress.map(goal =>
+      `${goal.name} (${goal.progressPercentage.toFixed(1)}% complete, ${format(goal.currentAmount)} of ${format(goal.targetAmount)})`
+    ).join(', ')}`);
+
     // Construct prompt for the AI
     const prompt = `
       You are a compassionate and intelligent financial advisor for NeuroBank, a financial wellness platform. 
@@ -96,16 +125,7 @@ export async function generateFinancialAdvice(
       User's question: "${query}"
       
       USER FINANCIAL CONTEXT:
-      - Total account balance: $${totalBalance.toFixed(2)}
-      - Recent emotional state: ${primaryMood}
-      - Top spending categories: ${Object.entries(spendingByCategory)
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 3)
-        .map(([category, amount]) => `${category} ($${amount.toFixed(2)})`)
-        .join(', ')}
-      - Savings goals: ${savingsProgress.map(goal => 
-        `${goal.name} (${goal.progressPercentage.toFixed(1)}% complete, $${goal.currentAmount} of $${goal.targetAmount})`
-      ).join(', ')}
+      ${contextLines.join("\n      ")}
       
       Please provide personalized financial advice based on the user's question and financial context.
       Your response should be:
@@ -0,0 +1,155 @@
+import { storage } from "./storage";
+import { InsertRecurringTransaction, RecurringTransaction, Transaction } from "@shared/schema";
+import { firstOccurrence, nextOccurrence } from "@shared/recurrence";
+
+// A schedule's nextRunAt is the earliest due date it hasn't posted or skipped.
+// Every posting is tagged with the due date it covers, and storage refuses a
+// second posting for the same date, so catching up after downtime, a crash
+// between posting and advancing, or two servers racing never double-post.
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+function followingRun(recurring: RecurringTransaction): Date {
+  return nextOccurrence(recurring.rule, recurring.startDate, recurring.nextRunAt);
+}
+
+export function isFinished(recurring: RecurringTransaction): boolean {
+  return recurring.endDate !== null && recurring.nextRunAt > recurring.endDate;
+}
+
+// A closed account can't be posted to, so schedules on one would only fail
+async function assertAccountOpen(accountId: number) {
+  const account = await storage.getBankAccount(accountId);
+  if (account?.closed) {
+    throw new Error(`${account.name} is closed; reopen it to schedule payments on it`);
+  }
+}
+
+export async function createRecurringTransaction(insert: InsertRecurringTransaction): Promise<RecurringTransaction> {
+  await assertAccountOpen(insert.accountId);
+  return await storage.createRecurringTransaction({
+    ...insert,
+    nextRunAt: firstOccurrence(insert.rule, insert.startDate),
+  });
+}
+
+// Posts the occurrence due at scheduledFor, unless it already has been
+async function postOccurrence(
+  recurring: RecurringTransaction,
+  scheduledFor: Date,
+  date: Date
+): Promise<Transaction | undefined> {
+  if (await storage.getRecurringPosting(recurring.id, scheduledFor)) return undefined;
+
+  try {
+    return await storage.createTransaction({
+      accountId: recurring.accountId,
+      amount: recurring.amount,
+      description: recurring.description,
+      category: recurring.category,
+      merchant: recurring.merchant,
+      type: recurring.type,
+      date,
+      recurringTransactionId: recurring.id,
+      scheduledFor,
+    });
+  } catch (error) {
+    // Another run posted it between the check and the insert
+    if (await storage.getRecurringPosting(recurring.id, scheduledFor)) return undefined;
+    throw error;
+  }
+}
+
+// Posts every occurrence due by `now`, each dated on its due date
+export async function runDueRecurringTransactions(now = new Date()): Promise<Transaction[]> {
+  const posted: Transaction[] = [];
+
+  for (let recurring of await storage.getDueRecurringTransactions(now)) {
+    try {
+      // Retrying wouldn't help until the account is reopened, so pause the
+      // schedule; resuming checks the account again
+      const account = await storage.getBankAccount(recurring.accountId);
+      if (!account || account.closed) {
+        await pauseRecurringTransaction(recurring);
+        continue;
+      }
+
+      while (recurring.nextRunAt <= now && !isFinished(recurring)) {
+        const transaction = await postOccurrence(recurring, recurring.nextRunAt, recurring.nextRunAt);
+        if (transaction) posted.push(transaction);
+
+        const advanced = await storage.updateRecurringTransaction(recurring.id, { nextRunAt: followingRun(recurring) });
+        if (!advanced) break;
+        recurring = advanced;
+      }
+    } catch (error) {
+      // Leave nextRunAt where it is so the next run retries this occurrence
+      console.error(`Error posting recurring transaction ${recurring.id}:`, error);
+    }
+  }
+
+  return posted;
+}
+
+// Posts the next occurrence immediately instead of on its due date
+export async function postRecurringNow(recurring: RecurringTransaction, now = new Date()): Promise<Transaction | undefined> {
+  if (recurring.paused) {
+    throw new Error("Resume this schedule before posting from it");
+  }
+  if (isFinished(recurring)) {
+    throw new Error("This schedule has no occurrences left");
+  }
+
+  const transaction = await postOccurrence(recurring, recurring.nextRunAt, now);
+  await storage.updateRecurringTransaction(recurring.id, { nextRunAt: followingRun(recurring) });
+  return transaction;
+}
+
+// Moves past the next occurrence without posting it
+export async function skipRecurringOccurrence(recurring: RecurringTransaction): Promise<RecurringTransaction | undefined> {
+  if (isFinished(recurring)) {
+    throw new Error("This schedule has no occurrences left");
+  }
+
+  return await storage.updateRecurringTransaction(recurring.id, { nextRunAt: followingRun(recurring) });
+}
+
+export async function pauseRecurringTransaction(recurring: RecurringTransaction): Promise<RecurringTransaction | undefined> {
+  return await storage.updateRecurringTransaction(recurring.id, { paused: true });
+}
+
+// Occurrences that fell due while paused are skipped rather than caught up
+export async function resumeRecurringTransaction(
+  recurring: RecurringTransaction,
+  now = new Date()
+): Promise<RecurringTransaction | undefined> {
+  await assertAccountOpen(recurring.accountId);
+
+  const nextRunAt = recurring.nextRunAt < now
+    ? nextOccurrence(recurring.rule, recurring.startDate, new Date(now.getTime() - 1))
+    : recurring.nextRunAt;
+
+  return await storage.updateRecurringTransaction(recurring.id, { paused: false, nextRunAt });
+}
+
+// Runs once at startup, catching up anything missed while the server was down,
+// then every minute
+export function startRecurringScheduler(onPosted?: (count: number) => void): NodeJS.Timeout {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const posted = await runDueRecurringTransactions();
+      if (posted.length > 0) onPosted?.(posted.length);
+    } catch (error) {
+      console.error("Error running recurring transactions:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  return setInterval(tick, SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+// Who is making the current request and from where, available anywhere below
+// the route handler (storage in particular) without threading it through
+// every call. Work outside a request, such as the schedulers, has none.
+
+export type RequestContext = {
+  requestId: string | null;
+  ip: string | null;
+  actorId: number | null;
+};
+
+const store = new AsyncLocalStorage<Request>();
+
+// Callers may pass their own id to correlate with their logs
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,64}$/;
+
+// Safe to mount more than once: later mounts keep the request's id and only
+// re-enter its context, which callback-based middleware can drop
+export function requestContext(req: Request, res: Response, next: NextFunction) {
+  if (!res.locals.requestId) {
+    const incoming = req.get("X-Request-Id");
+    res.locals.requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+    res.setHeader("X-Request-Id", res.locals.requestId);
+  }
+  store.run(req, next);
+}
+
+// The actor is read when asked for, since passport only sets req.user after
+// this middleware has run and login changes it mid-request
+export function currentRequestContext(): RequestContext {
+  const req = store.getStore();
+  if (!req) return { requestId: null, ip: null, actorId: null };
+
+  return {
+    requestId: req.res?.locals.requestId ?? null,
+    ip: req.ip ?? null,
+    actorId: req.user?.id ?? null,
+  };
+}
@@ -3,15 +3,49 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
 import { generateFinancialAdvice } from "./openai";
+import { currentMonth, getBudgetProgress } from "./budgets";
+import {
+  createRecurringTransaction,
+  pauseRecurringTransaction,
+  postRecurringNow,
+  resumeRecurringTransaction,
+  skipRecurringOccurrence
+} from "./recurring";
+import { importStatement, previewStatement } from "./statements";
+import { createUserExport } from "./data-export";
+import { createCurrencyConverter, getAccountTotals, parseExchangeRateCsv } from "./exchange-rates";
+import { getNetWorthHistory } from "./net-worth";
+import { authenticateApiToken, bearerToken, createApiToken, toPublicApiToken } from "./api-tokens";
 import { 
   insertBankAccountSchema, 
+  updateBankAccountSchema,
   insertTransactionSchema, 
+  updateTransactionSchema,
   insertSavingGoalSchema, 
+  insertGoalContributionSchema,
+  updateSavingGoalSchema,
+  insertBudgetSchema,
+  updateBudgetSchema,
+  budgetMonthSchema,
+  insertCategoryRuleSchema,
+  updateCategoryRuleSchema,
+  insertRecurringTransactionSchema,
   insertJournalEntrySchema, 
   insertAiAdviceSchema,
+  insertExchangeRateSchema,
+  homeCurrencySchema,
+  netWorthHistoryQuerySchema,
+  auditQuerySchema,
+  outboxQuerySchema,
+  createApiTokenSchema,
+  updatePrivacyPreferencesSchema,
+  transactionQuerySchema,
+  statementImportSchema,
   User,
-  TransferData
+  TransferData,
+  ApiTokenScope
 } from "@shared/schema";
+import { compareMoney, positiveMoneySchema } from "@shared/money";
 import { z } from "zod";
 
 // Helper middleware to ensure user is authenticated
@@ -22,12 +56,70 @@ const ensureAuthenticated = (req: any, res: any, next: any) => {
   return res.status(401).json({ message: "Unauthorized" });
 };
 
+// For routes scripts may call as well. A signed-in browser passes as with
+// ensureAuthenticated; a request with an Authorization header is judged by
+// its API token alone and needs the given scope. Routes that only use
+// ensureAuthenticated never accept a token.
+const ensureScope = (scope: ApiTokenScope) => async (req: any, res: any, next: any) => {
+  const authorization = req.get("Authorization");
+  if (!authorization) {
+    return ensureAuthenticated(req, res, next);
+  }
+
+  try {
+    const token = bearerToken(authorization);
+    const result = token
+      ? await authenticateApiToken(token, req.ip ?? null)
+      : { error: "Send the API token as Authorization: Bearer <token>" };
+    if ("error" in result) {
+      res.setHeader("WWW-Authenticate", 'Bearer error="invalid_token"');
+      return res.status(401).json({ message: result.error });
+    }
+    if (!result.token.scopes.includes(scope)) {
+      res.setHeader("WWW-Authenticate", `Bearer error="insufficient_scope", scope="${scope}"`);
+      return res.status(403).json({ message: `This API token doesn't have the ${scope} scope` });
+    }
+
+    req.user = result.user;
+    return next();
+  } catch (error) {
+    return res.status(500).json({ message: "Failed to check API token", error: (error as Error).message });
+  }
+};
+
+// For routes that change data shared by all users; use after ensureAuthenticated
+const ensureAdmin = (req: any, res: any, next: any) => {
+  if ((req.user as User).isAdmin) {
+    return next();
+  }
+  return res.status(403).json({ message: "Only admins can do this" });
+};
+
+// Looks up a transaction only if it was posted to one of the user's accounts
+const getUserTransaction = async (user: User, transactionId: number) => {
+  const transaction = await storage.getTransaction(transactionId);
+  if (!transaction) return undefined;
+
+  const account = await storage.getBankAccount(transaction.accountId);
+  return account?.userId === user.id ? transaction : undefined;
+};
+
+const getUserBankAccount = async (user: User, accountId: number) => {
+  const account = await storage.getBankAccount(accountId);
+  return account?.userId === user.id ? account : undefined;
+};
+
+const getUserRecurringTransaction = async (user: User, recurringId: number) => {
+  const recurring = await storage.getRecurringTransaction(recurringId);
+  return recurring?.userId === user.id ? recurring : undefined;
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication routes
   setupAuth(app);
 
   // Bank Account Routes
-  app.get("/api/accounts", ensureAuthenticated, async (req, res) => {
+  app.get("/api/accounts", ensureScope("accounts:read"), async (req, res) => {
     try {
       const user = req.user as User;
       const accounts = await storage.getBankAccountsByUserId(user.id);
@@ -37,7 +129,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/accounts", ensureAuthenticated, async (req, res) => {
+  app.post("/api/accounts", ensureScope("accounts:write"), async (req, res) => {
     try {
       const user = req.user as User;
       const parsedData = insertBankAccountSchema.parse({
@@ -52,18 +144,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/accounts/totals", ensureScope("accounts:read"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const totals = await getAccountTotals(user);
+      res.json(totals);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch account totals", error: (error as Error).message });
+    }
+  });
+
+  app.patch("/api/accounts/:accountId", ensureScope("accounts:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const account = await getUserBankAccount(user, parseInt(req.params.accountId));
+      if (!account) {
+        return res.status(403).json({ message: "You don't have access to this account" });
+      }
+      
+      // Type-specific fields are checked against the account's type
+      const changes = updateBankAccountSchema.parse(req.body);
+      insertBankAccountSchema.parse({ ...account, ...changes });
+      
+      const updated = await storage.updateBankAccount(account.id, changes);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update account", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/accounts/:accountId/close", ensureScope("accounts:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const account = await getUserBankAccount(user, parseInt(req.params.accountId));
+      if (!account) {
+        return res.status(403).json({ message: "You don't have access to this account" });
+      }
+      
+      const closed = await storage.closeBankAccount(account.id);
+      res.json(closed);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to close account", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/accounts/:accountId/reopen", ensureScope("accounts:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const account = await getUserBankAccount(user, parseInt(req.params.accountId));
+      if (!account) {
+        return res.status(403).json({ message: "You don't have access to this account" });
+      }
+      
+      const reopened = await storage.updateBankAccount(account.id, { closed: false });
+      res.json(reopened);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to reopen account", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/accounts/:accountId", ensureScope("accounts:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const account = await getUserBankAccount(user, parseInt(req.params.accountId));
+      if (!account) {
+        return res.status(403).json({ message: "You don't have access to this account" });
+      }
+      
+      const deleted = await storage.deleteBankAccount(account.id);
+      res.json(deleted);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to delete account", error: (error as Error).message });
+    }
+  });
+
   // Transaction Routes
-  app.get("/api/transactions", ensureAuthenticated, async (req, res) => {
+  app.get("/api/transactions", ensureScope("transactions:read"), async (req, res) => {
     try {
       const user = req.user as User;
-      const transactions = await storage.getTransactionsByUserId(user.id);
-      res.json(transactions);
+      const parsedQuery = transactionQuerySchema.safeParse(req.query);
+
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid transaction query", error: parsedQuery.error.message });
+      }
+
+      // Verify that the account filter, if any, belongs to the user
+      if (parsedQuery.data.accountId !== undefined) {
+        const accounts = await storage.getBankAccountsByUserId(user.id);
+        const isUserAccount = accounts.some(account => account.id === parsedQuery.data.accountId);
+
+        if (!isUserAccount) {
+          return res.status(403).json({ message: "You don't have access to this account" });
+        }
+      }
+
+      const page = await storage.queryTransactions(user.id, parsedQuery.data);
+      res.json(page);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch transactions", error: (error as Error).message });
     }
   });
 
-  app.get("/api/accounts/:accountId/transactions", ensureAuthenticated, async (req, res) => {
+  app.get("/api/accounts/:accountId/transactions", ensureScope("transactions:read"), async (req, res) => {
     try {
       const user = req.user as User;
       const accountId = parseInt(req.params.accountId);
@@ -83,7 +265,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/transactions", ensureAuthenticated, async (req, res) => {
+  // Statement import: preview first, then commit the same file
+  app.post("/api/accounts/:accountId/import/preview", ensureScope("transactions:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const input = statementImportSchema.parse(req.body);
+      
+      // Verify that the account belongs to the user
+      const account = await storage.getBankAccount(parseInt(req.params.accountId));
+      if (!account || account.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this account" });
+      }
+      
+      const preview = await previewStatement(account, input);
+      res.json(preview);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to read statement", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/accounts/:accountId/import", ensureScope("transactions:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const input = statementImportSchema.parse(req.body);
+      
+      // Verify that the account belongs to the user
+      const account = await storage.getBankAccount(parseInt(req.params.accountId));
+      if (!account || account.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this account" });
+      }
+      
+      const result = await importStatement(account, input);
+      res.status(201).json(result);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to import statement", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/transactions", ensureScope("transactions:write"), async (req, res) => {
     try {
       const user = req.user as User;
       const parsedData = insertTransactionSchema.parse(req.body);
@@ -103,14 +322,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/transfer", ensureAuthenticated, async (req, res) => {
+  app.patch("/api/transactions/:transactionId", ensureScope("transactions:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const transactionId = parseInt(req.params.transactionId);
+      const changes = updateTransactionSchema.parse(req.body);
+      
+      const transaction = await getUserTransaction(user, transactionId);
+      if (!transaction) {
+        return res.status(403).json({ message: "You don't have access to this transaction" });
+      }
+      
+      const updatedTransaction = await storage.updateTransaction(transactionId, changes);
+      res.json(updatedTransaction);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update transaction", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/transactions/:transactionId", ensureScope("transactions:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const transactionId = parseInt(req.params.transactionId);
+      
+      const transaction = await getUserTransaction(user, transactionId);
+      if (!transaction) {
+        return res.status(403).json({ message: "You don't have access to this transaction" });
+      }
+      
+      // Deleting one leg of a transfer removes both
+      const deletedTransactions = await storage.deleteTransaction(transactionId);
+      res.json(deletedTransactions);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to delete transaction", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/transactions/:transactionId/reverse", ensureScope("transactions:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const transactionId = parseInt(req.params.transactionId);
+      
+      const transaction = await getUserTransaction(user, transactionId);
+      if (!transaction) {
+        return res.status(403).json({ message: "You don't have access to this transaction" });
+      }
+      
+      // Reversing one leg of a transfer reverses both
+      const reversals = await storage.reverseTransaction(transactionId);
+      res.status(201).json(reversals);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to reverse transaction", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/transfer", ensureScope("transactions:write"), async (req, res) => {
     try {
       const user = req.user as User;
       
       const transferSchema = z.object({
         fromAccountId: z.number(),
         toAccountId: z.number(),
-        amount: z.string(),
+        amount: positiveMoneySchema,
         description: z.string()
       });
       
@@ -125,6 +398,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You don't have access to one or both accounts" });
       }
       
+      if (parsedData.fromAccountId === parsedData.toAccountId) {
+        return res.status(400).json({ message: "Choose two different accounts to transfer between" });
+      }
+      
       // Convert to TransferData
       const transferData: TransferData = {
         fromAccountId: parsedData.fromAccountId,
@@ -141,7 +418,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Saving Goal Routes
-  app.get("/api/goals", ensureAuthenticated, async (req, res) => {
+  app.get("/api/goals", ensureScope("goals:read"), async (req, res) => {
     try {
       const user = req.user as User;
       const goals = await storage.getSavingGoalsByUserId(user.id);
@@ -151,7 +428,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/goals", ensureAuthenticated, async (req, res) => {
+  app.post("/api/goals", ensureScope("goals:write"), async (req, res) => {
     try {
       const user = req.user as User;
       const parsedData = insertSavingGoalSchema.parse({
@@ -166,16 +443,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/goals/:goalId", ensureAuthenticated, async (req, res) => {
+  app.patch("/api/goals/:goalId", ensureScope("goals:write"), async (req, res) => {
     try {
       const user = req.user as User;
       const goalId = parseInt(req.params.goalId);
+      const changes = updateSavingGoalSchema.parse(req.body);
       
-      const schema = z.object({
-        amount: z.string()
-      });
+      // Verify that the goal belongs to the user
+      const goal = await storage.getSavingGoal(goalId);
+      if (!goal || goal.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this goal" });
+      }
       
-      const { amount } = schema.parse(req.body);
+      const updatedGoal = await storage.updateSavingGoal(goalId, changes);
+      res.json(updatedGoal);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update goal", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/goals/:goalId", ensureScope("goals:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const goalId = parseInt(req.params.goalId);
       
       // Verify that the goal belongs to the user
       const goal = await storage.getSavingGoal(goalId);
@@ -183,15 +473,529 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You don't have access to this goal" });
       }
       
-      const updatedGoal = await storage.updateSavingGoal(goalId, amount);
+      const deletedGoal = await storage.deleteSavingGoal(goalId);
+      res.json(deletedGoal);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to delete goal", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/goals/:goalId/archive", ensureScope("goals:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const goalId = parseInt(req.params.goalId);
+      
+      // Verify that the goal belongs to the user
+      const goal = await storage.getSavingGoal(goalId);
+      if (!goal || goal.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this goal" });
+      }
+      
+      const updatedGoal = await storage.updateSavingGoal(goalId, { archived: true });
+      res.json(updatedGoal);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to archive goal", error: (error as Error).message });
+    }
+  });
+
+  // Makes an archived or completed goal active again; a completed goal needs a higher target
+  app.post("/api/goals/:goalId/reopen", ensureScope("goals:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const goalId = parseInt(req.params.goalId);
+      const { targetAmount } = updateSavingGoalSchema.pick({ targetAmount: true }).parse(req.body ?? {});
+      
+      // Verify that the goal belongs to the user
+      const goal = await storage.getSavingGoal(goalId);
+      if (!goal || goal.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this goal" });
+      }
+      
+      if (compareMoney(goal.currentAmount, targetAmount ?? goal.targetAmount) >= 0) {
+        throw new Error("This goal has reached its target; raise the target to reopen it");
+      }
+      
+      const updatedGoal = await storage.updateSavingGoal(goalId, { archived: false, targetAmount });
       res.json(updatedGoal);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to reopen goal", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/goals/:goalId/contributions", ensureScope("goals:read"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const goalId = parseInt(req.params.goalId);
+      
+      // Verify that the goal belongs to the user
+      const goal = await storage.getSavingGoal(goalId);
+      if (!goal || goal.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this goal" });
+      }
+      
+      const contributions = await storage.getGoalContributions(goalId);
+      res.json(contributions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch goal contributions", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/goals/:goalId/contributions", ensureScope("goals:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const goalId = parseInt(req.params.goalId);
+      const parsedData = insertGoalContributionSchema.parse({
+        ...req.body,
+        goalId
+      });
+      
+      // Verify that the goal and the account belong to the user
+      const goal = await storage.getSavingGoal(goalId);
+      if (!goal || goal.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this goal" });
+      }
+      
+      const account = await storage.getBankAccount(parsedData.accountId);
+      if (!account || account.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this account" });
+      }
+      
+      // Goals are saved in the home currency, so they're funded from accounts in it
+      if (account.currency !== user.homeCurrency) {
+        return res.status(400).json({
+          message: "Failed to update goal",
+          error: `Savings goals are kept in ${user.homeCurrency}; choose a ${user.homeCurrency} account`
+        });
+      }
+      
+      // Deposits and withdrawals both recompute progress, so completion follows the balance
+      const result = await storage.addGoalContribution(parsedData);
+      res.status(201).json(result);
     } catch (error) {
       res.status(400).json({ message: "Failed to update goal", error: (error as Error).message });
     }
   });
 
+  // Budget Routes
+  app.get("/api/budgets", ensureScope("budgets:read"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const budgets = await storage.getBudgetsByUserId(user.id);
+      res.json(budgets);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch budgets", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/budgets/progress", ensureScope("budgets:read"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const parsedMonth = budgetMonthSchema.optional().safeParse(req.query.month);
+      
+      if (!parsedMonth.success) {
+        return res.status(400).json({ message: "Invalid month", error: parsedMonth.error.message });
+      }
+      
+      const progress = await getBudgetProgress(user, parsedMonth.data ?? currentMonth());
+      res.json(progress);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch budget progress", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/budgets", ensureScope("budgets:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const parsedData = insertBudgetSchema.parse({
+        ...req.body,
+        userId: user.id
+      });
+      
+      const budget = await storage.createBudget(parsedData);
+      res.status(201).json(budget);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create budget", error: (error as Error).message });
+    }
+  });
+
+  app.patch("/api/budgets/:budgetId", ensureScope("budgets:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const budgetId = parseInt(req.params.budgetId);
+      const changes = updateBudgetSchema.parse(req.body);
+      
+      // Verify that the budget belongs to the user
+      const budget = await storage.getBudget(budgetId);
+      if (!budget || budget.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this budget" });
+      }
+      
+      const updatedBudget = await storage.updateBudget(budgetId, changes);
+      res.json(updatedBudget);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update budget", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/budgets/:budgetId", ensureScope("budgets:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const budgetId = parseInt(req.params.budgetId);
+      
+      // Verify that the budget belongs to the user
+      const budget = await storage.getBudget(budgetId);
+      if (!budget || budget.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this budget" });
+      }
+      
+      const deletedBudget = await storage.deleteBudget(budgetId);
+      res.json(deletedBudget);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to delete budget", error: (error as Error).message });
+    }
+  });
+
+  // Category Rule Routes
+  app.get("/api/category-rules", ensureScope("transactions:read"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const rules = await storage.getCategoryRulesByUserId(user.id);
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch category rules", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/category-rules", ensureScope("transactions:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const parsedData = insertCategoryRuleSchema.parse({
+        ...req.body,
+        userId: user.id
+      });
+      
+      const rule = await storage.createCategoryRule(parsedData);
+      res.status(201).json(rule);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create category rule", error: (error as Error).message });
+    }
+  });
+
+  // Re-runs the rules over past transactions; declared before /:ruleId routes
+  app.post("/api/category-rules/apply", ensureScope("transactions:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const updated = await storage.applyCategoryRules(user.id);
+      res.json({ updated });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to apply category rules", error: (error as Error).message });
+    }
+  });
+
+  app.patch("/api/category-rules/:ruleId", ensureScope("transactions:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const ruleId = parseInt(req.params.ruleId);
+      const changes = updateCategoryRuleSchema.parse(req.body);
+      
+      // Verify that the rule belongs to the user
+      const rule = await storage.getCategoryRule(ruleId);
+      if (!rule || rule.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this category rule" });
+      }
+      
+      // The pattern and amount range must still make sense once merged with the stored rule
+      insertCategoryRuleSchema.parse({ ...rule, ...changes });
+      
+      const updatedRule = await storage.updateCategoryRule(ruleId, changes);
+      res.json(updatedRule);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update category rule", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/category-rules/:ruleId", ensureScope("transactions:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const ruleId = parseInt(req.params.ruleId);
+      
+      // Verify that the rule belongs to the user
+      const rule = await storage.getCategoryRule(ruleId);
+      if (!rule || rule.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this category rule" });
+      }
+      
+      // Transactions it already categorized keep their category
+      const deletedRule = await storage.deleteCategoryRule(ruleId);
+      res.json(deletedRule);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to delete category rule", error: (error as Error).message });
+    }
+  });
+
+  // Recurring Transaction Routes
+  app.get("/api/recurring", ensureScope("recurring:read"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const schedules = await storage.getRecurringTransactionsByUserId(user.id);
+      res.json(schedules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch recurring transactions", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/recurring", ensureScope("recurring:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const parsedData = insertRecurringTransactionSchema.parse({
+        ...req.body,
+        userId: user.id
+      });
+      
+      // Verify that the account belongs to the user
+      const account = await storage.getBankAccount(parsedData.accountId);
+      if (!account || account.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this account" });
+      }
+      
+      const recurring = await createRecurringTransaction(parsedData);
+      res.status(201).json(recurring);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create recurring transaction", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/recurring/:recurringId", ensureScope("recurring:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const recurring = await getUserRecurringTransaction(user, parseInt(req.params.recurringId));
+      if (!recurring) {
+        return res.status(403).json({ message: "You don't have access to this recurring transaction" });
+      }
+      
+      // Transactions it already posted stay in the ledger
+      const deleted = await storage.deleteRecurringTransaction(recurring.id);
+      res.json(deleted);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to delete recurring transaction", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/recurring/:recurringId/skip", ensureScope("recurring:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const recurring = await getUserRecurringTransaction(user, parseInt(req.params.recurringId));
+      if (!recurring) {
+        return res.status(403).json({ message: "You don't have access to this recurring transaction" });
+      }
+      
+      const updated = await skipRecurringOccurrence(recurring);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to skip occurrence", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/recurring/:recurringId/pause", ensureScope("recurring:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const recurring = await getUserRecurringTransaction(user, parseInt(req.params.recurringId));
+      if (!recurring) {
+        return res.status(403).json({ message: "You don't have access to this recurring transaction" });
+      }
+      
+      const updated = await pauseRecurringTransaction(recurring);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to pause recurring transaction", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/recurring/:recurringId/resume", ensureScope("recurring:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const recurring = await getUserRecurringTransaction(user, parseInt(req.params.recurringId));
+      if (!recurring) {
+        return res.status(403).json({ message: "You don't have access to this recurring transaction" });
+      }
+      
+      const updated = await resumeRecurringTransaction(recurring);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to resume recurring transaction", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/recurring/:recurringId/post-now", ensureScope("recurring:write"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const recurring = await getUserRecurringTransaction(user, parseInt(req.params.recurringId));
+      if (!recurring) {
+        return res.status(403).json({ message: "You don't have access to this recurring transaction" });
+      }
+      
+      const transaction = await postRecurringNow(recurring);
+      res.status(201).json({ transaction: transaction ?? null });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to post recurring transaction", error: (error as Error).message });
+    }
+  });
+
+  // Net Worth Routes
+  app.get("/api/networth/history", ensureScope("accounts:read"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const parsedQuery = netWorthHistoryQuerySchema.safeParse(req.query);
+
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid range", error: parsedQuery.error.message });
+      }
+
+      const history = await getNetWorthHistory(user, parsedQuery.data.range);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch net worth history", error: (error as Error).message });
+    }
+  });
+
+  // Exchange Rate Routes
+  app.get("/api/exchange-rates", ensureScope("accounts:read"), async (req, res) => {
+    try {
+      const rates = await storage.getExchangeRates();
+      res.json(rates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch exchange rates", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/exchange-rates", ensureAuthenticated, ensureAdmin, async (req, res) => {
+    try {
+      const parsedData = insertExchangeRateSchema.parse({
+        ...req.body,
+        source: "manual"
+      });
+      
+      const [rate] = await storage.saveExchangeRates([parsedData]);
+      res.status(201).json(rate);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to save exchange rate", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/exchange-rates/upload", ensureAuthenticated, ensureAdmin, async (req, res) => {
+    try {
+      const { content } = z.object({ content: z.string().min(1, "The file is empty") }).parse(req.body);
+      const rates = await storage.saveExchangeRates(parseExchangeRateCsv(content));
+      res.status(201).json({ saved: rates.length });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to upload exchange rates", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/exchange-rates/:rateId", ensureAuthenticated, ensureAdmin, async (req, res) => {
+    try {
+      const rate = await storage.deleteExchangeRate(parseInt(req.params.rateId));
+      if (!rate) {
+        return res.status(404).json({ message: "Exchange rate not found" });
+      }
+      res.json(rate);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to delete exchange rate", error: (error as Error).message });
+    }
+  });
+
+  // User Settings Routes
+  app.patch("/api/user/home-currency", ensureAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const { currency } = homeCurrencySchema.parse(req.body);
+      
+      const updated = await storage.updateUser(user.id, { homeCurrency: currency });
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { password, ...userWithoutPassword } = updated;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update home currency", error: (error as Error).message });
+    }
+  });
+
+  // Privacy Preference Routes
+  app.get("/api/user/preferences", ensureAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const preferences = await storage.getUserPreferences(user.id);
+      res.json(preferences);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch privacy settings", error: (error as Error).message });
+    }
+  });
+
+  app.patch("/api/user/preferences", ensureAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const changes = updatePrivacyPreferencesSchema.parse(req.body);
+      const preferences = await storage.updateUserPreferences(user.id, changes);
+      res.json(preferences);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update privacy settings", error: (error as Error).message });
+    }
+  });
+
+  // Audit Routes
+  app.get("/api/activity", ensureScope("activity:read"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const parsedQuery = auditQuerySchema.safeParse(req.query);
+
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid activity query", error: parsedQuery.error.message });
+      }
+
+      // Users only ever see what happened to their own data
+      const page = await storage.queryAuditEvents({ ...parsedQuery.data, userId: user.id });
+      res.json(page);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch activity", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/admin/audit-events", ensureAuthenticated, ensureAdmin, async (req, res) => {
+    try {
+      const parsedQuery = auditQuerySchema.safeParse(req.query);
+
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid audit query", error: parsedQuery.error.message });
+      }
+
+      const page = await storage.queryAuditEvents(parsedQuery.data);
+      res.json(page);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch audit events", error: (error as Error).message });
+    }
+  });
+
+  // Email Outbox Routes
+  // What the default mail transport has sent, newest first, for reading mail without a mail server
+  app.get("/api/admin/outbox", ensureAuthenticated, ensureAdmin, async (req, res) => {
+    try {
+      const parsedQuery = outboxQuerySchema.safeParse(req.query);
+
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: "Invalid outbox query", error: parsedQuery.error.message });
+      }
+
+      const emails = await storage.getOutboxEmails(parsedQuery.data.limit);
+      res.json(emails);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch outbox", error: (error as Error).message });
+    }
+  });
+
   // Journal Entry Routes
-  app.get("/api/journal", ensureAuthenticated, async (req, res) => {
+  app.get("/api/journal", ensureScope("journal:read"), async (req, res) => {
     try {
       const user = req.user as User;
       const entries = await storage.getJournalEntriesByUserId(user.id);
@@ -201,7 +1005,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/journal", ensureAuthenticated, async (req, res) => {
+  app.post("/api/journal", ensureScope("journal:write"), async (req, res) => {
     try {
       const user = req.user as User;
       const parsedData = insertJournalEntrySchema.parse({
@@ -235,11 +1039,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId: user.id
       });
       
+      // The Privacy tab decides whether the advisor runs and what it may see
+      const preferences = await storage.getUserPreferences(user.id);
+      if (!preferences.aiAdvisor) {
+        return res.status(403).json({ message: "The AI financial advisor is turned off in your privacy settings" });
+      }
+
       // Get user's financial data for context
       const accounts = await storage.getBankAccountsByUserId(user.id);
-      const transactions = await storage.getTransactionsByUserId(user.id);
-      const goals = await storage.getSavingGoalsByUserId(user.id);
-      const journalEntries = await storage.getJournalEntriesByUserId(user.id);
+      const transactions = preferences.dataAnalysis ? await storage.getTransactionsByUserId(user.id) : null;
+      const goals = (await storage.getSavingGoalsByUserId(user.id)).filter(goal => !goal.archived);
+      const journalEntries = preferences.aiUsesJournal ? await storage.getJournalEntriesByUserId(user.id) : null;
       
       // Generate AI advice
       const aiResponse = await generateFinancialAdvice(
@@ -249,7 +1059,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           accounts,
           transactions,
           goals,
-          journalEntries
+          journalEntries,
+          converter: await createCurrencyConverter(user.homeCurrency)
         }
       );
       
@@ -265,6 +1076,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // API Token Routes. Only a signed-in browser can manage tokens, so a leaked
+  // token can't mint itself more scopes or outlive its own revocation.
+  app.get("/api/user/tokens", ensureAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const tokens = await storage.getApiTokensByUserId(user.id);
+      res.json(tokens.map(toPublicApiToken));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch API tokens", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/user/tokens", ensureAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const { name, scopes, expiresInDays } = createApiTokenSchema.parse(req.body);
+      const created = await createApiToken(user.id, name, scopes, expiresInDays);
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create API token", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/user/tokens/:tokenId", ensureAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const tokenId = parseInt(req.params.tokenId);
+
+      // Verify that the token belongs to the user
+      const token = await storage.getApiToken(tokenId);
+      if (!token || token.userId !== user.id) {
+        return res.status(403).json({ message: "You don't have access to this API token" });
+      }
+
+      const deletedToken = await storage.deleteApiToken(tokenId);
+      res.json(deletedToken && toPublicApiToken(deletedToken));
+    } catch (error) {
+      res.status(400).json({ message: "Failed to revoke API token", error: (error as Error).message });
+    }
+  });
+
+  // Data Export Routes
+  app.get("/api/user/export", ensureAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const archive = await createUserExport(user);
+      // Usernames are free text, so keep the header to safe characters
+      const safeName = user.username.replace(/[^\w.-]/g, "_");
+      const filename = `neurobank-export-${safeName}-${new Date().toISOString().slice(0, 10)}.zip`;
+      
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(archive);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export data", error: (error as Error).message });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,393 @@
+import { storage } from "./storage";
+import {
+  BankAccount,
+  CsvColumnMapping,
+  StatementDateFormat,
+  StatementError,
+  StatementImport,
+  StatementImportResult,
+  StatementPreview,
+  StatementRow,
+  Transaction,
+  TransactionPosting
+} from "@shared/schema";
+import { fromCents, normalizeMoney, tryToCents } from "@shared/money";
+
+// Statements from other banks are parsed into rows, compared against what is
+// already on the account, and only then posted. Commits re-parse the file
+// rather than trusting a preview sent back by the client.
+
+type ParsedRow = Omit<StatementRow, "duplicate">;
+
+type ParsedStatement = {
+  columns: string[];
+  mapping: CsvColumnMapping | null;
+  rows: ParsedRow[];
+  errors: StatementError[];
+};
+
+// Builds a row from a signed amount in cents, negative for money out
+function toRow(
+  line: number,
+  date: Date | undefined,
+  cents: number | undefined,
+  description: string,
+  category: string | null,
+  merchant: string | null
+): ParsedRow | StatementError {
+  if (!date) return { line, message: "Unrecognised date" };
+  if (cents === undefined) return { line, message: "Unrecognised amount" };
+  if (cents === 0) return { line, message: "Amount is zero" };
+  if (!description) return { line, message: "Missing description" };
+
+  return {
+    line,
+    date: date.toISOString(),
+    amount: fromCents(Math.abs(cents)),
+    type: cents < 0 ? "debit" : "credit",
+    description,
+    category: category || null,
+    merchant: merchant || null,
+  };
+}
+
+function collect(statement: ParsedStatement, result: ParsedRow | StatementError) {
+  if ("message" in result) {
+    statement.errors.push(result);
+  } else {
+    statement.rows.push(result);
+  }
+}
+
+// Accepts "1,234.56", "$12.00", "-12", "12-", accounting-style "(12.00)" and
+// decimal commas as in "1.234,56"
+function parseAmount(raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined;
+  let value = raw.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.endsWith("-")) {
+    negative = true;
+    value = value.slice(0, -1);
+  }
+
+  if (/,\d{1,2}$/.test(value)) {
+    value = value.replace(/\./g, "").replace(/,(?=\d{1,2}$)/, ".");
+  }
+
+  const cents = tryToCents(value.replace(/[^\d.+-]/g, ""));
+  if (cents === undefined) return undefined;
+  return negative ? -Math.abs(cents) : cents;
+}
+
+// Each pattern captures year, month and day, in the order they appear
+const DATE_PATTERNS: Record<StatementDateFormat, { pattern: RegExp; order: ("year" | "month" | "day")[] }> = {
+  "YYYY-MM-DD": { pattern: /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/, order: ["year", "month", "day"] },
+  "MM/DD/YYYY": { pattern: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/, order: ["month", "day", "year"] },
+  "DD/MM/YYYY": { pattern: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/, order: ["day", "month", "year"] },
+};
+
+// Statements only give a day, so rows are placed at noon UTC, which keeps them
+// on the same calendar day wherever they are displayed
+function calendarDate(year: number, month: number, day: number): Date | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day, 12));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date
+    : undefined;
+}
+
+function parseDate(raw: string | undefined, format: StatementDateFormat): Date | undefined {
+  // QIF writes years after 2000 as 1/5'24
+  const { pattern, order } = DATE_PATTERNS[format];
+  const match = pattern.exec((raw ?? "").trim().replace(/\s+/g, "").replace("'", "/"));
+  if (!match) return undefined;
+
+  const parts = { year: "", month: "", day: "" };
+  order.forEach((part, index) => (parts[part] = match[index + 1]));
+  const year = parts.year.length === 2 ? 2000 + Number(parts.year) : Number(parts.year);
+  return calendarDate(year, Number(parts.month), Number(parts.day));
+}
+
+// CSV
+
+function detectDelimiter(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const counts = [",", ";", "\t"].map(delimiter => ({
+    delimiter,
+    count: firstLine.split(delimiter).length,
+  }));
+  return counts.reduce((best, entry) => (entry.count > best.count ? entry : best)).delimiter;
+}
+
+// RFC 4180 records, with the line each one starts on; quoted fields may span lines
+export function parseCsvRecords(content: string): { line: number; fields: string[] }[] {
+  const delimiter = detectDelimiter(content);
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some(value => value.trim() !== "")) {
+      records.push({ line: recordLine, fields: fields.map(value => value.trim()) });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === "") {
+      quoted = true;
+      field = "";
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  endRecord();
+
+  return records;
+}
+
+// Picks likely columns from common header names
+function guessCsvMapping(columns: string[]): CsvColumnMapping | null {
+  const used = new Set<string>();
+  const find = (pattern: RegExp) => {
+    const column = columns.find(name => !used.has(name) && pattern.test(name.toLowerCase()));
+    if (column) used.add(column);
+    return column;
+  };
+
+  const date = find(/date|posted/);
+  const amount = find(/^amount$|amount/);
+  const debit = amount ? undefined : find(/debit|withdrawal|paid out|money out/);
+  const credit = amount ? undefined : find(/credit|deposit|paid in|money in/);
+  const description = find(/description|details|narrative|memo|reference/) ?? find(/payee|name/);
+  const merchant = find(/merchant|payee|name/);
+  const category = find(/category/);
+
+  if (!date || !description || !(amount || debit || credit)) return null;
+  return { date, description, amount, debit, credit, merchant, category };
+}
+
+function parseCsv(input: StatementImport): ParsedStatement {
+  const [header, ...records] = parseCsvRecords(input.content);
+  const columns = header?.fields ?? [];
+  const mapping = input.mapping ?? guessCsvMapping(columns);
+  const statement: ParsedStatement = { columns, mapping, rows: [], errors: [] };
+  if (!mapping) return statement;
+
+  const missing = Object.values(mapping).filter(column => column !== undefined && !columns.includes(column));
+  if (missing.length > 0) {
+    statement.errors.push({ line: header?.line ?? 1, message: `Columns not found: ${missing.join(", ")}` });
+    return statement;
+  }
+
+  const dateFormat = input.dateFormat ?? "YYYY-MM-DD";
+
+  for (const { line, fields } of records) {
+    const value = (column: string | undefined) => (column ? fields[columns.indexOf(column)] ?? "" : "");
+
+    let cents: number | undefined;
+    if (mapping.amount) {
+      cents = parseAmount(value(mapping.amount));
+    } else {
+      // Separate columns: whichever one is filled in gives the direction
+      const debit = value(mapping.debit) ? parseAmount(value(mapping.debit)) : 0;
+      const credit = value(mapping.credit) ? parseAmount(value(mapping.credit)) : 0;
+      cents = debit === undefined || credit === undefined
+        ? undefined
+        : Math.abs(credit) - Math.abs(debit);
+    }
+
+    collect(statement, toRow(
+      line,
+      parseDate(value(mapping.date), dateFormat),
+      cents,
+      value(mapping.description),
+      value(mapping.category),
+      value(mapping.merchant)
+    ));
+  }
+
+  return statement;
+}
+
+// OFX: both the SGML (1.x) and XML (2.x) forms, where each <STMTTRN> is a transaction
+
+function ofxField(block: string, tag: string): string {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return (match?.[1] ?? "")
+    .trim()
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function parseOfx(input: StatementImport): ParsedStatement {
+  const statement: ParsedStatement = { columns: [], mapping: null, rows: [], errors: [] };
+  const blocks = input.content.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+
+  blocks.forEach((block, index) => {
+    // DTPOSTED is YYYYMMDD followed by an optional time and zone
+    const posted = /^(\d{4})(\d{2})(\d{2})/.exec(ofxField(block, "DTPOSTED"));
+    const name = ofxField(block, "NAME") || ofxField(block, "PAYEE");
+    const memo = ofxField(block, "MEMO");
+
+    collect(statement, toRow(
+      index + 1,
+      posted ? calendarDate(Number(posted[1]), Number(posted[2]), Number(posted[3])) : undefined,
+      parseAmount(ofxField(block, "TRNAMT")),
+      name || memo,
+      null,
+      name
+    ));
+  });
+
+  if (blocks.length === 0) {
+    statement.errors.push({ line: 1, message: "No transactions found in the OFX file" });
+  }
+
+  return statement;
+}
+
+// QIF: one field per line, keyed by its first character, with ^ ending each record
+
+function parseQif(input: StatementImport): ParsedStatement {
+  const statement: ParsedStatement = { columns: [], mapping: null, rows: [], errors: [] };
+  const dateFormat = input.dateFormat ?? "MM/DD/YYYY";
+  let fields = new Map<string, string>();
+  let recordLine = 0;
+
+  input.content.split(/\r?\n/).forEach((text, index) => {
+    const line = index + 1;
+    if (text.startsWith("!") || text.trim() === "") return;
+
+    if (text.startsWith("^")) {
+      const payee = fields.get("P") ?? "";
+      // Categories in brackets are transfers to another QIF account, not spending categories
+      const category = fields.get("L") ?? "";
+
+      collect(statement, toRow(
+        recordLine,
+        parseDate(fields.get("D"), dateFormat),
+        parseAmount(fields.get("T") ?? fields.get("U")),
+        payee || fields.get("M") || "",
+        category.startsWith("[") ? null : category,
+        payee
+      ));
+      fields = new Map();
+      return;
+    }
+
+    if (fields.size === 0) recordLine = line;
+    fields.set(text[0], text.slice(1).trim());
+  });
+
+  return statement;
+}
+
+export function parseStatement(input: StatementImport): ParsedStatement {
+  switch (input.format) {
+    case "csv":
+      return parseCsv(input);
+    case "ofx":
+      return parseOfx(input);
+    case "qif":
+      return parseQif(input);
+  }
+}
+
+// Duplicates share the calendar day (UTC), direction, amount and description
+function duplicateKey(entry: { date: Date; type: string; amount: string; description: string }): string {
+  return [
+    entry.date.toISOString().slice(0, 10),
+    entry.type,
+    normalizeMoney(entry.amount),
+    entry.description.trim().toLowerCase().replace(/\s+/g, " "),
+  ].join("|");
+}
+
+// Each existing transaction can only be matched once, so a statement with two
+// identical coffees against one already recorded flags just one of them
+function markDuplicates(rows: ParsedRow[], existing: Transaction[]): StatementRow[] {
+  const counts = new Map<string, number>();
+  for (const transaction of existing) {
+    if (!transaction.date) continue;
+    const key = duplicateKey({ ...transaction, date: transaction.date });
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  return rows.map(row => {
+    const key = duplicateKey({ ...row, date: new Date(row.date) });
+    const matches = counts.get(key) ?? 0;
+    if (matches > 0) counts.set(key, matches - 1);
+    return { ...row, duplicate: matches > 0 };
+  });
+}
+
+export async function previewStatement(account: BankAccount, input: StatementImport): Promise<StatementPreview> {
+  const statement = parseStatement(input);
+  const existing = await storage.getTransactionsByAccountId(account.id);
+
+  return {
+    columns: statement.columns,
+    mapping: statement.mapping,
+    rows: markDuplicates(statement.rows, existing),
+    errors: statement.errors,
+  };
+}
+
+// Posts every parsed row in one database transaction, leaving out duplicates
+// unless asked not to. Rows that failed to parse are reported, not imported.
+export async function importStatement(account: BankAccount, input: StatementImport): Promise<StatementImportResult> {
+  const preview = await previewStatement(account, input);
+  if (input.format === "csv" && !preview.mapping) {
+    throw new Error("Map the date, description and amount columns before importing");
+  }
+
+  const rows = preview.rows.filter(row => !(input.skipDuplicates && row.duplicate));
+  const postings: TransactionPosting[] = rows.map(row => ({
+    accountId: account.id,
+    amount: row.amount,
+    description: row.description,
+    category: row.category,
+    merchant: row.merchant,
+    type: row.type,
+    date: new Date(row.date),
+  }));
+
+  const imported = postings.length > 0 ? await storage.importTransactions(postings) : [];
+
+  return {
+    imported,
+    skippedDuplicates: preview.rows.length - rows.length,
+    errors: preview.errors,
+  };
+}
@@ -1,46 +1,180 @@
 import { 
   users, User, InsertUser, 
-  bankAccounts, BankAccount, InsertBankAccount,
+  bankAccounts, BankAccount, InsertBankAccount, UpdateBankAccount,
   transactions, Transaction, InsertTransaction,
-  savingGoals, SavingGoal, InsertSavingGoal,
+  savingGoals, SavingGoal, InsertSavingGoal, UpdateSavingGoal,
+  goalContributions, GoalContribution, InsertGoalContribution, GoalContributionResult,
+  budgets, Budget, InsertBudget, UpdateBudget, CategorySpending,
+  recurringTransactions, RecurringTransaction, InsertRecurringTransaction, TransactionPosting,
+  categoryRules, CategoryRule, InsertCategoryRule, UpdateCategoryRule,
   journalEntries, JournalEntry, InsertJournalEntry,
   aiAdvices, AiAdvice, InsertAiAdvice,
-  TransferData
+  exchangeRates, ExchangeRate, InsertExchangeRate,
+  netWorthSnapshots, NetWorthSnapshot, InsertNetWorthSnapshot,
+  accountBalanceSnapshots, AccountBalanceSnapshot, InsertAccountBalanceSnapshot,
+  userPreferences, UserPreference, PrivacyPreferences, UpdatePrivacyPreferences, defaultPrivacyPreferences,
+  twoFactorCredentials, TwoFactorCredential,
+  loginThrottles, LoginThrottle, LoginThrottleScope, LoginThrottleState,
+  passwordResetTokens, PasswordResetToken,
+  emailVerificationTokens, EmailVerificationToken,
+  apiTokens, ApiToken, InsertApiToken,
+  erasureReceipts, ErasureReceipt, ErasedRecords,
+  emailOutbox, OutboxEmail, MailMessage,
+  auditEvents, AuditEvent, AuditAction, AuditRecord, AuditQuery, AuditEventPage,
+  UpdateTransaction, TransferData, TransactionQuery, TransactionPage, TransactionSort,
+  encodeTransactionCursor
 } from "@shared/schema";
+import { addMoney, compareMoney, convertMoney, normalizeMoney, subtractMoney, toCents } from "@shared/money";
+import { dateKey, findExchangeRate } from "@shared/currency";
+import { categorize, recategorize, sortRules } from "@shared/categorization";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
-import { db } from "./db";
-import { eq, and, desc, or } from "drizzle-orm";
-import { pool } from "./db";
+import { db, pool, storageDriver } from "./db";
+import { currentRequestContext } from "./request-context";
+import { eq, and, desc, asc, or, gt, gte, lt, lte, ilike, inArray, isNull, isNotNull, count, getTableColumns, sql, SQL } from "drizzle-orm";
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
+// A signed-in session as the store holds it
+export type UserSessionRecord = {
+  sessionId: string;
+  data: StoredSession;
+  expiresAt: Date | null;
+};
+
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, changes: UserChanges): Promise<User | undefined>;
+
+  // User Preference methods
+  // The defaults for users who never changed a switch
+  getUserPreferences(userId: number): Promise<PrivacyPreferences>;
+  updateUserPreferences(userId: number, changes: UpdatePrivacyPreferences): Promise<PrivacyPreferences>;
+
+  // Two-Factor methods
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  startTwoFactorEnrollment(userId: number, secret: string): Promise<TwoFactorCredential>;
+  enableTwoFactor(userId: number, step: number, recoveryCodes: string[]): Promise<TwoFactorCredential | undefined>;
+  useTwoFactorStep(userId: number, step: number): Promise<boolean>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  disableTwoFactor(userId: number): Promise<boolean>;
+
+  // Login Throttle methods
+  getLoginThrottle(scope: LoginThrottleScope, key: string): Promise<LoginThrottle | undefined>;
+  // `update` runs with the row locked, so concurrent failures are all counted
+  updateLoginThrottle(
+    scope: LoginThrottleScope,
+    key: string,
+    update: (current: LoginThrottleState | undefined) => LoginThrottleState
+  ): Promise<LoginThrottle>;
+  clearLoginThrottle(scope: LoginThrottleScope, key: string): Promise<void>;
+
+  // Password Reset methods
+  // Replaces any link the user was sent before
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  // Spends the token and sets the new password together; undefined if the token is unknown, used or expired
+  resetPasswordWithToken(tokenHash: string, password: string): Promise<User | undefined>;
+
+  // Email Verification methods
+  // Replaces any link the user was sent before, for this address or another
+  createEmailVerificationToken(userId: number, email: string, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken>;
+  // Spends the token and marks its address verified, making it the user's
+  // address if it wasn't; undefined if the token is unknown, used or expired
+  verifyEmailWithToken(tokenHash: string): Promise<{ user: User; previousEmail: string } | undefined>;
+
+  // API Token methods
+  getApiToken(id: number): Promise<ApiToken | undefined>;
+  getApiTokensByUserId(userId: number): Promise<ApiToken[]>;
+  // Finds a token by its hash whether or not it has expired
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  // Not audited: it changes nothing the user did
+  recordApiTokenUse(id: number, ip: string | null, at: Date): Promise<void>;
+  deleteApiToken(id: number): Promise<ApiToken | undefined>;
+
+  // Email Outbox methods
+  queueEmail(message: MailMessage): Promise<OutboxEmail>;
+  getOutboxEmails(limit: number): Promise<OutboxEmail[]>;
 
   // Bank Account methods
   getBankAccount(id: number): Promise<BankAccount | undefined>;
   getBankAccountsByUserId(userId: number): Promise<BankAccount[]>;
   createBankAccount(account: InsertBankAccount): Promise<BankAccount>;
   updateBankAccountBalance(id: number, balance: string): Promise<BankAccount | undefined>;
+  updateBankAccount(id: number, changes: BankAccountChanges): Promise<BankAccount | undefined>;
+  closeBankAccount(id: number): Promise<BankAccount | undefined>;
+  deleteBankAccount(id: number): Promise<BankAccount | undefined>;
 
   // Transaction methods
   getTransaction(id: number): Promise<Transaction | undefined>;
   getTransactionsByAccountId(accountId: number): Promise<Transaction[]>;
   getTransactionsByUserId(userId: number): Promise<Transaction[]>;
-  createTransaction(transaction: InsertTransaction): Promise<Transaction>;
+  queryTransactions(userId: number, query: TransactionQuery): Promise<TransactionPage>;
+  createTransaction(transaction: TransactionPosting): Promise<Transaction>;
+  importTransactions(transactions: TransactionPosting[]): Promise<Transaction[]>;
   transferFunds(transferData: TransferData): Promise<{ sourceTransaction: Transaction, targetTransaction: Transaction }>;
+  updateTransaction(id: number, changes: UpdateTransaction): Promise<Transaction | undefined>;
+  deleteTransaction(id: number): Promise<Transaction[]>;
+  reverseTransaction(id: number): Promise<Transaction[]>;
 
   // Saving Goal methods
   getSavingGoal(id: number): Promise<SavingGoal | undefined>;
   getSavingGoalsByUserId(userId: number): Promise<SavingGoal[]>;
   createSavingGoal(goal: InsertSavingGoal): Promise<SavingGoal>;
-  updateSavingGoal(id: number, amount: string): Promise<SavingGoal | undefined>;
+  updateSavingGoal(id: number, changes: SavingGoalChanges): Promise<SavingGoal | undefined>;
+  deleteSavingGoal(id: number): Promise<SavingGoal | undefined>;
+  getGoalContributions(goalId: number): Promise<GoalContribution[]>;
+  addGoalContribution(contribution: InsertGoalContribution): Promise<GoalContributionResult | undefined>;
+
+  // Budget methods
+  getBudget(id: number): Promise<Budget | undefined>;
+  getBudgetsByUserId(userId: number): Promise<Budget[]>;
+  createBudget(budget: InsertBudget): Promise<Budget>;
+  updateBudget(id: number, changes: UpdateBudget): Promise<Budget | undefined>;
+  deleteBudget(id: number): Promise<Budget | undefined>;
+  getMonthlySpendingByCategory(userId: number, from: Date, to: Date): Promise<CategorySpending[]>;
+
+  // Recurring Transaction methods
+  getRecurringTransaction(id: number): Promise<RecurringTransaction | undefined>;
+  getRecurringTransactionsByUserId(userId: number): Promise<RecurringTransaction[]>;
+  getDueRecurringTransactions(asOf: Date): Promise<RecurringTransaction[]>;
+  getRecurringPosting(recurringTransactionId: number, scheduledFor: Date): Promise<Transaction | undefined>;
+  createRecurringTransaction(recurring: InsertRecurringTransaction & { nextRunAt: Date }): Promise<RecurringTransaction>;
+  updateRecurringTransaction(id: number, changes: RecurringTransactionState): Promise<RecurringTransaction | undefined>;
+  deleteRecurringTransaction(id: number): Promise<RecurringTransaction | undefined>;
+
+  // Category Rule methods
+  getCategoryRule(id: number): Promise<CategoryRule | undefined>;
+  getCategoryRulesByUserId(userId: number): Promise<CategoryRule[]>;
+  createCategoryRule(rule: InsertCategoryRule): Promise<CategoryRule>;
+  updateCategoryRule(id: number, changes: UpdateCategoryRule): Promise<CategoryRule | undefined>;
+  deleteCategoryRule(id: number): Promise<CategoryRule | undefined>;
+  applyCategoryRules(userId: number): Promise<number>;
+
+  // Exchange Rate methods
+  getExchangeRates(): Promise<ExchangeRate[]>;
+  getExchangeRate(from: string, to: string, on: string): Promise<string | undefined>;
+  saveExchangeRates(rates: InsertExchangeRate[]): Promise<ExchangeRate[]>;
+  deleteExchangeRate(id: number): Promise<ExchangeRate | undefined>;
+
+  // Net Worth methods
+  getLatestNetWorthSnapshot(userId: number): Promise<NetWorthSnapshot | undefined>;
+  getNetWorthSnapshots(userId: number, from?: string): Promise<NetWorthSnapshot[]>;
+  getAccountBalanceSnapshots(userId: number, from?: string): Promise<AccountBalanceSnapshot[]>;
+  saveNetWorthSnapshots(snapshots: InsertNetWorthSnapshot[], balances: InsertAccountBalanceSnapshot[]): Promise<void>;
+
+  // Audit methods. Every method above that changes financial data records its
+  // own events; journal entries, AI advice and net-worth snapshots aren't
+  // audited, as they are either not financial or derived from the ledger.
+  recordAuditEvent(record: AuditRecord): Promise<AuditEvent>;
+  queryAuditEvents(query: AuditQuery): Promise<AuditEventPage>;
 
   // Journal Entry methods
   getJournalEntry(id: number): Promise<JournalEntry | undefined>;
@@ -52,6 +186,23 @@ export interface IStorage {
   getAiAdvicesByUserId(userId: number): Promise<AiAdvice[]>;
   createAiAdvice(advice: InsertAiAdvice & { response: string }): Promise<AiAdvice>;
 
+  // Session methods
+  getUserSessions(userId: number): Promise<UserSessionRecord[]>;
+  // Ends one of the user's sessions; false if there is no such session of theirs
+  destroyUserSession(userId: number, sessionId: string): Promise<boolean>;
+  // Signs a user out everywhere, except in the session given; returns how many were ended
+  destroyUserSessions(userId: number, exceptSessionId?: string): Promise<number>;
+
+  // Account Deletion methods
+  // The user can go on using the account until deleteAfter, and cancel until then
+  scheduleUserDeletion(userId: number, deleteAfter: Date): Promise<User | undefined>;
+  cancelUserDeletion(userId: number): Promise<User | undefined>;
+  getUsersDueForDeletion(asOf: Date): Promise<User[]>;
+  // Erases the user and everything that is theirs, sessions included, all or
+  // nothing; undefined unless their deletion is still pending and due by asOf
+  eraseUser(userId: number, receiptId: string, asOf: Date): Promise<ErasureReceipt | undefined>;
+  getErasureReceipt(receiptId: string): Promise<ErasureReceipt | undefined>;
+
   // Session store
   sessionStore: session.Store;
 }
@@ -77,11 +228,328 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
     return user;
   }
 
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.insert(users).values(insertUser).returning();
+      await this.audit(tx, { userId: user.id, action: "user.create", entityType: "user", entityId: user.id, after: withoutSecrets(user) });
+      return user;
+    });
+  }
+
+  async updateUser(id: number, changes: UserChanges): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(users).where(eq(users.id, id)).for("update");
+      if (!existing) return undefined;
+
+      const [user] = await tx.update(users).set(changes).where(eq(users.id, id)).returning();
+      await this.audit(tx, {
+        userId: id,
+        action: changes.password ? "user.password" : "user.update",
+        entityType: "user",
+        entityId: id,
+        before: withoutSecrets(existing),
+        after: withoutSecrets(user),
+      });
+      return user;
+    });
+  }
+
+  // User Preference methods
+  async getUserPreferences(userId: number): Promise<PrivacyPreferences> {
+    const [preferences] = await db.select().from(userPreferences).where(eq(userPreferences.userId, userId));
+    return preferences ? privacyPreferencesOf(preferences) : { ...defaultPrivacyPreferences };
+  }
+
+  async updateUserPreferences(userId: number, changes: UpdatePrivacyPreferences): Promise<PrivacyPreferences> {
+    return await db.transaction(async (tx) => {
+      // Insert the defaults first so there is always a row to lock and audit from
+      await tx.insert(userPreferences).values({ userId }).onConflictDoNothing({ target: userPreferences.userId });
+      const [existing] = await tx
+        .select()
+        .from(userPreferences)
+        .where(eq(userPreferences.userId, userId))
+        .for("update");
+
+      const [updated] = await tx
+        .update(userPreferences)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(userPreferences.id, existing.id))
+        .returning();
+      const before = privacyPreferencesOf(existing);
+      const after = privacyPreferencesOf(updated);
+      await this.audit(tx, { userId, action: "user.privacy_update", entityType: "user", entityId: userId, before, after });
+      return after;
+    });
+  }
+
+  // Two-Factor methods
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    return credential;
+  }
+
+  // Starting again replaces a secret that was never confirmed
+  async startTwoFactorEnrollment(userId: number, secret: string): Promise<TwoFactorCredential> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(twoFactorCredentials)
+        .where(eq(twoFactorCredentials.userId, userId))
+        .for("update");
+      if (existing?.enabledAt) {
+        throw new Error("Two-factor authentication is already enabled");
+      }
+
+      const [credential] = await tx
+        .insert(twoFactorCredentials)
+        .values({ userId, secret })
+        .onConflictDoUpdate({
+          target: twoFactorCredentials.userId,
+          set: { secret, lastUsedStep: null, recoveryCodes: [], createdAt: new Date() },
+        })
+        .returning();
+      return credential;
+    });
+  }
+
+  // `step` is the confirming code's, which can't then be used to sign in
+  async enableTwoFactor(userId: number, step: number, recoveryCodes: string[]): Promise<TwoFactorCredential | undefined> {
+    return await db.transaction(async (tx) => {
+      const [credential] = await tx
+        .update(twoFactorCredentials)
+        .set({ enabledAt: new Date(), lastUsedStep: step, recoveryCodes })
+        .where(and(eq(twoFactorCredentials.userId, userId), isNull(twoFactorCredentials.enabledAt)))
+        .returning();
+      if (!credential) return undefined;
+
+      await this.audit(tx, twoFactorEvent("user.two_factor_enable", userId, credential));
+      return credential;
+    });
+  }
+
+  // Spends a time step, failing if it or a later one was already used
+  async useTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const [credential] = await db
+      .update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        isNotNull(twoFactorCredentials.enabledAt),
+        or(isNull(twoFactorCredentials.lastUsedStep), lt(twoFactorCredentials.lastUsedStep, step))
+      ))
+      .returning();
+    return !!credential;
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const [credential] = await db
+      .update(twoFactorCredentials)
+      .set({ recoveryCodes: sql`array_remove(${twoFactorCredentials.recoveryCodes}, ${codeHash})` })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        isNotNull(twoFactorCredentials.enabledAt),
+        sql`${codeHash} = any(${twoFactorCredentials.recoveryCodes})`
+      ))
+      .returning();
+    return !!credential;
+  }
+
+  // Returns whether two-factor was on
+  async disableTwoFactor(userId: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [credential] = await tx
+        .delete(twoFactorCredentials)
+        .where(eq(twoFactorCredentials.userId, userId))
+        .returning();
+      if (!credential?.enabledAt) return false;
+
+      await this.audit(tx, twoFactorEvent("user.two_factor_disable", userId, credential));
+      return true;
+    });
+  }
+
+  // Login Throttle methods
+  async getLoginThrottle(scope: LoginThrottleScope, key: string): Promise<LoginThrottle | undefined> {
+    const [throttle] = await db
+      .select()
+      .from(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+    return throttle;
+  }
+
+  async updateLoginThrottle(
+    scope: LoginThrottleScope,
+    key: string,
+    update: (current: LoginThrottleState | undefined) => LoginThrottleState
+  ): Promise<LoginThrottle> {
+    return await db.transaction(async (tx) => {
+      // Created empty first, so the row exists to be locked even on a first failure
+      await tx.insert(loginThrottles).values({ scope, key }).onConflictDoNothing();
+      const [current] = await tx
+        .select()
+        .from(loginThrottles)
+        .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)))
+        .for("update");
+
+      const [throttle] = await tx
+        .update(loginThrottles)
+        .set(update(current.lastFailedAt ? current : undefined))
+        .where(eq(loginThrottles.id, current.id))
+        .returning();
+      return throttle;
+    });
+  }
+
+  async clearLoginThrottle(scope: LoginThrottleScope, key: string): Promise<void> {
+    await db.delete(loginThrottles).where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+  }
+
+  // Password Reset methods
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(passwordResetTokens)
+        .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+      const [token] = await tx.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt }).returning();
+      return token;
+    });
+  }
+
+  async resetPasswordWithToken(tokenHash: string, password: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [token] = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date())
+        ))
+        .returning();
+      if (!token) return undefined;
+
+      const [existing] = await tx.select().from(users).where(eq(users.id, token.userId)).for("update");
+      if (!existing) return undefined;
+
+      const [user] = await tx.update(users).set({ password }).where(eq(users.id, token.userId)).returning();
+      await this.audit(tx, {
+        userId: user.id,
+        action: "user.password_reset",
+        entityType: "user",
+        entityId: user.id,
+        before: withoutSecrets(existing),
+        after: withoutSecrets(user),
+      });
+      return user;
+    });
+  }
+
+  // Email Verification methods
+  async createEmailVerificationToken(userId: number, email: string, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(emailVerificationTokens)
+        .where(and(eq(emailVerificationTokens.userId, userId), isNull(emailVerificationTokens.usedAt)));
+      const [token] = await tx.insert(emailVerificationTokens).values({ userId, email, tokenHash, expiresAt }).returning();
+      return token;
+    });
+  }
+
+  // A new address taken by someone else since the link was sent fails on the
+  // unique constraint, and the link stays unused
+  async verifyEmailWithToken(tokenHash: string): Promise<{ user: User; previousEmail: string } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [token] = await tx
+        .update(emailVerificationTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(emailVerificationTokens.tokenHash, tokenHash),
+          isNull(emailVerificationTokens.usedAt),
+          gt(emailVerificationTokens.expiresAt, new Date())
+        ))
+        .returning();
+      if (!token) return undefined;
+
+      const [existing] = await tx.select().from(users).where(eq(users.id, token.userId)).for("update");
+      if (!existing) return undefined;
+
+      const [user] = await tx
+        .update(users)
+        .set({ email: token.email, emailVerified: true })
+        .where(eq(users.id, token.userId))
+        .returning();
+      await this.audit(tx, {
+        userId: user.id,
+        action: token.email === existing.email ? "user.email_verify" : "user.email_change",
+        entityType: "user",
+        entityId: user.id,
+        before: withoutSecrets(existing),
+        after: withoutSecrets(user),
+      });
+      return { user, previousEmail: existing.email };
+    });
+  }
+
+  // API Token methods
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token;
+  }
+
+  async getApiTokensByUserId(userId: number): Promise<ApiToken[]> {
+    return await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt), desc(apiTokens.id));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    return await db.transaction(async (tx) => {
+      const [token] = await tx.insert(apiTokens).values(insertToken).returning();
+      await this.audit(tx, apiTokenEvent("api_token.create", token));
+      return token;
+    });
+  }
+
+  async recordApiTokenUse(id: number, ip: string | null, at: Date): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: at, lastUsedIp: ip }).where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: number): Promise<ApiToken | undefined> {
+    return await db.transaction(async (tx) => {
+      const [token] = await tx.delete(apiTokens).where(eq(apiTokens.id, id)).returning();
+      if (token) {
+        await this.audit(tx, apiTokenEvent("api_token.revoke", token));
+      }
+      return token;
+    });
+  }
+
+  // Email Outbox methods
+  async queueEmail(message: MailMessage): Promise<OutboxEmail> {
+    const [email] = await db.insert(emailOutbox).values(message).returning();
+    return email;
+  }
+
+  async getOutboxEmails(limit: number): Promise<OutboxEmail[]> {
+    return await db.select().from(emailOutbox).orderBy(desc(emailOutbox.id)).limit(limit);
+  }
+
   // Bank Account methods
   async getBankAccount(id: number): Promise<BankAccount | undefined> {
     const [account] = await db.select().from(bankAccounts).where(eq(bankAccounts.id, id));
@@ -93,17 +561,112 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createBankAccount(insertAccount: InsertBankAccount): Promise<BankAccount> {
-    const [account] = await db.insert(bankAccounts).values(insertAccount).returning();
-    return account;
+    return await db.transaction(async (tx) => {
+      const [account] = await tx
+        .insert(bankAccounts)
+        .values({ ...insertAccount, balance: normalizeMoney(insertAccount.balance ?? "0") })
+        .returning();
+      await this.audit(tx, { userId: account.userId, action: "account.create", entityType: "bank_account", entityId: account.id, after: account });
+      return account;
+    });
   }
 
   async updateBankAccountBalance(id: number, balance: string): Promise<BankAccount | undefined> {
-    const [account] = await db
-      .update(bankAccounts)
-      .set({ balance })
-      .where(eq(bankAccounts.id, id))
-      .returning();
-    return account;
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(bankAccounts).where(eq(bankAccounts.id, id)).for("update");
+      if (!existing) return undefined;
+
+      const [account] = await tx
+        .update(bankAccounts)
+        .set({ balance: normalizeMoney(balance) })
+        .where(eq(bankAccounts.id, id))
+        .returning();
+      await this.audit(tx, {
+        userId: account.userId,
+        action: "account.balance",
+        entityType: "bank_account",
+        entityId: id,
+        before: existing,
+        after: account,
+      });
+      return account;
+    });
+  }
+
+  async updateBankAccount(id: number, changes: BankAccountChanges): Promise<BankAccount | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(bankAccounts).where(eq(bankAccounts.id, id)).for("update");
+      if (!existing) return undefined;
+
+      const [account] = await tx
+        .update(bankAccounts)
+        .set(changes)
+        .where(eq(bankAccounts.id, id))
+        .returning();
+      await this.audit(tx, {
+        userId: account.userId,
+        action: "account.update",
+        entityType: "bank_account",
+        entityId: id,
+        before: existing,
+        after: account,
+      });
+      return account;
+    });
+  }
+
+  async closeBankAccount(id: number): Promise<BankAccount | undefined> {
+    return await db.transaction(async (tx) => {
+      const [account] = await tx
+        .select()
+        .from(bankAccounts)
+        .where(eq(bankAccounts.id, id))
+        .for("update");
+      
+      if (!account) return undefined;
+      
+      const [schedule] = await tx
+        .select()
+        .from(recurringTransactions)
+        .where(and(eq(recurringTransactions.accountId, id), eq(recurringTransactions.paused, false)));
+      assertCanClose(account, !!schedule);
+      
+      const [closedAccount] = await tx
+        .update(bankAccounts)
+        .set({ closed: true })
+        .where(eq(bankAccounts.id, id))
+        .returning();
+      await this.audit(tx, {
+        userId: account.userId,
+        action: "account.close",
+        entityType: "bank_account",
+        entityId: id,
+        before: account,
+        after: closedAccount,
+      });
+      return closedAccount;
+    });
+  }
+
+  async deleteBankAccount(id: number): Promise<BankAccount | undefined> {
+    return await db.transaction(async (tx) => {
+      const [account] = await tx
+        .select()
+        .from(bankAccounts)
+        .where(eq(bankAccounts.id, id))
+        .for("update");
+      
+      if (!account) return undefined;
+      
+      const [transaction] = await tx.select().from(transactions).where(eq(transactions.accountId, id)).limit(1);
+      const [schedule] = await tx.select().from(recurringTransactions).where(eq(recurringTransactions.accountId, id)).limit(1);
+      assertCanDelete(!!transaction, !!schedule);
+      
+      await tx.delete(accountBalanceSnapshots).where(eq(accountBalanceSnapshots.accountId, id));
+      await tx.delete(bankAccounts).where(eq(bankAccounts.id, id));
+      await this.audit(tx, { userId: account.userId, action: "account.delete", entityType: "bank_account", entityId: id, before: account });
+      return account;
+    });
   }
 
   // Transaction methods
@@ -121,56 +684,87 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getTransactionsByUserId(userId: number): Promise<Transaction[]> {
-    const userAccounts = await this.getBankAccountsByUserId(userId);
-    
-    if (userAccounts.length === 0) {
-      return [];
+    return await db
+      .select(getTableColumns(transactions))
+      .from(transactions)
+      .innerJoin(bankAccounts, eq(transactions.accountId, bankAccounts.id))
+      .where(eq(bankAccounts.userId, userId))
+      .orderBy(desc(transactions.date), desc(transactions.id));
+  }
+
+  async queryTransactions(userId: number, query: TransactionQuery): Promise<TransactionPage> {
+    const conditions: (SQL | undefined)[] = [eq(bankAccounts.userId, userId)];
+
+    if (query.accountId !== undefined) conditions.push(eq(transactions.accountId, query.accountId));
+    if (query.from) conditions.push(gte(transactions.date, query.from));
+    if (query.to) conditions.push(lte(transactions.date, query.to));
+    if (query.category) conditions.push(eq(transactions.category, query.category));
+    if (query.type) conditions.push(eq(transactions.type, query.type));
+    if (query.minAmount !== undefined) conditions.push(gte(transactions.amount, query.minAmount));
+    if (query.maxAmount !== undefined) conditions.push(lte(transactions.amount, query.maxAmount));
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(ilike(transactions.merchant, pattern), ilike(transactions.description, pattern)));
     }
-    
-    // Get all transactions for each account and combine them
-    const allTransactions: Transaction[] = [];
-    
-    for (const account of userAccounts) {
-      const accountTransactions = await this.getTransactionsByAccountId(account.id);
-      allTransactions.push(...accountTransactions);
+
+    const filters = and(...conditions);
+
+    // Postgres keeps microseconds but cursors round-trip through JS dates,
+    // so sort and compare on the millisecond-truncated value. Both are SQL
+    // expressions so the comparisons below take either one.
+    const sortColumn = query.sort.startsWith("date")
+      ? sql`date_trunc('milliseconds', ${transactions.date})`
+      : sql`${transactions.amount}`;
+    const descending = query.sort.endsWith("desc");
+
+    let pageFilters = filters;
+    if (query.cursor) {
+      const cursorValue = query.sort.startsWith("date")
+        ? sql`${query.cursor.value}::timestamp`
+        : sql`${query.cursor.value}::numeric`;
+      const before = descending ? lt : gt;
+      pageFilters = and(
+        filters,
+        or(
+          before(sortColumn, cursorValue),
+          and(eq(sortColumn, cursorValue), before(transactions.id, query.cursor.id))
+        )
+      );
     }
-    
-    // Sort by date (descending)
-    return allTransactions.sort((a, b) => 
-      new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
+
+    const direction = descending ? desc : asc;
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select(getTableColumns(transactions))
+        .from(transactions)
+        .innerJoin(bankAccounts, eq(transactions.accountId, bankAccounts.id))
+        .where(pageFilters)
+        .orderBy(direction(sortColumn), direction(transactions.id))
+        .limit(query.limit + 1),
+      db
+        .select({ total: count() })
+        .from(transactions)
+        .innerJoin(bankAccounts, eq(transactions.accountId, bankAccounts.id))
+        .where(filters),
+    ]);
+
+    return toTransactionPage(rows, query, total);
   }
 
-  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+  async createTransaction(insertTransaction: TransactionPosting): Promise<Transaction> {
     // Start a transaction to ensure data consistency
     const [transaction] = await db.transaction(async (tx) => {
+      const rules = await this.rulesForAccount(tx, insertTransaction.accountId);
+
       // Insert the transaction
       const [newTransaction] = await tx
         .insert(transactions)
-        .values(insertTransaction)
+        .values(categorize(rules, { ...insertTransaction, amount: normalizeMoney(insertTransaction.amount) }))
         .returning();
       
       // Update account balance
-      const [account] = await tx
-        .select()
-        .from(bankAccounts)
-        .where(eq(bankAccounts.id, insertTransaction.accountId));
-      
-      if (account) {
-        const currentBalance = parseFloat(account.balance.toString());
-        let newBalance: number;
-        
-        if (insertTransaction.type === 'debit') {
-          newBalance = currentBalance - parseFloat(insertTransaction.amount.toString());
-        } else {
-          newBalance = currentBalance + parseFloat(insertTransaction.amount.toString());
-        }
-        
-        await tx
-          .update(bankAccounts)
-          .set({ balance: newBalance.toString() })
-          .where(eq(bankAccounts.id, account.id));
-      }
+      const account = await this.applyToBalance(tx, newTransaction);
+      await this.audit(tx, transactionEvent("transaction.create", account, newTransaction.id, null, newTransaction));
       
       return [newTransaction];
     });
@@ -178,42 +772,72 @@ export class DatabaseStorage implements IStorage {
     return transaction;
   }
 
+  async importTransactions(postings: TransactionPosting[]): Promise<Transaction[]> {
+    // All rows post or none do, each moving the balance as createTransaction would
+    return await db.transaction(async (tx) => {
+      const imported: Transaction[] = [];
+      const rulesByAccount = new Map<number, CategoryRule[]>();
+      for (const posting of postings) {
+        if (!rulesByAccount.has(posting.accountId)) {
+          rulesByAccount.set(posting.accountId, await this.rulesForAccount(tx, posting.accountId));
+        }
+        const [newTransaction] = await tx
+          .insert(transactions)
+          .values(categorize(rulesByAccount.get(posting.accountId)!, { ...posting, amount: normalizeMoney(posting.amount) }))
+          .returning();
+        const account = await this.applyToBalance(tx, newTransaction);
+        await this.audit(tx, transactionEvent("transaction.create", account, newTransaction.id, null, newTransaction));
+        imported.push(newTransaction);
+      }
+      return imported;
+    });
+  }
+
   async transferFunds(transferData: TransferData): Promise<{ sourceTransaction: Transaction, targetTransaction: Transaction }> {
     const { fromAccountId, toAccountId, amount, description } = transferData;
     
     return await db.transaction(async (tx) => {
-      // Validate accounts and balance
-      const [sourceAccount] = await tx
+      // Lock both accounts before checking the balance, so a concurrent transfer
+      // can't pass the same check; always in id order, so two can't deadlock
+      const lockedAccounts = await tx
         .select()
         .from(bankAccounts)
-        .where(eq(bankAccounts.id, fromAccountId));
-      
-      const [targetAccount] = await tx
-        .select()
-        .from(bankAccounts)
-        .where(eq(bankAccounts.id, toAccountId));
+        .where(inArray(bankAccounts.id, [fromAccountId, toAccountId]))
+        .orderBy(asc(bankAccounts.id))
+        .for("update");
+      const sourceAccount = lockedAccounts.find(account => account.id === fromAccountId);
+      const targetAccount = lockedAccounts.find(account => account.id === toAccountId);
       
       if (!sourceAccount || !targetAccount) {
         throw new Error("One or both accounts do not exist");
       }
+      assertAccountOpen(sourceAccount);
+      assertAccountOpen(targetAccount);
       
-      const sourceBalance = parseFloat(sourceAccount.balance.toString());
-      const transferAmount = parseFloat(amount.toString());
+      const transferAmount = normalizeMoney(amount);
       
-      if (sourceBalance < transferAmount) {
+      if (compareMoney(availableFunds(sourceAccount), transferAmount) < 0) {
         throw new Error("Insufficient funds for transfer");
       }
       
+      const exchangeRate = transferRateOf(
+        sourceAccount,
+        targetAccount,
+        await this.ratesBetween(sourceAccount.currency, targetAccount.currency, tx)
+      );
+      const creditAmount = exchangeRate ? convertMoney(transferAmount, exchangeRate) : transferAmount;
+      
       // Create debit transaction
-      const [sourceTransaction] = await tx
+      const [debitTransaction] = await tx
         .insert(transactions)
         .values({
           accountId: fromAccountId,
-          amount: transferAmount.toString(),
+          amount: transferAmount,
           description: `Transfer: ${description}`,
           type: 'debit',
           category: 'Transfer',
-          merchant: 'NeuroBank'
+          merchant: 'NeuroBank',
+          exchangeRate
         })
         .returning();
       
@@ -222,120 +846,2669 @@ export class DatabaseStorage implements IStorage {
         .insert(transactions)
         .values({
           accountId: toAccountId,
-          amount: transferAmount.toString(),
+          amount: creditAmount,
           description: `Transfer from account ${sourceAccount.accountNumber.substring(sourceAccount.accountNumber.length - 4)}`,
           type: 'credit',
           category: 'Transfer',
-          merchant: 'NeuroBank'
+          merchant: 'NeuroBank',
+          linkedTransactionId: debitTransaction.id,
+          exchangeRate
         })
         .returning();
       
-      // Update source account balance
-      await tx
-        .update(bankAccounts)
-        .set({ 
-          balance: (sourceBalance - transferAmount).toString() 
-        })
-        .where(eq(bankAccounts.id, fromAccountId));
+      // Link the debit leg back to the credit leg
+      const [sourceTransaction] = await tx
+        .update(transactions)
+        .set({ linkedTransactionId: targetTransaction.id })
+        .where(eq(transactions.id, debitTransaction.id))
+        .returning();
       
-      // Update target account balance
-      const targetBalance = parseFloat(targetAccount.balance.toString());
-      await tx
-        .update(bankAccounts)
-        .set({ 
-          balance: (targetBalance + transferAmount).toString() 
-        })
-        .where(eq(bankAccounts.id, toAccountId));
+      // Update both account balances
+      await this.applyToBalance(tx, sourceTransaction);
+      await this.applyToBalance(tx, targetTransaction);
       
+      await this.audit(tx, transactionEvent("transfer.create", sourceAccount, sourceTransaction.id, null, { sourceTransaction, targetTransaction }));
       return { sourceTransaction, targetTransaction };
     });
   }
 
-  // Saving Goal methods
-  async getSavingGoal(id: number): Promise<SavingGoal | undefined> {
-    const [goal] = await db.select().from(savingGoals).where(eq(savingGoals.id, id));
-    return goal;
-  }
-
-  async getSavingGoalsByUserId(userId: number): Promise<SavingGoal[]> {
-    return await db.select().from(savingGoals).where(eq(savingGoals.userId, userId));
-  }
-
-  async createSavingGoal(insertGoal: InsertSavingGoal): Promise<SavingGoal> {
-    const goalData = {
-      ...insertGoal,
-      currentAmount: "0", 
-      completed: false,
-    };
-    
-    const [goal] = await db.insert(savingGoals).values(goalData).returning();
-    return goal;
-  }
-
-  async updateSavingGoal(id: number, amount: string): Promise<SavingGoal | undefined> {
+  async updateTransaction(id: number, changes: UpdateTransaction): Promise<Transaction | undefined> {
     return await db.transaction(async (tx) => {
-      const [goal] = await tx
+      const [existing] = await tx
         .select()
-        .from(savingGoals)
-        .where(eq(savingGoals.id, id));
+        .from(transactions)
+        .where(eq(transactions.id, id))
+        .for("update");
       
-      if (!goal) return undefined;
+      if (!existing) return undefined;
       
-      const currentAmount = parseFloat(goal.currentAmount.toString());
-      const additionalAmount = parseFloat(amount);
-      const newAmount = currentAmount + additionalAmount;
-      const targetAmount = parseFloat(goal.targetAmount.toString());
+      const [reversal] = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.reversalOfId, id));
+      assertAmountEditable(existing, changes, !!reversal, await this.fundsGoal(tx, id));
       
-      const [updatedGoal] = await tx
-        .update(savingGoals)
-        .set({ 
-          currentAmount: newAmount.toString(),
-          completed: newAmount >= targetAmount
-        })
-        .where(eq(savingGoals.id, id))
+      // Take the old entry out of the balance and put the edited one in
+      await this.applyToBalance(tx, existing, true);
+      const [updated] = await tx
+        .update(transactions)
+        .set(withManualEdits(existing, changes))
+        .where(eq(transactions.id, id))
         .returning();
+      const account = await this.applyToBalance(tx, updated);
+      await this.audit(tx, transactionEvent("transaction.update", account, id, existing, updated));
       
-      return updatedGoal;
+      return updated;
     });
   }
 
-  // Journal Entry methods
-  async getJournalEntry(id: number): Promise<JournalEntry | undefined> {
-    const [entry] = await db.select().from(journalEntries).where(eq(journalEntries.id, id));
-    return entry;
+  async deleteTransaction(id: number): Promise<Transaction[]> {
+    return await db.transaction(async (tx) => {
+      const legs = await this.lockTransactionLegs(tx, id);
+      
+      for (const leg of legs) {
+        const [reversal] = await tx
+          .select()
+          .from(transactions)
+          .where(eq(transactions.reversalOfId, leg.id));
+        if (reversal) {
+          throw new Error("A reversed transaction can't be deleted; delete its reversal first");
+        }
+        assertNotGoalFunding(await this.fundsGoal(tx, leg.id));
+      }
+      
+      for (const leg of legs) {
+        const account = await this.applyToBalance(tx, leg, true);
+        await tx.delete(transactions).where(eq(transactions.id, leg.id));
+        await this.audit(tx, transactionEvent("transaction.delete", account, leg.id, leg, null));
+      }
+      
+      return legs;
+    });
+  }
+
+  async reverseTransaction(id: number): Promise<Transaction[]> {
+    return await db.transaction(async (tx) => {
+      const legs = await this.lockTransactionLegs(tx, id);
+      
+      for (const leg of legs) {
+        const [reversal] = await tx
+          .select()
+          .from(transactions)
+          .where(eq(transactions.reversalOfId, leg.id));
+        assertReversible(leg, !!reversal);
+        assertNotGoalFunding(await this.fundsGoal(tx, leg.id));
+      }
+      
+      const reversals: Transaction[] = [];
+      for (const leg of legs) {
+        const [reversal] = await tx
+          .insert(transactions)
+          .values(reversalOf(leg))
+          .returning();
+        const account = await this.applyToBalance(tx, reversal);
+        await this.audit(tx, transactionEvent("transaction.reverse", account, leg.id, leg, reversal));
+        reversals.push(reversal);
+      }
+      
+      // Reversing a transfer yields a transfer back, linked the same way
+      if (reversals.length === 2) {
+        const [first, second] = reversals;
+        reversals[0] = (await tx
+          .update(transactions)
+          .set({ linkedTransactionId: second.id })
+          .where(eq(transactions.id, first.id))
+          .returning())[0];
+        reversals[1] = (await tx
+          .update(transactions)
+          .set({ linkedTransactionId: first.id })
+          .where(eq(transactions.id, second.id))
+          .returning())[0];
+      }
+      
+      return reversals;
+    });
+  }
+
+  // The category rules of whoever owns the account
+  private async rulesForAccount(tx: DbTransaction, accountId: number): Promise<CategoryRule[]> {
+    return await tx
+      .select(getTableColumns(categoryRules))
+      .from(categoryRules)
+      .innerJoin(bankAccounts, eq(categoryRules.userId, bankAccounts.userId))
+      .where(eq(bankAccounts.id, accountId));
+  }
+
+  private async fundsGoal(tx: DbTransaction, transactionId: number): Promise<boolean> {
+    const [contribution] = await tx
+      .select()
+      .from(goalContributions)
+      .where(eq(goalContributions.transactionId, transactionId));
+    return !!contribution;
+  }
+
+  // Loads a transaction and, for transfers, its other leg, locking both rows
+  private async lockTransactionLegs(tx: DbTransaction, id: number): Promise<Transaction[]> {
+    const [transaction] = await tx
+      .select()
+      .from(transactions)
+      .where(eq(transactions.id, id))
+      .for("update");
+    
+    if (!transaction) return [];
+    if (transaction.linkedTransactionId === null) return [transaction];
+    
+    const [linked] = await tx
+      .select()
+      .from(transactions)
+      .where(eq(transactions.id, transaction.linkedTransactionId))
+      .for("update");
+    
+    return linked ? [transaction, linked] : [transaction];
+  }
+
+  // Credits add to the account balance and debits subtract; undo takes an
+  // entry that was applied earlier back out. Returns the updated account.
+  private async applyToBalance(tx: DbTransaction, entry: BalanceEntry, undo = false): Promise<BankAccount> {
+    const [account] = await tx
+      .select()
+      .from(bankAccounts)
+      .where(eq(bankAccounts.id, entry.accountId))
+      .for("update");
+    
+    assertAccountExists(account);
+    assertAccountOpen(account);
+    
+    const newBalance = undo
+      ? subtractMoney(account.balance, signedAmount(entry))
+      : addMoney(account.balance, signedAmount(entry));
+    const [updated] = await tx
+      .update(bankAccounts)
+      .set({ balance: newBalance })
+      .where(eq(bankAccounts.id, account.id))
+      .returning();
+    return updated;
+  }
+
+  // Written in the same database transaction as the change itself, so the
+  // trail can't miss a change that committed or show one that rolled back
+  private async audit(tx: DbTransaction, record: AuditRecord) {
+    await tx.insert(auditEvents).values(auditEventOf(record));
+  }
+
+  // Saving Goal methods
+  async getSavingGoal(id: number): Promise<SavingGoal | undefined> {
+    const [goal] = await db.select().from(savingGoals).where(eq(savingGoals.id, id));
+    return goal;
+  }
+
+  async getSavingGoalsByUserId(userId: number): Promise<SavingGoal[]> {
+    return await db.select().from(savingGoals).where(eq(savingGoals.userId, userId));
+  }
+
+  async createSavingGoal(insertGoal: InsertSavingGoal): Promise<SavingGoal> {
+    const goalData = {
+      ...insertGoal,
+      targetAmount: normalizeMoney(insertGoal.targetAmount),
+      currentAmount: "0.00",
+      completed: false,
+    };
+    
+    return await db.transaction(async (tx) => {
+      const [goal] = await tx.insert(savingGoals).values(goalData).returning();
+      await this.audit(tx, { userId: goal.userId, action: "goal.create", entityType: "saving_goal", entityId: goal.id, after: goal });
+      return goal;
+    });
+  }
+
+  async updateSavingGoal(id: number, changes: SavingGoalChanges): Promise<SavingGoal | undefined> {
+    return await db.transaction(async (tx) => {
+      const [goal] = await tx
+        .select()
+        .from(savingGoals)
+        .where(eq(savingGoals.id, id))
+        .for("update");
+      
+      if (!goal) return undefined;
+      
+      const [updatedGoal] = await tx
+        .update(savingGoals)
+        .set(goalChangesOf(goal, changes))
+        .where(eq(savingGoals.id, id))
+        .returning();
+      await this.audit(tx, {
+        userId: goal.userId,
+        action: "goal.update",
+        entityType: "saving_goal",
+        entityId: id,
+        before: goal,
+        after: updatedGoal,
+      });
+      
+      return updatedGoal;
+    });
+  }
+
+  async deleteSavingGoal(id: number): Promise<SavingGoal | undefined> {
+    return await db.transaction(async (tx) => {
+      const [goal] = await tx
+        .select()
+        .from(savingGoals)
+        .where(eq(savingGoals.id, id))
+        .for("update");
+      
+      if (!goal) return undefined;
+      assertGoalEmpty(goal);
+      
+      await tx.delete(goalContributions).where(eq(goalContributions.goalId, id));
+      await tx.delete(savingGoals).where(eq(savingGoals.id, id));
+      await this.audit(tx, { userId: goal.userId, action: "goal.delete", entityType: "saving_goal", entityId: id, before: goal });
+      return goal;
+    });
+  }
+
+  async getGoalContributions(goalId: number): Promise<GoalContribution[]> {
+    return await db
+      .select()
+      .from(goalContributions)
+      .where(eq(goalContributions.goalId, goalId))
+      .orderBy(desc(goalContributions.createdAt), desc(goalContributions.id));
+  }
+
+  async addGoalContribution(insertContribution: InsertGoalContribution): Promise<GoalContributionResult | undefined> {
+    return await db.transaction(async (tx) => {
+      const [goal] = await tx
+        .select()
+        .from(savingGoals)
+        .where(eq(savingGoals.id, insertContribution.goalId))
+        .for("update");
+      
+      if (!goal) return undefined;
+      
+      const history = await tx
+        .select()
+        .from(goalContributions)
+        .where(eq(goalContributions.goalId, goal.id));
+      const contributionData = { ...insertContribution, amount: normalizeMoney(insertContribution.amount) };
+      const currentAmount = goalBalance(goal, history, contributionData);
+      
+      // Deposits leave the account as transfers do, and withdrawals go back into it
+      const [account] = await tx
+        .select()
+        .from(bankAccounts)
+        .where(eq(bankAccounts.id, contributionData.accountId))
+        .for("update");
+      assertCanFundGoal(goal, account, contributionData);
+      
+      const [transaction] = await tx
+        .insert(transactions)
+        .values(goalPostingOf(goal, contributionData))
+        .returning();
+      const updatedAccount = await this.applyToBalance(tx, transaction);
+      await this.audit(tx, transactionEvent("transaction.create", updatedAccount, transaction.id, null, transaction));
+      
+      if (history.length === 0 && compareMoney(goal.currentAmount, 0) !== 0) {
+        await tx.insert(goalContributions).values(openingBalanceOf(goal));
+      }
+      const [contribution] = await tx
+        .insert(goalContributions)
+        .values({ ...contributionData, transactionId: transaction.id })
+        .returning();
+      
+      const [updatedGoal] = await tx
+        .update(savingGoals)
+        .set({ 
+          currentAmount,
+          completed: compareMoney(currentAmount, goal.targetAmount) >= 0
+        })
+        .where(eq(savingGoals.id, goal.id))
+        .returning();
+      await this.audit(tx, {
+        userId: goal.userId,
+        action: "goal.contribution",
+        entityType: "saving_goal",
+        entityId: goal.id,
+        before: goal,
+        after: { ...updatedGoal, contribution },
+      });
+      
+      return { goal: updatedGoal, contribution, transaction };
+    });
+  }
+
+  // Budget methods
+  async getBudget(id: number): Promise<Budget | undefined> {
+    const [budget] = await db.select().from(budgets).where(eq(budgets.id, id));
+    return budget;
+  }
+
+  async getBudgetsByUserId(userId: number): Promise<Budget[]> {
+    return await db
+      .select()
+      .from(budgets)
+      .where(eq(budgets.userId, userId))
+      .orderBy(asc(budgets.category));
+  }
+
+  async createBudget(insertBudget: InsertBudget): Promise<Budget> {
+    return await db.transaction(async (tx) => {
+      const [budget] = await tx
+        .insert(budgets)
+        .values({ ...insertBudget, monthlyLimit: normalizeMoney(insertBudget.monthlyLimit) })
+        .returning();
+      await this.audit(tx, { userId: budget.userId, action: "budget.create", entityType: "budget", entityId: budget.id, after: budget });
+      return budget;
+    });
+  }
+
+  async updateBudget(id: number, changes: UpdateBudget): Promise<Budget | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(budgets).where(eq(budgets.id, id)).for("update");
+      if (!existing) return undefined;
+
+      const [budget] = await tx
+        .update(budgets)
+        .set(changes)
+        .where(eq(budgets.id, id))
+        .returning();
+      await this.audit(tx, {
+        userId: budget.userId,
+        action: "budget.update",
+        entityType: "budget",
+        entityId: id,
+        before: existing,
+        after: budget,
+      });
+      return budget;
+    });
+  }
+
+  async deleteBudget(id: number): Promise<Budget | undefined> {
+    return await db.transaction(async (tx) => {
+      const [budget] = await tx.delete(budgets).where(eq(budgets.id, id)).returning();
+      if (budget) {
+        await this.audit(tx, { userId: budget.userId, action: "budget.delete", entityType: "budget", entityId: id, before: budget });
+      }
+      return budget;
+    });
+  }
+
+  // `to` is exclusive; months are bucketed in UTC, as dates are stored
+  async getMonthlySpendingByCategory(userId: number, from: Date, to: Date): Promise<CategorySpending[]> {
+    const month = sql<string>`to_char(${transactions.date}, 'YYYY-MM')`;
+    const rows = await db
+      .select({
+        category: transactions.category,
+        month,
+        currency: bankAccounts.currency,
+        spent: sql<string>`sum(case when ${transactions.type} = 'debit' then ${transactions.amount} else -${transactions.amount} end)`,
+      })
+      .from(transactions)
+      .innerJoin(bankAccounts, eq(transactions.accountId, bankAccounts.id))
+      .where(and(
+        eq(bankAccounts.userId, userId),
+        gte(transactions.date, from),
+        lt(transactions.date, to),
+        isNotNull(transactions.category)
+      ))
+      .groupBy(transactions.category, month, bankAccounts.currency);
+
+    return rows.map(row => ({
+      category: row.category!,
+      month: row.month,
+      currency: row.currency,
+      spent: normalizeMoney(row.spent),
+    }));
+  }
+
+  // Recurring Transaction methods
+  async getRecurringTransaction(id: number): Promise<RecurringTransaction | undefined> {
+    const [recurring] = await db.select().from(recurringTransactions).where(eq(recurringTransactions.id, id));
+    return recurring;
+  }
+
+  async getRecurringTransactionsByUserId(userId: number): Promise<RecurringTransaction[]> {
+    return await db
+      .select()
+      .from(recurringTransactions)
+      .where(eq(recurringTransactions.userId, userId))
+      .orderBy(asc(recurringTransactions.nextRunAt), asc(recurringTransactions.id));
+  }
+
+  async getDueRecurringTransactions(asOf: Date): Promise<RecurringTransaction[]> {
+    return await db
+      .select()
+      .from(recurringTransactions)
+      .where(and(
+        eq(recurringTransactions.paused, false),
+        lte(recurringTransactions.nextRunAt, asOf),
+        or(
+          isNull(recurringTransactions.endDate),
+          lte(recurringTransactions.nextRunAt, recurringTransactions.endDate)
+        )
+      ))
+      .orderBy(asc(recurringTransactions.nextRunAt), asc(recurringTransactions.id));
+  }
+
+  async getRecurringPosting(recurringTransactionId: number, scheduledFor: Date): Promise<Transaction | undefined> {
+    const [transaction] = await db
+      .select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.recurringTransactionId, recurringTransactionId),
+        eq(transactions.scheduledFor, scheduledFor)
+      ));
+    return transaction;
+  }
+
+  async createRecurringTransaction(insertRecurring: InsertRecurringTransaction & { nextRunAt: Date }): Promise<RecurringTransaction> {
+    return await db.transaction(async (tx) => {
+      const [recurring] = await tx
+        .insert(recurringTransactions)
+        .values({ ...insertRecurring, amount: normalizeMoney(insertRecurring.amount) })
+        .returning();
+      await this.audit(tx, {
+        userId: recurring.userId,
+        action: "recurring.create",
+        entityType: "recurring_transaction",
+        entityId: recurring.id,
+        after: recurring,
+      });
+      return recurring;
+    });
+  }
+
+  async updateRecurringTransaction(id: number, changes: RecurringTransactionState): Promise<RecurringTransaction | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(recurringTransactions)
+        .where(eq(recurringTransactions.id, id))
+        .for("update");
+      if (!existing) return undefined;
+
+      const [recurring] = await tx
+        .update(recurringTransactions)
+        .set(changes)
+        .where(eq(recurringTransactions.id, id))
+        .returning();
+      await this.audit(tx, {
+        userId: recurring.userId,
+        action: "recurring.update",
+        entityType: "recurring_transaction",
+        entityId: id,
+        before: existing,
+        after: recurring,
+      });
+      return recurring;
+    });
+  }
+
+  async deleteRecurringTransaction(id: number): Promise<RecurringTransaction | undefined> {
+    return await db.transaction(async (tx) => {
+      const [recurring] = await tx
+        .delete(recurringTransactions)
+        .where(eq(recurringTransactions.id, id))
+        .returning();
+      if (recurring) {
+        await this.audit(tx, {
+          userId: recurring.userId,
+          action: "recurring.delete",
+          entityType: "recurring_transaction",
+          entityId: id,
+          before: recurring,
+        });
+      }
+      return recurring;
+    });
+  }
+
+  // Category Rule methods
+  async getCategoryRule(id: number): Promise<CategoryRule | undefined> {
+    const [rule] = await db.select().from(categoryRules).where(eq(categoryRules.id, id));
+    return rule;
+  }
+
+  async getCategoryRulesByUserId(userId: number): Promise<CategoryRule[]> {
+    return await db
+      .select()
+      .from(categoryRules)
+      .where(eq(categoryRules.userId, userId))
+      .orderBy(asc(categoryRules.priority), asc(categoryRules.id));
+  }
+
+  async createCategoryRule(insertRule: InsertCategoryRule): Promise<CategoryRule> {
+    return await db.transaction(async (tx) => {
+      const [rule] = await tx.insert(categoryRules).values(insertRule).returning();
+      await this.audit(tx, { userId: rule.userId, action: "category_rule.create", entityType: "category_rule", entityId: rule.id, after: rule });
+      return rule;
+    });
+  }
+
+  async updateCategoryRule(id: number, changes: UpdateCategoryRule): Promise<CategoryRule | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(categoryRules).where(eq(categoryRules.id, id)).for("update");
+      if (!existing) return undefined;
+
+      const [rule] = await tx
+        .update(categoryRules)
+        .set(changes)
+        .where(eq(categoryRules.id, id))
+        .returning();
+      await this.audit(tx, {
+        userId: rule.userId,
+        action: "category_rule.update",
+        entityType: "category_rule",
+        entityId: id,
+        before: existing,
+        after: rule,
+      });
+      return rule;
+    });
+  }
+
+  async deleteCategoryRule(id: number): Promise<CategoryRule | undefined> {
+    return await db.transaction(async (tx) => {
+      const [rule] = await tx.delete(categoryRules).where(eq(categoryRules.id, id)).returning();
+      if (rule) {
+        await this.audit(tx, { userId: rule.userId, action: "category_rule.delete", entityType: "category_rule", entityId: id, before: rule });
+      }
+      return rule;
+    });
+  }
+
+  // Runs the current rules over every transaction the user has; returns how many rows changed
+  async applyCategoryRules(userId: number): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const rules = await tx.select().from(categoryRules).where(eq(categoryRules.userId, userId));
+      const rows = await tx
+        .select(getTableColumns(transactions))
+        .from(transactions)
+        .innerJoin(bankAccounts, eq(transactions.accountId, bankAccounts.id))
+        .where(eq(bankAccounts.userId, userId))
+        .for("update", { of: transactions });
+
+      let updated = 0;
+      for (const row of rows) {
+        const changes = recategorize(rules, row);
+        if (!changes) continue;
+        const [recategorized] = await tx.update(transactions).set(changes).where(eq(transactions.id, row.id)).returning();
+        await this.audit(tx, {
+          userId,
+          action: "transaction.recategorize",
+          entityType: "transaction",
+          entityId: row.id,
+          before: row,
+          after: recategorized,
+        });
+        updated++;
+      }
+      return updated;
+    });
+  }
+
+  // Exchange Rate methods
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return await db
+      .select()
+      .from(exchangeRates)
+      .orderBy(desc(exchangeRates.effectiveDate), asc(exchangeRates.baseCurrency), asc(exchangeRates.quoteCurrency));
+  }
+
+  async getExchangeRate(from: string, to: string, on: string): Promise<string | undefined> {
+    return findExchangeRate(await this.ratesBetween(from, to), from, to, on);
+  }
+
+  // All or nothing, so a bad row in an upload leaves the table as it was
+  async saveExchangeRates(rates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    if (rates.length === 0) return [];
+
+    return await db.transaction(async (tx) => {
+      const previous = new Map((await tx.select().from(exchangeRates).for("update")).map(rate => [rate.id, rate]));
+      const saved = await tx
+        .insert(exchangeRates)
+        .values(rates)
+        .onConflictDoUpdate({
+          target: [exchangeRates.baseCurrency, exchangeRates.quoteCurrency, exchangeRates.effectiveDate],
+          set: { rate: sql`excluded.rate`, source: sql`excluded.source` },
+        })
+        .returning();
+      for (const rate of saved) {
+        await this.audit(tx, {
+          userId: null,
+          action: "exchange_rate.save",
+          entityType: "exchange_rate",
+          entityId: rate.id,
+          before: previous.get(rate.id) ?? null,
+          after: rate,
+        });
+      }
+      return saved;
+    });
+  }
+
+  async deleteExchangeRate(id: number): Promise<ExchangeRate | undefined> {
+    return await db.transaction(async (tx) => {
+      const [rate] = await tx.delete(exchangeRates).where(eq(exchangeRates.id, id)).returning();
+      if (rate) {
+        await this.audit(tx, { userId: null, action: "exchange_rate.delete", entityType: "exchange_rate", entityId: id, before: rate });
+      }
+      return rate;
+    });
+  }
+
+  private async ratesBetween(a: string, b: string, executor: DbTransaction | typeof db = db): Promise<ExchangeRate[]> {
+    if (a === b) return [];
+
+    return await executor
+      .select()
+      .from(exchangeRates)
+      .where(or(
+        and(eq(exchangeRates.baseCurrency, a), eq(exchangeRates.quoteCurrency, b)),
+        and(eq(exchangeRates.baseCurrency, b), eq(exchangeRates.quoteCurrency, a))
+      ));
+  }
+
+  // Net Worth methods
+  async getLatestNetWorthSnapshot(userId: number): Promise<NetWorthSnapshot | undefined> {
+    const [snapshot] = await db
+      .select()
+      .from(netWorthSnapshots)
+      .where(eq(netWorthSnapshots.userId, userId))
+      .orderBy(desc(netWorthSnapshots.date))
+      .limit(1);
+    return snapshot;
+  }
+
+  async getNetWorthSnapshots(userId: number, from?: string): Promise<NetWorthSnapshot[]> {
+    return await db
+      .select()
+      .from(netWorthSnapshots)
+      .where(and(
+        eq(netWorthSnapshots.userId, userId),
+        from ? gte(netWorthSnapshots.date, from) : undefined
+      ))
+      .orderBy(asc(netWorthSnapshots.date));
+  }
+
+  async getAccountBalanceSnapshots(userId: number, from?: string): Promise<AccountBalanceSnapshot[]> {
+    return await db
+      .select()
+      .from(accountBalanceSnapshots)
+      .where(and(
+        eq(accountBalanceSnapshots.userId, userId),
+        from ? gte(accountBalanceSnapshots.date, from) : undefined
+      ))
+      .orderBy(asc(accountBalanceSnapshots.date), asc(accountBalanceSnapshots.accountId));
+  }
+
+  // Retaking a day's snapshot replaces it
+  async saveNetWorthSnapshots(snapshots: InsertNetWorthSnapshot[], balances: InsertAccountBalanceSnapshot[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (snapshots.length > 0) {
+        await tx
+          .insert(netWorthSnapshots)
+          .values(snapshots)
+          .onConflictDoUpdate({
+            target: [netWorthSnapshots.userId, netWorthSnapshots.date],
+            set: {
+              currency: sql`excluded.currency`,
+              assets: sql`excluded.assets`,
+              liabilities: sql`excluded.liabilities`,
+              netWorth: sql`excluded.net_worth`,
+              missingRates: sql`excluded.missing_rates`,
+            },
+          });
+      }
+      if (balances.length > 0) {
+        await tx
+          .insert(accountBalanceSnapshots)
+          .values(balances)
+          .onConflictDoUpdate({
+            target: [accountBalanceSnapshots.accountId, accountBalanceSnapshots.date],
+            set: { balance: sql`excluded.balance` },
+          });
+      }
+    });
+  }
+
+  // Audit methods
+  async recordAuditEvent(record: AuditRecord): Promise<AuditEvent> {
+    const [event] = await db.insert(auditEvents).values(auditEventOf(record)).returning();
+    return event;
+  }
+
+  async queryAuditEvents(query: AuditQuery): Promise<AuditEventPage> {
+    const rows = await db
+      .select()
+      .from(auditEvents)
+      .where(and(
+        query.userId !== undefined ? eq(auditEvents.userId, query.userId) : undefined,
+        query.actorId !== undefined ? eq(auditEvents.actorId, query.actorId) : undefined,
+        query.action ? eq(auditEvents.action, query.action) : undefined,
+        query.entityType ? eq(auditEvents.entityType, query.entityType) : undefined,
+        query.entityId !== undefined ? eq(auditEvents.entityId, query.entityId) : undefined,
+        query.requestId ? eq(auditEvents.requestId, query.requestId) : undefined,
+        query.from ? gte(auditEvents.createdAt, query.from) : undefined,
+        query.to ? lte(auditEvents.createdAt, query.to) : undefined,
+        query.cursor !== undefined ? lt(auditEvents.id, query.cursor) : undefined
+      ))
+      .orderBy(desc(auditEvents.id))
+      .limit(query.limit + 1);
+
+    return toAuditEventPage(rows, query);
+  }
+
+  // Session methods
+  // Sessions live in connect-pg-simple's table, keyed by the id passport stores in them
+  async getUserSessions(userId: number): Promise<UserSessionRecord[]> {
+    const result = await db.execute(sql`
+      select sid, sess, expire from "session"
+      where sess -> 'passport' ->> 'user' = ${String(userId)}
+        and expire > now()
+    `);
+    return result.rows.map(row => ({
+      sessionId: row.sid as string,
+      data: row.sess as StoredSession,
+      expiresAt: new Date(row.expire as string),
+    }));
+  }
+
+  async destroyUserSession(userId: number, sessionId: string): Promise<boolean> {
+    const result = await db.execute(sql`
+      delete from "session"
+      where sess -> 'passport' ->> 'user' = ${String(userId)}
+        and sid = ${sessionId}
+    `);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async destroyUserSessions(userId: number, exceptSessionId?: string): Promise<number> {
+    const result = await db.execute(sql`
+      delete from "session"
+      where sess -> 'passport' ->> 'user' = ${String(userId)}
+        and sid <> ${exceptSessionId ?? ""}
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  // Account Deletion methods
+  async scheduleUserDeletion(userId: number, deleteAfter: Date): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!existing) return undefined;
+
+      const [user] = await tx
+        .update(users)
+        .set({ deletionRequestedAt: new Date(), deleteAfter })
+        .where(eq(users.id, userId))
+        .returning();
+      await this.audit(tx, deletionEvent("user.deletion_request", existing, user));
+      return user;
+    });
+  }
+
+  async cancelUserDeletion(userId: number): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!existing?.deleteAfter) return existing;
+
+      const [user] = await tx
+        .update(users)
+        .set({ deletionRequestedAt: null, deleteAfter: null })
+        .where(eq(users.id, userId))
+        .returning();
+      await this.audit(tx, deletionEvent("user.deletion_cancel", existing, user));
+      return user;
+    });
+  }
+
+  async getUsersDueForDeletion(asOf: Date): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(lte(users.deleteAfter, asOf))
+      .orderBy(asc(users.deleteAfter), asc(users.id));
+  }
+
+  async eraseUser(userId: number, receiptId: string, asOf: Date): Promise<ErasureReceipt | undefined> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user?.deleteAfter || !user.deletionRequestedAt || user.deleteAfter > asOf) return undefined;
+
+      const accountIds = (await tx.select({ id: bankAccounts.id }).from(bankAccounts).where(eq(bankAccounts.userId, userId)))
+        .map(account => account.id);
+      const goalIds = (await tx.select({ id: savingGoals.id }).from(savingGoals).where(eq(savingGoals.userId, userId)))
+        .map(goal => goal.id);
+      const erased = (result: { rowCount: number | null }) => result.rowCount ?? 0;
+
+      const erasedRecords: ErasedRecords = {
+        profile: 1,
+        bankAccounts: erased(await tx.delete(bankAccounts).where(eq(bankAccounts.userId, userId))),
+        transactions: accountIds.length > 0
+          ? erased(await tx.delete(transactions).where(inArray(transactions.accountId, accountIds)))
+          : 0,
+        savingGoals: erased(await tx.delete(savingGoals).where(eq(savingGoals.userId, userId))),
+        goalContributions: goalIds.length > 0
+          ? erased(await tx.delete(goalContributions).where(inArray(goalContributions.goalId, goalIds)))
+          : 0,
+        budgets: erased(await tx.delete(budgets).where(eq(budgets.userId, userId))),
+        recurringTransactions: erased(await tx.delete(recurringTransactions).where(eq(recurringTransactions.userId, userId))),
+        categoryRules: erased(await tx.delete(categoryRules).where(eq(categoryRules.userId, userId))),
+        netWorthSnapshots: erased(await tx.delete(netWorthSnapshots).where(eq(netWorthSnapshots.userId, userId))),
+        accountBalanceSnapshots: erased(await tx.delete(accountBalanceSnapshots).where(eq(accountBalanceSnapshots.userId, userId))),
+        journalEntries: erased(await tx.delete(journalEntries).where(eq(journalEntries.userId, userId))),
+        aiAdvices: erased(await tx.delete(aiAdvices).where(eq(aiAdvices.userId, userId))),
+        auditEvents: erased(await tx.delete(auditEvents).where(eq(auditEvents.userId, userId))),
+        sessions: erased(await tx.execute(sql`
+          delete from "session" where sess -> 'passport' ->> 'user' = ${String(userId)}
+        `)),
+        apiTokens: erased(await tx.delete(apiTokens).where(eq(apiTokens.userId, userId))),
+        twoFactorCredentials: erased(await tx.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId))),
+        userPreferences: erased(await tx.delete(userPreferences).where(eq(userPreferences.userId, userId))),
+        passwordResetTokens: erased(await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId))),
+        emailVerificationTokens: erased(await tx.delete(emailVerificationTokens).where(eq(emailVerificationTokens.userId, userId))),
+        loginThrottles: erased(await tx
+          .delete(loginThrottles)
+          .where(and(eq(loginThrottles.scope, "username"), eq(loginThrottles.key, loginThrottleKeyOf(user))))),
+        // By user, which covers mail to addresses they used to have; by address
+        // for mail queued before messages named their user
+        emails: erased(await tx.delete(emailOutbox).where(or(eq(emailOutbox.userId, userId), eq(emailOutbox.to, user.email)))),
+      };
+      await tx.delete(users).where(eq(users.id, userId));
+
+      const [receipt] = await tx
+        .insert(erasureReceipts)
+        .values({ receiptId, userId, requestedAt: user.deletionRequestedAt, erasedRecords })
+        .returning();
+      await this.audit(tx, erasureEvent(receipt));
+      return receipt;
+    });
+  }
+
+  async getErasureReceipt(receiptId: string): Promise<ErasureReceipt | undefined> {
+    const [receipt] = await db.select().from(erasureReceipts).where(eq(erasureReceipts.receiptId, receiptId));
+    return receipt;
+  }
+
+  // Journal Entry methods
+  async getJournalEntry(id: number): Promise<JournalEntry | undefined> {
+    const [entry] = await db.select().from(journalEntries).where(eq(journalEntries.id, id));
+    return entry;
+  }
+
+  async getJournalEntriesByUserId(userId: number): Promise<JournalEntry[]> {
+    return await db
+      .select()
+      .from(journalEntries)
+      .where(eq(journalEntries.userId, userId))
+      .orderBy(desc(journalEntries.date));
+  }
+
+  async createJournalEntry(insertEntry: InsertJournalEntry): Promise<JournalEntry> {
+    const [entry] = await db.insert(journalEntries).values(insertEntry).returning();
+    return entry;
+  }
+
+  // AI Advice methods
+  async getAiAdvice(id: number): Promise<AiAdvice | undefined> {
+    const [advice] = await db.select().from(aiAdvices).where(eq(aiAdvices.id, id));
+    return advice;
+  }
+
+  async getAiAdvicesByUserId(userId: number): Promise<AiAdvice[]> {
+    return await db
+      .select()
+      .from(aiAdvices)
+      .where(eq(aiAdvices.userId, userId))
+      .orderBy(desc(aiAdvices.date));
+  }
+
+  async createAiAdvice(insertAdvice: InsertAiAdvice & { response: string }): Promise<AiAdvice> {
+    const [advice] = await db.insert(aiAdvices).values(insertAdvice).returning();
+    return advice;
+  }
+}
+
+export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+
+  private users = new Map<number, User>();
+  private bankAccounts = new Map<number, BankAccount>();
+  private transactions = new Map<number, Transaction>();
+  private savingGoals = new Map<number, SavingGoal>();
+  private goalContributions = new Map<number, GoalContribution>();
+  private budgets = new Map<number, Budget>();
+  private recurringTransactions = new Map<number, RecurringTransaction>();
+  private categoryRules = new Map<number, CategoryRule>();
+  private journalEntries = new Map<number, JournalEntry>();
+  private aiAdvices = new Map<number, AiAdvice>();
+  private exchangeRates = new Map<number, ExchangeRate>();
+  private netWorthSnapshots = new Map<number, NetWorthSnapshot>();
+  private accountBalanceSnapshots = new Map<number, AccountBalanceSnapshot>();
+  private auditEvents = new Map<number, AuditEvent>();
+  // Keyed by user id
+  private userPreferences = new Map<number, PrivacyPreferences>();
+  private twoFactorCredentials = new Map<number, TwoFactorCredential>();
+  private loginThrottles = new Map<number, LoginThrottle>();
+  private passwordResetTokens = new Map<number, PasswordResetToken>();
+  private emailVerificationTokens = new Map<number, EmailVerificationToken>();
+  private apiTokens = new Map<number, ApiToken>();
+  private emailOutbox = new Map<number, OutboxEmail>();
+  private erasureReceipts = new Map<number, ErasureReceipt>();
+  private nextIds = {
+    users: 1,
+    bankAccounts: 1,
+    transactions: 1,
+    savingGoals: 1,
+    goalContributions: 1,
+    budgets: 1,
+    recurringTransactions: 1,
+    categoryRules: 1,
+    journalEntries: 1,
+    aiAdvices: 1,
+    exchangeRates: 1,
+    netWorthSnapshots: 1,
+    accountBalanceSnapshots: 1,
+    auditEvents: 1,
+    twoFactorCredentials: 1,
+    loginThrottles: 1,
+    passwordResetTokens: 1,
+    emailVerificationTokens: 1,
+    apiTokens: 1,
+    emailOutbox: 1,
+    erasureReceipts: 1,
+  };
+
+  constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000 // prune expired entries every 24h
+    });
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.id - b.id);
+  }
+
+  // Mirror the unique constraints on the users table
+  private assertUserFieldsFree(fields: Partial<Pick<User, "username" | "email">>, exceptId?: number) {
+    for (const existing of Array.from(this.users.values())) {
+      if (existing.id === exceptId) continue;
+      if (fields.username !== undefined && existing.username === fields.username) {
+        throw new Error('duplicate key value violates unique constraint "users_username_unique"');
+      }
+      if (fields.email !== undefined && existing.email === fields.email) {
+        throw new Error('duplicate key value violates unique constraint "users_email_unique"');
+      }
+    }
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    this.assertUserFieldsFree(insertUser);
+
+    const user: User = {
+      ...insertUser,
+      emailVerified: false,
+      homeCurrency: "USD",
+      isAdmin: false,
+      deletionRequestedAt: null,
+      deleteAfter: null,
+      id: this.nextIds.users++,
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    this.audit({ userId: user.id, action: "user.create", entityType: "user", entityId: user.id, after: withoutSecrets(user) });
+    return user;
+  }
+
+  async updateUser(id: number, changes: UserChanges): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    this.assertUserFieldsFree(changes, id);
+
+    const updatedUser = { ...user, ...changes };
+    this.users.set(id, updatedUser);
+    this.audit({
+      userId: id,
+      action: changes.password ? "user.password" : "user.update",
+      entityType: "user",
+      entityId: id,
+      before: withoutSecrets(user),
+      after: withoutSecrets(updatedUser),
+    });
+    return updatedUser;
+  }
+
+  // User Preference methods
+  async getUserPreferences(userId: number): Promise<PrivacyPreferences> {
+    return { ...(this.userPreferences.get(userId) ?? defaultPrivacyPreferences) };
+  }
+
+  async updateUserPreferences(userId: number, changes: UpdatePrivacyPreferences): Promise<PrivacyPreferences> {
+    const before = await this.getUserPreferences(userId);
+    const after = { ...before, ...changes };
+    this.userPreferences.set(userId, after);
+    this.audit({ userId, action: "user.privacy_update", entityType: "user", entityId: userId, before, after });
+    return { ...after };
+  }
+
+  // Two-Factor methods
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    return Array.from(this.twoFactorCredentials.values()).find(credential => credential.userId === userId);
+  }
+
+  async startTwoFactorEnrollment(userId: number, secret: string): Promise<TwoFactorCredential> {
+    const existing = await this.getTwoFactorCredential(userId);
+    if (existing?.enabledAt) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+
+    const credential: TwoFactorCredential = {
+      userId,
+      secret,
+      enabledAt: null,
+      lastUsedStep: null,
+      recoveryCodes: [],
+      id: existing?.id ?? this.nextIds.twoFactorCredentials++,
+      createdAt: new Date(),
+    };
+    this.twoFactorCredentials.set(credential.id, credential);
+    return credential;
+  }
+
+  async enableTwoFactor(userId: number, step: number, recoveryCodes: string[]): Promise<TwoFactorCredential | undefined> {
+    const credential = await this.getTwoFactorCredential(userId);
+    if (!credential || credential.enabledAt) return undefined;
+
+    const enabled = { ...credential, enabledAt: new Date(), lastUsedStep: step, recoveryCodes };
+    this.twoFactorCredentials.set(credential.id, enabled);
+    this.audit(twoFactorEvent("user.two_factor_enable", userId, enabled));
+    return enabled;
+  }
+
+  async useTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const credential = await this.getTwoFactorCredential(userId);
+    if (!credential?.enabledAt) return false;
+    if (credential.lastUsedStep !== null && credential.lastUsedStep >= step) return false;
+
+    this.twoFactorCredentials.set(credential.id, { ...credential, lastUsedStep: step });
+    return true;
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const credential = await this.getTwoFactorCredential(userId);
+    if (!credential?.enabledAt || !credential.recoveryCodes.includes(codeHash)) return false;
+
+    this.twoFactorCredentials.set(credential.id, {
+      ...credential,
+      recoveryCodes: credential.recoveryCodes.filter(hash => hash !== codeHash),
+    });
+    return true;
+  }
+
+  async disableTwoFactor(userId: number): Promise<boolean> {
+    const credential = await this.getTwoFactorCredential(userId);
+    if (!credential) return false;
+
+    this.twoFactorCredentials.delete(credential.id);
+    if (!credential.enabledAt) return false;
+
+    this.audit(twoFactorEvent("user.two_factor_disable", userId, credential));
+    return true;
+  }
+
+  // Login Throttle methods
+  async getLoginThrottle(scope: LoginThrottleScope, key: string): Promise<LoginThrottle | undefined> {
+    return Array.from(this.loginThrottles.values()).find(throttle => throttle.scope === scope && throttle.key === key);
+  }
+
+  async updateLoginThrottle(
+    scope: LoginThrottleScope,
+    key: string,
+    update: (current: LoginThrottleState | undefined) => LoginThrottleState
+  ): Promise<LoginThrottle> {
+    const current = await this.getLoginThrottle(scope, key);
+    const throttle: LoginThrottle = {
+      scope,
+      key,
+      ...update(current),
+      id: current?.id ?? this.nextIds.loginThrottles++,
+    };
+    this.loginThrottles.set(throttle.id, throttle);
+    return throttle;
+  }
+
+  async clearLoginThrottle(scope: LoginThrottleScope, key: string): Promise<void> {
+    const throttle = await this.getLoginThrottle(scope, key);
+    if (throttle) this.loginThrottles.delete(throttle.id);
+  }
+
+  // Password Reset methods
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    for (const token of Array.from(this.passwordResetTokens.values())) {
+      if (token.userId === userId && !token.usedAt) this.passwordResetTokens.delete(token.id);
+    }
+
+    const token: PasswordResetToken = {
+      userId,
+      tokenHash,
+      expiresAt,
+      usedAt: null,
+      id: this.nextIds.passwordResetTokens++,
+      createdAt: new Date(),
+    };
+    this.passwordResetTokens.set(token.id, token);
+    return token;
+  }
+
+  async resetPasswordWithToken(tokenHash: string, password: string): Promise<User | undefined> {
+    const token = Array.from(this.passwordResetTokens.values()).find(token => token.tokenHash === tokenHash);
+    if (!token || token.usedAt || token.expiresAt <= new Date()) return undefined;
+
+    const user = this.users.get(token.userId);
+    if (!user) return undefined;
+
+    this.passwordResetTokens.set(token.id, { ...token, usedAt: new Date() });
+    const updatedUser = { ...user, password };
+    this.users.set(user.id, updatedUser);
+    this.audit({
+      userId: user.id,
+      action: "user.password_reset",
+      entityType: "user",
+      entityId: user.id,
+      before: withoutSecrets(user),
+      after: withoutSecrets(updatedUser),
+    });
+    return updatedUser;
+  }
+
+  // Email Verification methods
+  async createEmailVerificationToken(userId: number, email: string, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken> {
+    for (const token of Array.from(this.emailVerificationTokens.values())) {
+      if (token.userId === userId && !token.usedAt) this.emailVerificationTokens.delete(token.id);
+    }
+
+    const token: EmailVerificationToken = {
+      userId,
+      email,
+      tokenHash,
+      expiresAt,
+      usedAt: null,
+      id: this.nextIds.emailVerificationTokens++,
+      createdAt: new Date(),
+    };
+    this.emailVerificationTokens.set(token.id, token);
+    return token;
+  }
+
+  async verifyEmailWithToken(tokenHash: string): Promise<{ user: User; previousEmail: string } | undefined> {
+    const token = Array.from(this.emailVerificationTokens.values()).find(token => token.tokenHash === tokenHash);
+    if (!token || token.usedAt || token.expiresAt <= new Date()) return undefined;
+
+    const user = this.users.get(token.userId);
+    if (!user) return undefined;
+    this.assertUserFieldsFree({ email: token.email }, user.id);
+
+    this.emailVerificationTokens.set(token.id, { ...token, usedAt: new Date() });
+    const updatedUser = { ...user, email: token.email, emailVerified: true };
+    this.users.set(user.id, updatedUser);
+    this.audit({
+      userId: user.id,
+      action: token.email === user.email ? "user.email_verify" : "user.email_change",
+      entityType: "user",
+      entityId: user.id,
+      before: withoutSecrets(user),
+      after: withoutSecrets(updatedUser),
+    });
+    return { user: updatedUser, previousEmail: user.email };
+  }
+
+  // API Token methods
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    return this.apiTokens.get(id);
+  }
+
+  async getApiTokensByUserId(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const token: ApiToken = {
+      ...insertToken,
+      expiresAt: insertToken.expiresAt ?? null,
+      lastUsedAt: null,
+      lastUsedIp: null,
+      id: this.nextIds.apiTokens++,
+      createdAt: new Date(),
+    };
+    this.apiTokens.set(token.id, token);
+    this.audit(apiTokenEvent("api_token.create", token));
+    return token;
+  }
+
+  async recordApiTokenUse(id: number, ip: string | null, at: Date): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) this.apiTokens.set(id, { ...token, lastUsedAt: at, lastUsedIp: ip });
+  }
+
+  async deleteApiToken(id: number): Promise<ApiToken | undefined> {
+    const token = this.apiTokens.get(id);
+    if (!token) return undefined;
+
+    this.apiTokens.delete(id);
+    this.audit(apiTokenEvent("api_token.revoke", token));
+    return token;
+  }
+
+  // Email Outbox methods
+  async queueEmail(message: MailMessage): Promise<OutboxEmail> {
+    const email: OutboxEmail = { ...message, id: this.nextIds.emailOutbox++, createdAt: new Date() };
+    this.emailOutbox.set(email.id, email);
+    return email;
+  }
+
+  async getOutboxEmails(limit: number): Promise<OutboxEmail[]> {
+    return Array.from(this.emailOutbox.values())
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  // Bank Account methods
+  async getBankAccount(id: number): Promise<BankAccount | undefined> {
+    return this.bankAccounts.get(id);
+  }
+
+  async getBankAccountsByUserId(userId: number): Promise<BankAccount[]> {
+    return Array.from(this.bankAccounts.values()).filter(account => account.userId === userId);
+  }
+
+  async createBankAccount(insertAccount: InsertBankAccount): Promise<BankAccount> {
+    const account: BankAccount = {
+      ...insertAccount,
+      balance: normalizeMoney(insertAccount.balance ?? "0"),
+      currency: insertAccount.currency ?? "USD",
+      creditLimit: insertAccount.creditLimit ?? null,
+      apr: insertAccount.apr ?? null,
+      paymentDueDay: insertAccount.paymentDueDay ?? null,
+      closed: false,
+      id: this.nextIds.bankAccounts++,
+      createdAt: new Date(),
+    };
+    this.bankAccounts.set(account.id, account);
+    this.audit({ userId: account.userId, action: "account.create", entityType: "bank_account", entityId: account.id, after: account });
+    return account;
+  }
+
+  async updateBankAccountBalance(id: number, balance: string): Promise<BankAccount | undefined> {
+    const account = this.bankAccounts.get(id);
+    if (!account) return undefined;
+
+    const updatedAccount = { ...account, balance: normalizeMoney(balance) };
+    this.bankAccounts.set(id, updatedAccount);
+    this.audit({
+      userId: account.userId,
+      action: "account.balance",
+      entityType: "bank_account",
+      entityId: id,
+      before: account,
+      after: updatedAccount,
+    });
+    return updatedAccount;
+  }
+
+  async updateBankAccount(id: number, changes: BankAccountChanges): Promise<BankAccount | undefined> {
+    const account = this.bankAccounts.get(id);
+    if (!account) return undefined;
+
+    const updatedAccount = { ...account, ...changes };
+    this.bankAccounts.set(id, updatedAccount);
+    this.audit({
+      userId: account.userId,
+      action: "account.update",
+      entityType: "bank_account",
+      entityId: id,
+      before: account,
+      after: updatedAccount,
+    });
+    return updatedAccount;
+  }
+
+  async closeBankAccount(id: number): Promise<BankAccount | undefined> {
+    const account = this.bankAccounts.get(id);
+    if (!account) return undefined;
+
+    const hasSchedules = Array.from(this.recurringTransactions.values())
+      .some(recurring => recurring.accountId === id && !recurring.paused);
+    assertCanClose(account, hasSchedules);
+
+    const closedAccount = { ...account, closed: true };
+    this.bankAccounts.set(id, closedAccount);
+    this.audit({
+      userId: account.userId,
+      action: "account.close",
+      entityType: "bank_account",
+      entityId: id,
+      before: account,
+      after: closedAccount,
+    });
+    return closedAccount;
+  }
+
+  async deleteBankAccount(id: number): Promise<BankAccount | undefined> {
+    const account = this.bankAccounts.get(id);
+    if (!account) return undefined;
+
+    assertCanDelete(
+      Array.from(this.transactions.values()).some(transaction => transaction.accountId === id),
+      Array.from(this.recurringTransactions.values()).some(recurring => recurring.accountId === id)
+    );
+
+    for (const snapshot of Array.from(this.accountBalanceSnapshots.values())) {
+      if (snapshot.accountId === id) this.accountBalanceSnapshots.delete(snapshot.id);
+    }
+    this.bankAccounts.delete(id);
+    this.audit({ userId: account.userId, action: "account.delete", entityType: "bank_account", entityId: id, before: account });
+    return account;
+  }
+
+  // Transaction methods
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    return this.transactions.get(id);
+  }
+
+  async getTransactionsByAccountId(accountId: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(transaction => transaction.accountId === accountId)
+      .sort(byDateDesc);
+  }
+
+  async getTransactionsByUserId(userId: number): Promise<Transaction[]> {
+    const accountIds = new Set(
+      (await this.getBankAccountsByUserId(userId)).map(account => account.id)
+    );
+
+    return Array.from(this.transactions.values())
+      .filter(transaction => accountIds.has(transaction.accountId))
+      .sort(byDateDesc);
+  }
+
+  async queryTransactions(userId: number, query: TransactionQuery): Promise<TransactionPage> {
+    const accountIds = new Set(
+      (await this.getBankAccountsByUserId(userId)).map(account => account.id)
+    );
+    const search = query.search?.toLowerCase();
+
+    const matches = Array.from(this.transactions.values()).filter(transaction => {
+      const amount = toCents(transaction.amount);
+      const time = transaction.date?.getTime() ?? 0;
+
+      if (!accountIds.has(transaction.accountId)) return false;
+      if (query.accountId !== undefined && transaction.accountId !== query.accountId) return false;
+      if (query.from && time < query.from.getTime()) return false;
+      if (query.to && time > query.to.getTime()) return false;
+      if (query.category && transaction.category !== query.category) return false;
+      if (query.type && transaction.type !== query.type) return false;
+      if (query.minAmount !== undefined && amount < toCents(query.minAmount)) return false;
+      if (query.maxAmount !== undefined && amount > toCents(query.maxAmount)) return false;
+      if (search &&
+        !transaction.merchant?.toLowerCase().includes(search) &&
+        !transaction.description.toLowerCase().includes(search)) {
+        return false;
+      }
+      return true;
+    });
+
+    const sortKey = (transaction: Transaction) => query.sort.startsWith("date")
+      ? transaction.date?.getTime() ?? 0
+      : toCents(transaction.amount);
+    const direction = query.sort.endsWith("desc") ? -1 : 1;
+    const compare = (a: Transaction, b: Transaction) =>
+      direction * (sortKey(a) - sortKey(b) || a.id - b.id);
+
+    matches.sort(compare);
+
+    let page = matches;
+    if (query.cursor) {
+      const cursorKey = query.sort.startsWith("date")
+        ? new Date(query.cursor.value).getTime()
+        : toCents(query.cursor.value);
+      const cursorId = query.cursor.id;
+      page = matches.filter(transaction =>
+        direction * (sortKey(transaction) - cursorKey || transaction.id - cursorId) > 0
+      );
+    }
+
+    return toTransactionPage(page.slice(0, query.limit + 1), query, matches.length);
+  }
+
+  // Each mutation below runs without awaiting between its reads and writes,
+  // which makes it atomic in the same way as the db.transaction() blocks above.
+  private insertTransaction(insertTransaction: TransactionPosting & Partial<TransactionLinks>): Transaction {
+    const { recurringTransactionId, scheduledFor } = insertTransaction;
+
+    // Checked before inserting, since the balance update comes after
+    const account = this.bankAccounts.get(insertTransaction.accountId);
+    if (account) assertAccountOpen(account);
+
+    // Mirror the unique (recurring_transaction_id, scheduled_for) constraint
+    if (recurringTransactionId !== undefined && scheduledFor !== undefined &&
+        Array.from(this.transactions.values()).some(existing =>
+          existing.recurringTransactionId === recurringTransactionId &&
+          existing.scheduledFor?.getTime() === scheduledFor.getTime())) {
+      throw new Error('duplicate key value violates unique constraint "transactions_recurring_occurrence_unique"');
+    }
+
+    const transaction: Transaction = {
+      ...insertTransaction,
+      amount: normalizeMoney(insertTransaction.amount),
+      category: insertTransaction.category ?? null,
+      merchant: insertTransaction.merchant ?? null,
+      linkedTransactionId: insertTransaction.linkedTransactionId ?? null,
+      reversalOfId: insertTransaction.reversalOfId ?? null,
+      recurringTransactionId: recurringTransactionId ?? null,
+      scheduledFor: scheduledFor ?? null,
+      categoryRuleId: insertTransaction.categoryRuleId ?? null,
+      originalMerchant: insertTransaction.originalMerchant ?? null,
+      exchangeRate: insertTransaction.exchangeRate ?? null,
+      id: this.nextIds.transactions++,
+      date: insertTransaction.date ?? new Date(),
+    };
+    this.transactions.set(transaction.id, transaction);
+    return transaction;
+  }
+
+  async createTransaction(insertTransaction: TransactionPosting): Promise<Transaction> {
+    // Nothing rolls back here, so check the account before storing anything
+    this.assertCanPost(insertTransaction.accountId);
+    const newTransaction = this.insertTransaction(
+      categorize(this.rulesForAccount(insertTransaction.accountId), insertTransaction)
+    );
+
+    // Update account balance
+    const account = this.applyToBalance(newTransaction);
+    this.audit(transactionEvent("transaction.create", account, newTransaction.id, null, newTransaction));
+
+    return newTransaction;
+  }
+
+  async importTransactions(postings: TransactionPosting[]): Promise<Transaction[]> {
+    // Check every account and normalize every amount before inserting anything, so a bad row can't leave a partial import
+    const normalized = postings.map(posting => {
+      this.assertCanPost(posting.accountId);
+      return categorize(this.rulesForAccount(posting.accountId), { ...posting, amount: normalizeMoney(posting.amount) });
+    });
+
+    return normalized.map(posting => {
+      const newTransaction = this.insertTransaction(posting);
+      const account = this.applyToBalance(newTransaction);
+      this.audit(transactionEvent("transaction.create", account, newTransaction.id, null, newTransaction));
+      return newTransaction;
+    });
+  }
+
+  async transferFunds(transferData: TransferData): Promise<{ sourceTransaction: Transaction, targetTransaction: Transaction }> {
+    const { fromAccountId, toAccountId, amount, description } = transferData;
+
+    // Validate accounts and balance
+    const sourceAccount = this.bankAccounts.get(fromAccountId);
+    const targetAccount = this.bankAccounts.get(toAccountId);
+
+    if (!sourceAccount || !targetAccount) {
+      throw new Error("One or both accounts do not exist");
+    }
+    assertAccountOpen(sourceAccount);
+    assertAccountOpen(targetAccount);
+
+    const transferAmount = normalizeMoney(amount);
+
+    if (compareMoney(availableFunds(sourceAccount), transferAmount) < 0) {
+      throw new Error("Insufficient funds for transfer");
+    }
+
+    const exchangeRate = transferRateOf(
+      sourceAccount,
+      targetAccount,
+      this.ratesBetween(sourceAccount.currency, targetAccount.currency)
+    );
+    const creditAmount = exchangeRate ? convertMoney(transferAmount, exchangeRate) : transferAmount;
+
+    const sourceTransaction = this.insertTransaction({
+      accountId: fromAccountId,
+      amount: transferAmount,
+      description: `Transfer: ${description}`,
+      type: 'debit',
+      category: 'Transfer',
+      merchant: 'NeuroBank',
+      exchangeRate
+    });
+
+    const targetTransaction = this.insertTransaction({
+      accountId: toAccountId,
+      amount: creditAmount,
+      description: `Transfer from account ${sourceAccount.accountNumber.substring(sourceAccount.accountNumber.length - 4)}`,
+      type: 'credit',
+      category: 'Transfer',
+      merchant: 'NeuroBank',
+      linkedTransactionId: sourceTransaction.id,
+      exchangeRate
+    });
+    sourceTransaction.linkedTransactionId = targetTransaction.id;
+
+    // Update both account balances
+    this.applyToBalance(sourceTransaction);
+    this.applyToBalance(targetTransaction);
+
+    this.audit(transactionEvent("transfer.create", sourceAccount, sourceTransaction.id, null, { sourceTransaction, targetTransaction }));
+    return { sourceTransaction, targetTransaction };
+  }
+
+  async updateTransaction(id: number, changes: UpdateTransaction): Promise<Transaction | undefined> {
+    const existing = this.transactions.get(id);
+    if (!existing) return undefined;
+
+    assertAmountEditable(existing, changes, !!this.findReversal(id), this.fundsGoal(id));
+
+    // Take the old entry out of the balance and put the edited one in
+    this.applyToBalance(existing, true);
+    const updated = { ...existing, ...withManualEdits(existing, changes) };
+    this.transactions.set(id, updated);
+    const account = this.applyToBalance(updated);
+    this.audit(transactionEvent("transaction.update", account, id, existing, updated));
+
+    return updated;
+  }
+
+  async deleteTransaction(id: number): Promise<Transaction[]> {
+    const legs = this.transactionLegs(id);
+
+    if (legs.some(leg => this.findReversal(leg.id))) {
+      throw new Error("A reversed transaction can't be deleted; delete its reversal first");
+    }
+    legs.forEach(leg => assertNotGoalFunding(this.fundsGoal(leg.id)));
+    this.assertLegAccountsOpen(legs);
+
+    for (const leg of legs) {
+      const account = this.applyToBalance(leg, true);
+      this.transactions.delete(leg.id);
+      this.audit(transactionEvent("transaction.delete", account, leg.id, leg, null));
+    }
+
+    return legs;
+  }
+
+  async reverseTransaction(id: number): Promise<Transaction[]> {
+    const legs = this.transactionLegs(id);
+
+    for (const leg of legs) {
+      assertReversible(leg, !!this.findReversal(leg.id));
+      assertNotGoalFunding(this.fundsGoal(leg.id));
+    }
+    this.assertLegAccountsOpen(legs);
+
+    const reversals = legs.map(leg => {
+      const reversal = this.insertTransaction(reversalOf(leg));
+      const account = this.applyToBalance(reversal);
+      this.audit(transactionEvent("transaction.reverse", account, leg.id, leg, reversal));
+      return reversal;
+    });
+
+    // Reversing a transfer yields a transfer back, linked the same way
+    if (reversals.length === 2) {
+      reversals[0].linkedTransactionId = reversals[1].id;
+      reversals[1].linkedTransactionId = reversals[0].id;
+    }
+
+    return reversals;
+  }
+
+  private rulesForAccount(accountId: number): CategoryRule[] {
+    const account = this.bankAccounts.get(accountId);
+    if (!account) return [];
+    return Array.from(this.categoryRules.values()).filter(rule => rule.userId === account.userId);
+  }
+
+  private transactionLegs(id: number): Transaction[] {
+    const transaction = this.transactions.get(id);
+    if (!transaction) return [];
+    if (transaction.linkedTransactionId === null) return [transaction];
+
+    const linked = this.transactions.get(transaction.linkedTransactionId);
+    return linked ? [transaction, linked] : [transaction];
+  }
+
+  // Both legs of a transfer are checked up front so one can't change without the other
+  private assertLegAccountsOpen(legs: Transaction[]) {
+    for (const leg of legs) {
+      const account = this.bankAccounts.get(leg.accountId);
+      if (account) assertAccountOpen(account);
+    }
+  }
+
+  private fundsGoal(transactionId: number): boolean {
+    return Array.from(this.goalContributions.values()).some(contribution => contribution.transactionId === transactionId);
+  }
+
+  private findReversal(id: number): Transaction | undefined {
+    return Array.from(this.transactions.values()).find(transaction => transaction.reversalOfId === id);
+  }
+
+  // Throws if the account is missing or closed, before anything is stored
+  private assertCanPost(accountId: number) {
+    const account = this.bankAccounts.get(accountId);
+    assertAccountExists(account);
+    assertAccountOpen(account);
+  }
+
+  // Credits add to the account balance and debits subtract; undo takes an
+  // entry that was applied earlier back out. Returns the updated account.
+  private applyToBalance(entry: BalanceEntry, undo = false): BankAccount {
+    const account = this.bankAccounts.get(entry.accountId);
+    assertAccountExists(account);
+    assertAccountOpen(account);
+
+    const newBalance = undo
+      ? subtractMoney(account.balance, signedAmount(entry))
+      : addMoney(account.balance, signedAmount(entry));
+    const updatedAccount = { ...account, balance: newBalance };
+    this.bankAccounts.set(account.id, updatedAccount);
+    return updatedAccount;
+  }
+
+  private audit(record: AuditRecord): AuditEvent {
+    const event: AuditEvent = {
+      ...auditEventOf(record),
+      id: this.nextIds.auditEvents++,
+      createdAt: new Date(),
+    };
+    this.auditEvents.set(event.id, event);
+    return event;
+  }
+
+  // Saving Goal methods
+  async getSavingGoal(id: number): Promise<SavingGoal | undefined> {
+    return this.savingGoals.get(id);
+  }
+
+  async getSavingGoalsByUserId(userId: number): Promise<SavingGoal[]> {
+    return Array.from(this.savingGoals.values()).filter(goal => goal.userId === userId);
+  }
+
+  async createSavingGoal(insertGoal: InsertSavingGoal): Promise<SavingGoal> {
+    const goal: SavingGoal = {
+      ...insertGoal,
+      targetAmount: normalizeMoney(insertGoal.targetAmount),
+      deadline: insertGoal.deadline ?? null,
+      currentAmount: "0.00",
+      completed: false,
+      archived: false,
+      id: this.nextIds.savingGoals++,
+      createdAt: new Date(),
+    };
+    this.savingGoals.set(goal.id, goal);
+    this.audit({ userId: goal.userId, action: "goal.create", entityType: "saving_goal", entityId: goal.id, after: goal });
+    return goal;
+  }
+
+  async updateSavingGoal(id: number, changes: SavingGoalChanges): Promise<SavingGoal | undefined> {
+    const goal = this.savingGoals.get(id);
+    if (!goal) return undefined;
+
+    const updatedGoal = { ...goal, ...goalChangesOf(goal, changes) };
+    this.savingGoals.set(id, updatedGoal);
+    this.audit({
+      userId: goal.userId,
+      action: "goal.update",
+      entityType: "saving_goal",
+      entityId: id,
+      before: goal,
+      after: updatedGoal,
+    });
+    return updatedGoal;
+  }
+
+  async deleteSavingGoal(id: number): Promise<SavingGoal | undefined> {
+    const goal = this.savingGoals.get(id);
+    if (!goal) return undefined;
+    assertGoalEmpty(goal);
+
+    for (const contribution of Array.from(this.goalContributions.values())) {
+      if (contribution.goalId === id) this.goalContributions.delete(contribution.id);
+    }
+    this.savingGoals.delete(id);
+    this.audit({ userId: goal.userId, action: "goal.delete", entityType: "saving_goal", entityId: id, before: goal });
+    return goal;
+  }
+
+  async getGoalContributions(goalId: number): Promise<GoalContribution[]> {
+    return Array.from(this.goalContributions.values())
+      .filter(contribution => contribution.goalId === goalId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) || b.id - a.id);
+  }
+
+  async addGoalContribution(insertContribution: InsertGoalContribution): Promise<GoalContributionResult | undefined> {
+    const goal = this.savingGoals.get(insertContribution.goalId);
+    if (!goal) return undefined;
+
+    const history = Array.from(this.goalContributions.values()).filter(contribution => contribution.goalId === goal.id);
+    const contributionData = { ...insertContribution, amount: normalizeMoney(insertContribution.amount) };
+    const currentAmount = goalBalance(goal, history, contributionData);
+    assertCanFundGoal(goal, this.bankAccounts.get(contributionData.accountId), contributionData);
+
+    const transaction = this.insertTransaction(goalPostingOf(goal, contributionData));
+    const account = this.applyToBalance(transaction);
+    this.audit(transactionEvent("transaction.create", account, transaction.id, null, transaction));
+
+    if (history.length === 0 && compareMoney(goal.currentAmount, 0) !== 0) {
+      this.insertGoalContribution(openingBalanceOf(goal));
+    }
+    const contribution = this.insertGoalContribution({ ...contributionData, transactionId: transaction.id });
+
+    const updatedGoal = {
+      ...goal,
+      currentAmount,
+      completed: compareMoney(currentAmount, goal.targetAmount) >= 0
+    };
+    this.savingGoals.set(goal.id, updatedGoal);
+    this.audit({
+      userId: goal.userId,
+      action: "goal.contribution",
+      entityType: "saving_goal",
+      entityId: goal.id,
+      before: goal,
+      after: { ...updatedGoal, contribution },
+    });
+
+    return { goal: updatedGoal, contribution, transaction };
+  }
+
+  private insertGoalContribution(insertContribution: GoalContributionRow): GoalContribution {
+    const contribution: GoalContribution = {
+      ...insertContribution,
+      note: insertContribution.note ?? null,
+      accountId: insertContribution.accountId ?? null,
+      transactionId: insertContribution.transactionId ?? null,
+      id: this.nextIds.goalContributions++,
+      createdAt: insertContribution.createdAt ?? new Date(),
+    };
+    this.goalContributions.set(contribution.id, contribution);
+    return contribution;
+  }
+
+  // Budget methods
+  async getBudget(id: number): Promise<Budget | undefined> {
+    return this.budgets.get(id);
+  }
+
+  async getBudgetsByUserId(userId: number): Promise<Budget[]> {
+    return Array.from(this.budgets.values())
+      .filter(budget => budget.userId === userId)
+      .sort((a, b) => a.category.localeCompare(b.category));
+  }
+
+  // Mirror the unique (user_id, category) constraint on the budgets table
+  private assertBudgetCategoryFree(userId: number, category: string, exceptId?: number) {
+    const taken = Array.from(this.budgets.values()).some(budget =>
+      budget.userId === userId && budget.category === category && budget.id !== exceptId
+    );
+    if (taken) {
+      throw new Error('duplicate key value violates unique constraint "budgets_user_category_unique"');
+    }
+  }
+
+  async createBudget(insertBudget: InsertBudget): Promise<Budget> {
+    this.assertBudgetCategoryFree(insertBudget.userId, insertBudget.category);
+
+    const budget: Budget = {
+      ...insertBudget,
+      monthlyLimit: normalizeMoney(insertBudget.monthlyLimit),
+      rollover: insertBudget.rollover ?? false,
+      id: this.nextIds.budgets++,
+      createdAt: new Date(),
+    };
+    this.budgets.set(budget.id, budget);
+    this.audit({ userId: budget.userId, action: "budget.create", entityType: "budget", entityId: budget.id, after: budget });
+    return budget;
+  }
+
+  async updateBudget(id: number, changes: UpdateBudget): Promise<Budget | undefined> {
+    const budget = this.budgets.get(id);
+    if (!budget) return undefined;
+
+    if (changes.category !== undefined) {
+      this.assertBudgetCategoryFree(budget.userId, changes.category, id);
+    }
+
+    const updatedBudget = { ...budget, ...changes };
+    this.budgets.set(id, updatedBudget);
+    this.audit({
+      userId: budget.userId,
+      action: "budget.update",
+      entityType: "budget",
+      entityId: id,
+      before: budget,
+      after: updatedBudget,
+    });
+    return updatedBudget;
+  }
+
+  async deleteBudget(id: number): Promise<Budget | undefined> {
+    const budget = this.budgets.get(id);
+    if (!budget) return undefined;
+
+    this.budgets.delete(id);
+    this.audit({ userId: budget.userId, action: "budget.delete", entityType: "budget", entityId: id, before: budget });
+    return budget;
+  }
+
+  async getMonthlySpendingByCategory(userId: number, from: Date, to: Date): Promise<CategorySpending[]> {
+    const totals = new Map<string, CategorySpending>();
+
+    for (const transaction of await this.getTransactionsByUserId(userId)) {
+      const date = transaction.date;
+      if (!date || !transaction.category || date < from || date >= to) continue;
+
+      const month = date.toISOString().slice(0, 7);
+      const currency = this.bankAccounts.get(transaction.accountId)?.currency ?? "USD";
+      const key = `${transaction.category}\u0000${month}\u0000${currency}`;
+      const entry = totals.get(key) ?? { category: transaction.category, month, currency, spent: "0.00" };
+      entry.spent = addMoney(entry.spent, subtractMoney(0, signedAmount(transaction)));
+      totals.set(key, entry);
+    }
+
+    return Array.from(totals.values());
+  }
+
+  // Recurring Transaction methods
+  async getRecurringTransaction(id: number): Promise<RecurringTransaction | undefined> {
+    return this.recurringTransactions.get(id);
+  }
+
+  async getRecurringTransactionsByUserId(userId: number): Promise<RecurringTransaction[]> {
+    return Array.from(this.recurringTransactions.values())
+      .filter(recurring => recurring.userId === userId)
+      .sort(byNextRun);
+  }
+
+  async getDueRecurringTransactions(asOf: Date): Promise<RecurringTransaction[]> {
+    return Array.from(this.recurringTransactions.values())
+      .filter(recurring =>
+        !recurring.paused &&
+        recurring.nextRunAt <= asOf &&
+        (!recurring.endDate || recurring.nextRunAt <= recurring.endDate)
+      )
+      .sort(byNextRun);
+  }
+
+  async getRecurringPosting(recurringTransactionId: number, scheduledFor: Date): Promise<Transaction | undefined> {
+    return Array.from(this.transactions.values()).find(transaction =>
+      transaction.recurringTransactionId === recurringTransactionId &&
+      transaction.scheduledFor?.getTime() === scheduledFor.getTime()
+    );
+  }
+
+  async createRecurringTransaction(insertRecurring: InsertRecurringTransaction & { nextRunAt: Date }): Promise<RecurringTransaction> {
+    const recurring: RecurringTransaction = {
+      ...insertRecurring,
+      amount: normalizeMoney(insertRecurring.amount),
+      category: insertRecurring.category ?? null,
+      merchant: insertRecurring.merchant ?? null,
+      endDate: insertRecurring.endDate ?? null,
+      paused: false,
+      id: this.nextIds.recurringTransactions++,
+      createdAt: new Date(),
+    };
+    this.recurringTransactions.set(recurring.id, recurring);
+    this.audit({
+      userId: recurring.userId,
+      action: "recurring.create",
+      entityType: "recurring_transaction",
+      entityId: recurring.id,
+      after: recurring,
+    });
+    return recurring;
+  }
+
+  async updateRecurringTransaction(id: number, changes: RecurringTransactionState): Promise<RecurringTransaction | undefined> {
+    const recurring = this.recurringTransactions.get(id);
+    if (!recurring) return undefined;
+
+    const updatedRecurring = { ...recurring, ...changes };
+    this.recurringTransactions.set(id, updatedRecurring);
+    this.audit({
+      userId: recurring.userId,
+      action: "recurring.update",
+      entityType: "recurring_transaction",
+      entityId: id,
+      before: recurring,
+      after: updatedRecurring,
+    });
+    return updatedRecurring;
+  }
+
+  async deleteRecurringTransaction(id: number): Promise<RecurringTransaction | undefined> {
+    const recurring = this.recurringTransactions.get(id);
+    if (!recurring) return undefined;
+
+    this.recurringTransactions.delete(id);
+    this.audit({
+      userId: recurring.userId,
+      action: "recurring.delete",
+      entityType: "recurring_transaction",
+      entityId: id,
+      before: recurring,
+    });
+    return recurring;
+  }
+
+  // Category Rule methods
+  async getCategoryRule(id: number): Promise<CategoryRule | undefined> {
+    return this.categoryRules.get(id);
+  }
+
+  async getCategoryRulesByUserId(userId: number): Promise<CategoryRule[]> {
+    return sortRules(Array.from(this.categoryRules.values()).filter(rule => rule.userId === userId));
+  }
+
+  async createCategoryRule(insertRule: InsertCategoryRule): Promise<CategoryRule> {
+    const rule: CategoryRule = {
+      ...insertRule,
+      minAmount: insertRule.minAmount ?? null,
+      maxAmount: insertRule.maxAmount ?? null,
+      merchant: insertRule.merchant ?? null,
+      priority: insertRule.priority ?? 0,
+      id: this.nextIds.categoryRules++,
+      createdAt: new Date(),
+    };
+    this.categoryRules.set(rule.id, rule);
+    this.audit({ userId: rule.userId, action: "category_rule.create", entityType: "category_rule", entityId: rule.id, after: rule });
+    return rule;
+  }
+
+  async updateCategoryRule(id: number, changes: UpdateCategoryRule): Promise<CategoryRule | undefined> {
+    const rule = this.categoryRules.get(id);
+    if (!rule) return undefined;
+
+    const updatedRule = { ...rule, ...changes };
+    this.categoryRules.set(id, updatedRule);
+    this.audit({
+      userId: rule.userId,
+      action: "category_rule.update",
+      entityType: "category_rule",
+      entityId: id,
+      before: rule,
+      after: updatedRule,
+    });
+    return updatedRule;
+  }
+
+  async deleteCategoryRule(id: number): Promise<CategoryRule | undefined> {
+    const rule = this.categoryRules.get(id);
+    if (!rule) return undefined;
+
+    this.categoryRules.delete(id);
+    this.audit({ userId: rule.userId, action: "category_rule.delete", entityType: "category_rule", entityId: id, before: rule });
+    return rule;
+  }
+
+  async applyCategoryRules(userId: number): Promise<number> {
+    const rules = Array.from(this.categoryRules.values()).filter(rule => rule.userId === userId);
+    let updated = 0;
+
+    for (const transaction of Array.from(this.transactions.values())) {
+      if (this.bankAccounts.get(transaction.accountId)?.userId !== userId) continue;
+
+      const changes = recategorize(rules, transaction);
+      if (!changes) continue;
+      const recategorized = { ...transaction, ...changes };
+      this.transactions.set(transaction.id, recategorized);
+      this.audit({
+        userId,
+        action: "transaction.recategorize",
+        entityType: "transaction",
+        entityId: transaction.id,
+        before: transaction,
+        after: recategorized,
+      });
+      updated++;
+    }
+    return updated;
+  }
+
+  // Exchange Rate methods
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return Array.from(this.exchangeRates.values()).sort((a, b) =>
+      b.effectiveDate.localeCompare(a.effectiveDate) ||
+      a.baseCurrency.localeCompare(b.baseCurrency) ||
+      a.quoteCurrency.localeCompare(b.quoteCurrency)
+    );
+  }
+
+  async getExchangeRate(from: string, to: string, on: string): Promise<string | undefined> {
+    return findExchangeRate(this.ratesBetween(from, to), from, to, on);
+  }
+
+  async saveExchangeRates(rates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    return rates.map(insertRate => {
+      // Mirror the unique (base_currency, quote_currency, effective_date) constraint as an upsert
+      const existing = Array.from(this.exchangeRates.values()).find(rate =>
+        rate.baseCurrency === insertRate.baseCurrency &&
+        rate.quoteCurrency === insertRate.quoteCurrency &&
+        rate.effectiveDate === insertRate.effectiveDate
+      );
+
+      const rate: ExchangeRate = existing
+        ? { ...existing, rate: insertRate.rate, source: insertRate.source }
+        : { ...insertRate, id: this.nextIds.exchangeRates++, createdAt: new Date() };
+      this.exchangeRates.set(rate.id, rate);
+      this.audit({
+        userId: null,
+        action: "exchange_rate.save",
+        entityType: "exchange_rate",
+        entityId: rate.id,
+        before: existing ?? null,
+        after: rate,
+      });
+      return rate;
+    });
+  }
+
+  async deleteExchangeRate(id: number): Promise<ExchangeRate | undefined> {
+    const rate = this.exchangeRates.get(id);
+    if (!rate) return undefined;
+
+    this.exchangeRates.delete(id);
+    this.audit({ userId: null, action: "exchange_rate.delete", entityType: "exchange_rate", entityId: id, before: rate });
+    return rate;
+  }
+
+  private ratesBetween(a: string, b: string): ExchangeRate[] {
+    return Array.from(this.exchangeRates.values()).filter(rate =>
+      (rate.baseCurrency === a && rate.quoteCurrency === b) ||
+      (rate.baseCurrency === b && rate.quoteCurrency === a)
+    );
+  }
+
+  // Net Worth methods
+  async getLatestNetWorthSnapshot(userId: number): Promise<NetWorthSnapshot | undefined> {
+    const snapshots = await this.getNetWorthSnapshots(userId);
+    return snapshots[snapshots.length - 1];
+  }
+
+  async getNetWorthSnapshots(userId: number, from?: string): Promise<NetWorthSnapshot[]> {
+    return Array.from(this.netWorthSnapshots.values())
+      .filter(snapshot => snapshot.userId === userId && (!from || snapshot.date >= from))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async getAccountBalanceSnapshots(userId: number, from?: string): Promise<AccountBalanceSnapshot[]> {
+    return Array.from(this.accountBalanceSnapshots.values())
+      .filter(snapshot => snapshot.userId === userId && (!from || snapshot.date >= from))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.accountId - b.accountId);
+  }
+
+  async saveNetWorthSnapshots(snapshots: InsertNetWorthSnapshot[], balances: InsertAccountBalanceSnapshot[]): Promise<void> {
+    // Mirror the unique (user_id, date) and (account_id, date) constraints as upserts
+    for (const insertSnapshot of snapshots) {
+      const existing = Array.from(this.netWorthSnapshots.values()).find(snapshot =>
+        snapshot.userId === insertSnapshot.userId && snapshot.date === insertSnapshot.date
+      );
+      const snapshot: NetWorthSnapshot = {
+        ...insertSnapshot,
+        missingRates: insertSnapshot.missingRates ?? [],
+        id: existing?.id ?? this.nextIds.netWorthSnapshots++,
+        createdAt: existing?.createdAt ?? new Date(),
+      };
+      this.netWorthSnapshots.set(snapshot.id, snapshot);
+    }
+
+    for (const insertBalance of balances) {
+      const existing = Array.from(this.accountBalanceSnapshots.values()).find(snapshot =>
+        snapshot.accountId === insertBalance.accountId && snapshot.date === insertBalance.date
+      );
+      const snapshot: AccountBalanceSnapshot = {
+        ...insertBalance,
+        id: existing?.id ?? this.nextIds.accountBalanceSnapshots++,
+      };
+      this.accountBalanceSnapshots.set(snapshot.id, snapshot);
+    }
+  }
+
+  // Audit methods
+  async recordAuditEvent(record: AuditRecord): Promise<AuditEvent> {
+    return this.audit(record);
+  }
+
+  async queryAuditEvents(query: AuditQuery): Promise<AuditEventPage> {
+    const rows = Array.from(this.auditEvents.values())
+      .filter(event =>
+        (query.userId === undefined || event.userId === query.userId) &&
+        (query.actorId === undefined || event.actorId === query.actorId) &&
+        (!query.action || event.action === query.action) &&
+        (!query.entityType || event.entityType === query.entityType) &&
+        (query.entityId === undefined || event.entityId === query.entityId) &&
+        (!query.requestId || event.requestId === query.requestId) &&
+        (!query.from || event.createdAt >= query.from) &&
+        (!query.to || event.createdAt <= query.to) &&
+        (query.cursor === undefined || event.id < query.cursor)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, query.limit + 1);
+
+    return toAuditEventPage(rows, query);
+  }
+
+  // Session methods
+  async getUserSessions(userId: number): Promise<UserSessionRecord[]> {
+    const sessions = await this.storedSessions();
+    return Object.keys(sessions)
+      .filter(sid => sessions[sid].passport?.user === userId)
+      .map(sid => ({
+        sessionId: sid,
+        data: sessions[sid],
+        expiresAt: sessions[sid].cookie?.expires ? new Date(sessions[sid].cookie.expires) : null,
+      }))
+      .filter(record => !record.expiresAt || record.expiresAt > new Date());
+  }
+
+  async destroyUserSession(userId: number, sessionId: string): Promise<boolean> {
+    const sessions = await this.storedSessions();
+    if (sessions[sessionId]?.passport?.user !== userId) return false;
+
+    await this.destroyStoredSession(sessionId);
+    return true;
+  }
+
+  async destroyUserSessions(userId: number, exceptSessionId?: string): Promise<number> {
+    const sessions = await this.storedSessions();
+    const sessionIds = Object.keys(sessions).filter(sid =>
+      sid !== exceptSessionId && sessions[sid].passport?.user === userId
+    );
+
+    await Promise.all(sessionIds.map(sid => this.destroyStoredSession(sid)));
+    return sessionIds.length;
+  }
+
+  // memorystore can list its sessions, unlike the Postgres store
+  private storedSessions(): Promise<Record<string, StoredSession>> {
+    return new Promise((resolve, reject) => {
+      this.sessionStore.all?.((error, all) => (error ? reject(error) : resolve((all ?? {}) as Record<string, StoredSession>)));
+    });
+  }
+
+  private destroyStoredSession(sessionId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.sessionStore.destroy(sessionId, error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  // Account Deletion methods
+  async scheduleUserDeletion(userId: number, deleteAfter: Date): Promise<User | undefined> {
+    const existing = this.users.get(userId);
+    if (!existing) return undefined;
+
+    const user = { ...existing, deletionRequestedAt: new Date(), deleteAfter };
+    this.users.set(userId, user);
+    this.audit(deletionEvent("user.deletion_request", existing, user));
+    return user;
+  }
+
+  async cancelUserDeletion(userId: number): Promise<User | undefined> {
+    const existing = this.users.get(userId);
+    if (!existing?.deleteAfter) return existing;
+
+    const user = { ...existing, deletionRequestedAt: null, deleteAfter: null };
+    this.users.set(userId, user);
+    this.audit(deletionEvent("user.deletion_cancel", existing, user));
+    return user;
+  }
+
+  async getUsersDueForDeletion(asOf: Date): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => user.deleteAfter && user.deleteAfter <= asOf)
+      .sort((a, b) => a.deleteAfter!.getTime() - b.deleteAfter!.getTime() || a.id - b.id);
+  }
+
+  // Nothing here awaits until the sessions, so no other request can see the erasure half done
+  async eraseUser(userId: number, receiptId: string, asOf: Date): Promise<ErasureReceipt | undefined> {
+    const isDue = (user: User | undefined): user is User & { deletionRequestedAt: Date } =>
+      !!user?.deleteAfter && !!user.deletionRequestedAt && user.deleteAfter <= asOf;
+    if (!isDue(this.users.get(userId))) return undefined;
+
+    // The session store can only be reached asynchronously, so sessions go
+    // first. Everything after runs without yielding, as one step, once the
+    // deletion is confirmed to be still due.
+    const sessions = await this.destroyUserSessions(userId);
+    const user = this.users.get(userId);
+    if (!isDue(user)) return undefined;
+
+    const accountIds = new Set(Array.from(this.bankAccounts.values()).filter(account => account.userId === userId).map(account => account.id));
+    const goalIds = new Set(Array.from(this.savingGoals.values()).filter(goal => goal.userId === userId).map(goal => goal.id));
+    const erase = <T extends { id: number }>(rows: Map<number, T>, belongs: (row: T) => boolean) => {
+      const ids = Array.from(rows.values()).filter(belongs).map(row => row.id);
+      ids.forEach(id => rows.delete(id));
+      return ids.length;
+    };
+
+    const erasedRecords: ErasedRecords = {
+      profile: 1,
+      bankAccounts: erase(this.bankAccounts, account => account.userId === userId),
+      transactions: erase(this.transactions, transaction => accountIds.has(transaction.accountId)),
+      savingGoals: erase(this.savingGoals, goal => goal.userId === userId),
+      goalContributions: erase(this.goalContributions, contribution => goalIds.has(contribution.goalId)),
+      budgets: erase(this.budgets, budget => budget.userId === userId),
+      recurringTransactions: erase(this.recurringTransactions, recurring => recurring.userId === userId),
+      categoryRules: erase(this.categoryRules, rule => rule.userId === userId),
+      netWorthSnapshots: erase(this.netWorthSnapshots, snapshot => snapshot.userId === userId),
+      accountBalanceSnapshots: erase(this.accountBalanceSnapshots, snapshot => snapshot.userId === userId),
+      journalEntries: erase(this.journalEntries, entry => entry.userId === userId),
+      aiAdvices: erase(this.aiAdvices, advice => advice.userId === userId),
+      auditEvents: erase(this.auditEvents, event => event.userId === userId),
+      sessions,
+      apiTokens: erase(this.apiTokens, token => token.userId === userId),
+      twoFactorCredentials: erase(this.twoFactorCredentials, credential => credential.userId === userId),
+      userPreferences: this.userPreferences.delete(userId) ? 1 : 0,
+      passwordResetTokens: erase(this.passwordResetTokens, token => token.userId === userId),
+      emailVerificationTokens: erase(this.emailVerificationTokens, token => token.userId === userId),
+      loginThrottles: erase(this.loginThrottles, throttle => throttle.scope === "username" && throttle.key === loginThrottleKeyOf(user)),
+      emails: erase(this.emailOutbox, email => email.userId === userId || email.to === user.email),
+    };
+    this.users.delete(userId);
+
+    const receipt: ErasureReceipt = {
+      receiptId,
+      userId,
+      requestedAt: user.deletionRequestedAt,
+      erasedAt: new Date(),
+      erasedRecords,
+      id: this.nextIds.erasureReceipts++,
+    };
+    this.erasureReceipts.set(receipt.id, receipt);
+    this.audit(erasureEvent(receipt));
+    return receipt;
+  }
+
+  async getErasureReceipt(receiptId: string): Promise<ErasureReceipt | undefined> {
+    return Array.from(this.erasureReceipts.values()).find(receipt => receipt.receiptId === receiptId);
+  }
+
+  // Journal Entry methods
+  async getJournalEntry(id: number): Promise<JournalEntry | undefined> {
+    return this.journalEntries.get(id);
   }
 
   async getJournalEntriesByUserId(userId: number): Promise<JournalEntry[]> {
-    return await db
-      .select()
-      .from(journalEntries)
-      .where(eq(journalEntries.userId, userId))
-      .orderBy(desc(journalEntries.date));
+    return Array.from(this.journalEntries.values())
+      .filter(entry => entry.userId === userId)
+      .sort(byDateDesc);
   }
 
   async createJournalEntry(insertEntry: InsertJournalEntry): Promise<JournalEntry> {
-    const [entry] = await db.insert(journalEntries).values(insertEntry).returning();
+    const entry: JournalEntry = {
+      ...insertEntry,
+      id: this.nextIds.journalEntries++,
+      date: new Date(),
+    };
+    this.journalEntries.set(entry.id, entry);
     return entry;
   }
 
   // AI Advice methods
   async getAiAdvice(id: number): Promise<AiAdvice | undefined> {
-    const [advice] = await db.select().from(aiAdvices).where(eq(aiAdvices.id, id));
-    return advice;
+    return this.aiAdvices.get(id);
   }
 
   async getAiAdvicesByUserId(userId: number): Promise<AiAdvice[]> {
-    return await db
-      .select()
-      .from(aiAdvices)
-      .where(eq(aiAdvices.userId, userId))
-      .orderBy(desc(aiAdvices.date));
+    return Array.from(this.aiAdvices.values())
+      .filter(advice => advice.userId === userId)
+      .sort(byDateDesc);
   }
 
   async createAiAdvice(insertAdvice: InsertAiAdvice & { response: string }): Promise<AiAdvice> {
-    const [advice] = await db.insert(aiAdvices).values(insertAdvice).returning();
+    const advice: AiAdvice = {
+      ...insertAdvice,
+      id: this.nextIds.aiAdvices++,
+      date: new Date(),
+    };
+    this.aiAdvices.set(advice.id, advice);
     return advice;
   }
 }
 
-export const storage = new DatabaseStorage();
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type TransactionLinks = Pick<Transaction, "linkedTransactionId" | "reversalOfId" | "exchangeRate">;
+type BalanceEntry = Pick<Transaction, "accountId" | "amount" | "type">;
+type RecurringTransactionState = Partial<Pick<RecurringTransaction, "nextRunAt" | "paused">>;
+type GoalContributionRow = typeof goalContributions.$inferInsert;
+type SavingGoalChanges = UpdateSavingGoal & { archived?: boolean };
+type BankAccountChanges = UpdateBankAccount & { closed?: boolean };
+type UserChanges = Partial<Pick<User, "homeCurrency" | "name" | "username" | "password">>;
+type AuditEventRow = Omit<AuditEvent, "id" | "createdAt">;
+type StoredSession = session.SessionData & { passport?: { user?: number } };
+
+// Stamps a change with who made it, from where and in which request. Rows are
+// stored as their JSON form so both drivers hold the same values.
+function auditEventOf(record: AuditRecord): AuditEventRow {
+  const { actorId, ip, requestId } = currentRequestContext();
+  return {
+    ...record,
+    before: toJson(record.before),
+    after: toJson(record.after),
+    actorId,
+    ip,
+    requestId,
+  };
+}
+
+function toJson(value: unknown): unknown {
+  return value === undefined || value === null ? null : JSON.parse(JSON.stringify(value));
+}
+
+// Transactions belong to whoever owns their account
+function transactionEvent(
+  action: AuditAction,
+  account: BankAccount | undefined,
+  entityId: number,
+  before: unknown,
+  after: unknown
+): AuditRecord {
+  return { userId: account?.userId ?? null, action, entityType: "transaction", entityId, before, after };
+}
+
+// Just the switches, without the row's bookkeeping
+function privacyPreferencesOf(row: UserPreference): PrivacyPreferences {
+  const { id, userId, updatedAt, ...preferences } = row;
+  return preferences;
+}
+
+// Records that two-factor was turned on or off; the secret and codes stay out of the log
+function twoFactorEvent(action: AuditAction, userId: number, credential: TwoFactorCredential): AuditRecord {
+  const enabled = action === "user.two_factor_enable";
+  return {
+    userId,
+    action,
+    entityType: "user",
+    entityId: userId,
+    before: { twoFactorEnabled: !enabled },
+    after: { twoFactorEnabled: enabled, recoveryCodesLeft: enabled ? credential.recoveryCodes.length : 0 },
+  };
+}
+
+// Records a token being created or revoked; its hash stays out of the log
+function apiTokenEvent(action: AuditAction, token: ApiToken): AuditRecord {
+  const { tokenHash, lastUsedAt, lastUsedIp, ...logged } = token;
+  const created = action === "api_token.create";
+  return {
+    userId: token.userId,
+    action,
+    entityType: "api_token",
+    entityId: token.id,
+    before: created ? null : logged,
+    after: created ? logged : null,
+  };
+}
+
+// Records a deletion being asked for or called off
+function deletionEvent(action: AuditAction, before: User, after: User): AuditRecord {
+  return { userId: after.id, action, entityType: "user", entityId: after.id, before: withoutSecrets(before), after: withoutSecrets(after) };
+}
+
+// The one event left about an erased user: which receipt covers them
+function erasureEvent(receipt: ErasureReceipt): AuditRecord {
+  return {
+    userId: receipt.userId,
+    action: "user.erase",
+    entityType: "user",
+    entityId: receipt.userId,
+    before: null,
+    after: { receiptId: receipt.receiptId, erasedRecords: receipt.erasedRecords },
+  };
+}
+
+// Failed sign-ins are counted under the username as login-throttle.ts keys it
+function loginThrottleKeyOf(user: User): string {
+  return user.username.trim().toLowerCase();
+}
+
+// Password hashes never go into the audit log
+function withoutSecrets(user: User): Omit<User, "password"> {
+  const { password, ...rest } = user;
+  return rest;
+}
+
+// Takes up to limit + 1 rows, newest first; the extra row only signals that another page exists
+function toAuditEventPage(rows: AuditEvent[], query: AuditQuery): AuditEventPage {
+  const items = rows.slice(0, query.limit);
+  return {
+    items,
+    nextCursor: rows.length > query.limit ? items[items.length - 1].id : null,
+  };
+}
+
+// Cross-currency transfers convert at the day's rate, which both legs record
+function transferRateOf(source: BankAccount, target: BankAccount, rates: ExchangeRate[]): string | null {
+  if (source.currency === target.currency) return null;
+
+  const rate = findExchangeRate(rates, source.currency, target.currency, dateKey());
+  if (!rate) {
+    throw new Error(`There is no exchange rate from ${source.currency} to ${target.currency} yet`);
+  }
+  return rate;
+}
+
+// Credit cards can be spent into their limit; other accounts only down to zero
+function availableFunds(account: BankAccount): string {
+  return account.type === "credit_card" && account.creditLimit !== null
+    ? addMoney(account.balance, account.creditLimit)
+    : account.balance;
+}
+
+function assertAccountExists(account: BankAccount | undefined): asserts account is BankAccount {
+  if (!account) {
+    throw new Error("Account does not exist");
+  }
+}
+
+function assertAccountOpen(account: BankAccount) {
+  if (account.closed) {
+    throw new Error(`${account.name} is closed; reopen it to make changes`);
+  }
+}
+
+function assertCanClose(account: BankAccount, hasActiveSchedules: boolean) {
+  if (compareMoney(account.balance, 0) !== 0) {
+    throw new Error("Only accounts with a zero balance can be closed; move or pay off the remaining balance first");
+  }
+  if (hasActiveSchedules) {
+    throw new Error("Pause or delete the scheduled payments on this account before closing it");
+  }
+}
+
+// Accounts with history are closed instead, so the history stays intact
+function assertCanDelete(hasTransactions: boolean, hasSchedules: boolean) {
+  if (hasTransactions) {
+    throw new Error("Accounts with transactions can't be deleted; close the account instead");
+  }
+  if (hasSchedules) {
+    throw new Error("Delete the scheduled payments on this account before deleting it");
+  }
+}
+
+function signedAmount(entry: BalanceEntry): string {
+  return entry.type === 'debit' ? subtractMoney(0, entry.amount) : normalizeMoney(entry.amount);
+}
+
+// Transfer legs and reversals must keep offsetting their counterpart exactly
+function assertAmountEditable(existing: Transaction, changes: UpdateTransaction, isReversed: boolean, fundsGoal: boolean) {
+  const changesAmount = (changes.amount !== undefined && changes.amount !== existing.amount) ||
+    (changes.type !== undefined && changes.type !== existing.type);
+  if (!changesAmount) return;
+
+  if (existing.linkedTransactionId !== null) {
+    throw new Error("The amount of a transfer can't be edited; reverse the transfer instead");
+  }
+  if (existing.reversalOfId !== null || isReversed) {
+    throw new Error("The amount of a reversed transaction or reversal can't be edited");
+  }
+  assertNotGoalFunding(fundsGoal);
+}
+
+// The goal's balance is built from these entries, so they only change through the goal
+function assertNotGoalFunding(fundsGoal: boolean) {
+  if (fundsGoal) {
+    throw new Error("This transaction moved money for a savings goal; add or release funds on the goal instead");
+  }
+}
+
+// A category or merchant edited by hand is no longer the rules' to change
+function withManualEdits(existing: Transaction, changes: UpdateTransaction): Partial<Transaction> {
+  const edited: Partial<Transaction> = { ...changes };
+  if (changes.category !== undefined && changes.category !== existing.category) {
+    edited.categoryRuleId = null;
+  }
+  if (changes.merchant !== undefined && changes.merchant !== existing.merchant) {
+    edited.originalMerchant = null;
+  }
+  return edited;
+}
+
+function assertReversible(transaction: Transaction, isReversed: boolean) {
+  if (transaction.reversalOfId !== null) {
+    throw new Error("A reversal can't itself be reversed");
+  }
+  if (isReversed) {
+    throw new Error("Transaction has already been reversed");
+  }
+}
+
+function reversalOf(transaction: Transaction): InsertTransaction & TransactionLinks {
+  return {
+    accountId: transaction.accountId,
+    amount: transaction.amount,
+    description: `Reversal: ${transaction.description}`,
+    category: transaction.category,
+    merchant: transaction.merchant,
+    type: transaction.type === 'debit' ? 'credit' : 'debit',
+    linkedTransactionId: null,
+    reversalOfId: transaction.id,
+    exchangeRate: transaction.exchangeRate,
+  };
+}
+
+// What a goal holds once the new contribution lands. Goals saved before the
+// ledger existed have no history, so their stored amount is the starting point.
+function goalBalance(
+  goal: SavingGoal,
+  history: Pick<GoalContribution, "type" | "amount">[],
+  contribution: Pick<GoalContribution, "type" | "amount">
+): string {
+  const opening = history.length === 0 ? goal.currentAmount : "0";
+  const balance = [...history, contribution].reduce(
+    (total, entry) => entry.type === "withdrawal" ? subtractMoney(total, entry.amount) : addMoney(total, entry.amount),
+    opening
+  );
+
+  if (compareMoney(balance, 0) < 0) {
+    throw new Error("You can't withdraw more than the goal has saved");
+  }
+  return balance;
+}
+
+// Completion is worked out again whenever the target moves
+function goalChangesOf(goal: SavingGoal, changes: SavingGoalChanges): Partial<SavingGoal> {
+  const targetAmount = changes.targetAmount !== undefined ? normalizeMoney(changes.targetAmount) : goal.targetAmount;
+  return {
+    ...changes,
+    targetAmount,
+    completed: compareMoney(goal.currentAmount, targetAmount) >= 0,
+  };
+}
+
+// Deleting a goal that still holds money would make that money disappear
+function assertGoalEmpty(goal: SavingGoal) {
+  if (compareMoney(goal.currentAmount, 0) !== 0) {
+    throw new Error("Release this goal's saved funds to an account before deleting it");
+  }
+}
+
+// Records the pre-ledger amount of a goal as its first deposit, from no account
+function openingBalanceOf(goal: SavingGoal): GoalContributionRow {
+  return {
+    goalId: goal.id,
+    type: "deposit",
+    amount: goal.currentAmount,
+    note: "Opening balance",
+    createdAt: goal.createdAt,
+  };
+}
+
+function assertCanFundGoal(goal: SavingGoal, account: BankAccount | undefined, contribution: InsertGoalContribution) {
+  if (goal.archived && contribution.type === "deposit") {
+    throw new Error("Reopen this goal before adding funds to it");
+  }
+  assertAccountExists(account);
+  assertAccountOpen(account);
+  if (contribution.type === "deposit" && compareMoney(availableFunds(account), contribution.amount) < 0) {
+    throw new Error("Insufficient funds for this contribution");
+  }
+}
+
+// The account side of a contribution, categorized like a transfer since the money stays the user's
+function goalPostingOf(goal: SavingGoal, contribution: InsertGoalContribution): InsertTransaction {
+  const isDeposit = contribution.type === "deposit";
+  return {
+    accountId: contribution.accountId,
+    amount: contribution.amount,
+    description: isDeposit ? `Saved to goal: ${goal.name}` : `Released from goal: ${goal.name}`,
+    type: isDeposit ? "debit" : "credit",
+    category: "Transfer",
+    merchant: "NeuroBank",
+  };
+}
+
+// Takes up to limit + 1 sorted rows; the extra row only signals that another page exists
+function toTransactionPage(rows: Transaction[], query: TransactionQuery, total: number): TransactionPage {
+  const items = rows.slice(0, query.limit);
+  const last = items[items.length - 1];
+  const nextCursor = rows.length > query.limit && last
+    ? encodeTransactionCursor({ sort: query.sort, value: cursorValue(last, query.sort), id: last.id })
+    : null;
+
+  return { items, nextCursor, total };
+}
+
+function cursorValue(transaction: Transaction, sort: TransactionSort): string {
+  return sort.startsWith("date")
+    ? (transaction.date ?? new Date(0)).toISOString()
+    : transaction.amount.toString();
+}
+
+// Newest first, with ids breaking ties so rows created in the same millisecond keep insertion order
+function byDateDesc<T extends { id: number; date: Date | null }>(a: T, b: T): number {
+  return (b.date?.getTime() ?? 0) - (a.date?.getTime() ?? 0) || b.id - a.id;
+}
+
+// Soonest due first
+function byNextRun(a: RecurringTransaction, b: RecurringTransaction): number {
+  return a.nextRunAt.getTime() - b.nextRunAt.getTime() || a.id - b.id;
+}
+
+export const storage: IStorage = storageDriver === "memory" ? new MemStorage() : new DatabaseStorage();
@@ -0,0 +1,134 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import type { TwoFactorMethod } from "@shared/schema";
+
+// RFC 6238 time-based one-time passwords: HMAC-SHA1 over the number of
+// 30-second steps since the epoch, truncated to six digits as RFC 4226
+// describes. Every function that reads the time takes `now`, so codes can be
+// checked against a fixed clock without network time or an authenticator app.
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from one step either side still count, to allow for clock drift
+const DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = "NeuroBank";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+// Accepts the spaces, lowercase and padding authenticator apps show secrets with
+export function base32Decode(encoded: string): Buffer {
+  const clean = encoded.toUpperCase().replace(/[\s=]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean.split("")) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+export function timeStep(now = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / STEP_SECONDS);
+}
+
+// RFC 4226 HOTP for a single counter value
+export function hotp(secret: string, counter: number, digits = DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0);
+  message.writeUInt32BE(counter % 2 ** 32, 4);
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+  return binary.toString().padStart(digits, "0");
+}
+
+export function totp(secret: string, now = new Date()): string {
+  return hotp(secret, timeStep(now));
+}
+
+// The step the code belongs to, or null if it matches none near `now`
+export function matchTotpStep(secret: string, code: string, now = new Date()): number | null {
+  const supplied = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(supplied)) return null;
+
+  const current = timeStep(now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (timingSafeEqual(Buffer.from(hotp(secret, step)), Buffer.from(supplied))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// The URI authenticator apps import, directly or from a QR code of it
+export function otpauthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Ten single-use codes like "4f2a-9c1b", shown once; only their hashes are stored
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(4).toString("hex");
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+  });
+}
+
+// Codes are random enough that a plain hash is safe, and one can be looked up directly
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+// Checks a second-factor code for a user with two-factor enabled: an
+// authenticator code, which can't be used twice, or one of their recovery codes,
+// which is used up. Returns which it was, or null if it was neither.
+export async function verifySecondFactor(userId: number, code: string, now = new Date()): Promise<TwoFactorMethod | null> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  if (!credential?.enabledAt) return null;
+
+  const step = matchTotpStep(credential.secret, code, now);
+  if (step !== null) {
+    return (await storage.useTwoFactorStep(userId, step)) ? "totp" : null;
+  }
+  return (await storage.useRecoveryCode(userId, hashRecoveryCode(code))) ? "recovery_code" : null;
+}
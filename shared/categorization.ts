@@ -0,0 +1,124 @@
+import safeRegex from "safe-regex2";
+import { compareMoney } from "./money";
+import type { CategoryRule, InsertTransaction, Transaction } from "./schema";
+
+// User-defined rules fill in the category of transactions that don't have one
+// and replace messy merchant strings ("AMZN MKTP US*2K3") with a clean name.
+// Rules are tried lowest priority first; the first one that matches wins.
+
+type CategorizableEntry = Pick<InsertTransaction, "amount" | "description" | "merchant" | "category"> & {
+  originalMerchant?: string | null;
+};
+
+export type CategoryAssignment = {
+  category: string;
+  merchant: string | null;
+  originalMerchant: string | null;
+  categoryRuleId: number;
+};
+
+export function sortRules(rules: CategoryRule[]): CategoryRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.id - b.id);
+}
+
+export function ruleMatches(rule: CategoryRule, entry: CategorizableEntry): boolean {
+  // Rules match the merchant as the bank sent it, so a renamed row still matches its rule
+  const text = (rule.field === "merchant" ? entry.originalMerchant ?? entry.merchant : entry.description) ?? "";
+
+  const textMatches = rule.matchType === "regex"
+    ? safeRegExp(rule.pattern)?.test(text) ?? false
+    : text.toLowerCase().includes(rule.pattern.toLowerCase());
+  if (!textMatches) return false;
+
+  if (rule.minAmount !== null && compareMoney(entry.amount, rule.minAmount) < 0) return false;
+  if (rule.maxAmount !== null && compareMoney(entry.amount, rule.maxAmount) > 0) return false;
+
+  return true;
+}
+
+// Rules run synchronously on the server for every posting, so a pattern with
+// nested repetition such as "(a+)+$", which can take exponential time on a
+// long description, would stall every request. Such patterns are refused when
+// a rule is saved.
+export function isSafePattern(pattern: string): boolean {
+  return safeRegex(pattern);
+}
+
+// Patterns are validated when rules are saved, but never let one bad rule
+// stop a posting; one stored before the safety check is simply skipped
+function safeRegExp(pattern: string): RegExp | undefined {
+  if (!isSafePattern(pattern)) return undefined;
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    return undefined;
+  }
+}
+
+export function findCategoryAssignment(
+  rules: CategoryRule[],
+  entry: CategorizableEntry
+): CategoryAssignment | undefined {
+  const rule = sortRules(rules).find(candidate => ruleMatches(candidate, entry));
+  if (!rule) return undefined;
+
+  const originalMerchant = entry.originalMerchant ?? entry.merchant ?? null;
+  return {
+    category: rule.category,
+    merchant: rule.merchant ?? originalMerchant,
+    originalMerchant: rule.merchant && rule.merchant !== originalMerchant ? originalMerchant : null,
+    categoryRuleId: rule.id,
+  };
+}
+
+// Categorizes a new entry. Categories entered by hand are kept; only the
+// merchant name is normalized for them.
+export function categorize<T extends CategorizableEntry>(
+  rules: CategoryRule[],
+  entry: T
+): T & { categoryRuleId?: number | null } {
+  const assignment = findCategoryAssignment(rules, entry);
+  if (!assignment) return entry;
+
+  if (entry.category) {
+    return { ...entry, merchant: assignment.merchant, originalMerchant: assignment.originalMerchant };
+  }
+  return { ...entry, ...assignment };
+}
+
+type CategoryFields = Pick<Transaction, "category" | "merchant" | "originalMerchant" | "categoryRuleId">;
+
+// What re-applying the rules would change on an existing transaction, if
+// anything. Categories a rule set are worked out afresh, so editing or
+// deleting a rule updates the rows it categorized, clearing them when no rule
+// matches any more; categories set by hand are left alone.
+export function recategorize(rules: CategoryRule[], transaction: Transaction): CategoryFields | undefined {
+  // Transfers move money between the user's own accounts, which isn't spending
+  if (transaction.linkedTransactionId !== null) return undefined;
+
+  const entry = transaction.categoryRuleId !== null ? { ...transaction, category: null } : transaction;
+  const result = categorize(rules, entry);
+  if (result === entry) {
+    if (transaction.categoryRuleId === null) return undefined;
+    // The rule that set the category also renamed the merchant, so undo both
+    return {
+      category: null,
+      merchant: transaction.originalMerchant ?? transaction.merchant,
+      originalMerchant: null,
+      categoryRuleId: null,
+    };
+  }
+
+  const changes: CategoryFields = {
+    category: result.category ?? null,
+    merchant: result.merchant ?? null,
+    originalMerchant: result.originalMerchant ?? null,
+    categoryRuleId: result.categoryRuleId ?? transaction.categoryRuleId,
+  };
+  const unchanged = changes.category === transaction.category &&
+    changes.merchant === transaction.merchant &&
+    changes.originalMerchant === transaction.originalMerchant &&
+    changes.categoryRuleId === transaction.categoryRuleId;
+
+  return unchanged ? undefined : changes;
+}
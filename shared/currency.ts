@@ -0,0 +1,62 @@
+import { z } from "zod";
+import type { ExchangeRate } from "./schema";
+
+// Currencies are ISO 4217 codes. Rates are kept in a local table, entered by
+// hand or uploaded by an admin, and each says how many units of the quote
+// currency one unit of the base currency buys from its effective date on.
+
+export const DEFAULT_CURRENCY = "USD";
+
+// Offered in pickers; any well-formed code is accepted
+export const commonCurrencies = [
+  "USD", "EUR", "GBP", "CAD", "AUD", "NZD", "JPY", "CHF", "CNY", "INR", "ZAR", "NGN", "KES", "BRL", "MXN",
+] as const;
+
+export const currencyCodeSchema = z.string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "Use a three-letter currency code such as USD");
+
+// Up to 10 decimal places, so rates between small and large units stay exact enough
+export const exchangeRateValueSchema = z.union([z.string(), z.number()])
+  .transform(String)
+  .refine(value => /^\d{1,10}(\.\d{1,10})?$/.test(value.trim()) && Number(value) > 0, {
+    message: "Rate must be a positive number",
+  })
+  .transform(value => value.trim());
+
+export function invertRate(rate: string): string {
+  return String(Number((1 / Number(rate)).toPrecision(10)));
+}
+
+// The rate from one currency to another on a date ("YYYY-MM-DD"). Uses the
+// latest rate in effect by then, in either direction, falling back to the
+// earliest later one for dates before the table starts.
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  on: string
+): string | undefined {
+  if (from === to) return "1";
+
+  const candidates = rates
+    .filter(rate =>
+      (rate.baseCurrency === from && rate.quoteCurrency === to) ||
+      (rate.baseCurrency === to && rate.quoteCurrency === from)
+    )
+    // Newest first; on the same day a direct rate beats an inverted one
+    .sort((a, b) =>
+      b.effectiveDate.localeCompare(a.effectiveDate) ||
+      Number(b.baseCurrency === from) - Number(a.baseCurrency === from)
+    );
+
+  const rate = candidates.find(candidate => candidate.effectiveDate <= on) ?? candidates[candidates.length - 1];
+  if (!rate) return undefined;
+
+  return rate.baseCurrency === from ? rate.rate : invertRate(rate.rate);
+}
+
+export function dateKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,137 @@
+import { z } from "zod";
+
+// Money amounts travel as decimal strings, matching the `numeric` columns,
+// and all arithmetic happens on whole cents so results never pick up binary
+// floating point error. Anything finer than a cent is rounded half away from
+// zero when it is parsed: "0.005" becomes 0.01 and "-0.005" becomes -0.01.
+
+export type MoneyValue = string | number;
+
+const MONEY_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+// Converts a decimal amount to integer cents, or undefined if it isn't one
+export function tryToCents(value: MoneyValue): number | undefined {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return undefined;
+    // toFixed(4) keeps enough digits to round at the cent without float noise
+    value = value.toFixed(4);
+  }
+
+  const match = MONEY_PATTERN.exec(value.trim());
+  if (!match) return undefined;
+
+  const [, sign, whole = "", fraction = ""] = match;
+  if (whole === "" && fraction === "") return undefined;
+
+  let cents = Number(whole || "0") * 100 + Number(fraction.slice(0, 2).padEnd(2, "0"));
+  if (Number(fraction[2] ?? "0") >= 5) cents += 1;
+  if (!Number.isSafeInteger(cents)) return undefined;
+
+  return sign === "-" && cents !== 0 ? -cents : cents;
+}
+
+export function toCents(value: MoneyValue): number {
+  const cents = tryToCents(value);
+  if (cents === undefined) {
+    throw new Error(`Invalid money amount: ${value}`);
+  }
+  return cents;
+}
+
+// Canonical string form with exactly two decimals, e.g. "-12.30"
+export function fromCents(cents: number): string {
+  const sign = cents < 0 ? "-" : "";
+  const abs = Math.abs(cents);
+  return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`;
+}
+
+export function normalizeMoney(value: MoneyValue): string {
+  return fromCents(toCents(value));
+}
+
+export function addMoney(...values: MoneyValue[]): string {
+  return sumMoney(values);
+}
+
+export function subtractMoney(value: MoneyValue, amount: MoneyValue): string {
+  return fromCents(toCents(value) - toCents(amount));
+}
+
+export function sumMoney(values: MoneyValue[]): string {
+  return fromCents(values.reduce<number>((sum, value) => sum + toCents(value), 0));
+}
+
+// Splits an amount into equal parts, rounding each to the cent
+export function divideMoney(value: MoneyValue, divisor: number): string {
+  const cents = toCents(value) / divisor;
+  return fromCents(Math.sign(cents) * Math.round(Math.abs(cents)));
+}
+
+// Converts at an exchange rate such as "1.0845", rounding to the cent. The
+// rate is read as an exact decimal and scaled to an integer, so the product
+// is worked out in integers and rounds the same everywhere.
+export function convertMoney(value: MoneyValue, rate: string | number): string {
+  const amount = toCents(value);
+  const { digits, scale } = toScaledRate(rate);
+  const divisor = BigInt(`1${"0".repeat(scale)}`);
+  const product = BigInt(Math.abs(amount)) * digits;
+  // Half away from zero, as amounts are rounded when parsed
+  let cents = product / divisor;
+  if ((product % divisor) * BigInt(2) >= divisor) cents += BigInt(1);
+  return fromCents(amount < 0 ? -Number(cents) : Number(cents));
+}
+
+const RATE_PATTERN = /^(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+// A non-negative rate as integer digits over a power of ten, e.g. "1.0845" is
+// 10845 / 10^4. Numbers are read from their shortest decimal form, and
+// exponents such as "1.5e-7" (as inverted rates can come out) are expanded.
+function toScaledRate(rate: string | number): { digits: bigint; scale: number } {
+  const match = RATE_PATTERN.exec(String(rate).trim());
+  if (!match || (match[1] === "" && !match[2])) {
+    throw new Error(`Invalid exchange rate: ${rate}`);
+  }
+
+  const [, whole, fraction = "", exponent = "0"] = match;
+  const scale = fraction.length - Number(exponent);
+  return scale < 0
+    ? { digits: BigInt((whole || "0") + fraction + "0".repeat(-scale)), scale: 0 }
+    : { digits: BigInt((whole || "0") + fraction), scale };
+}
+
+// Negative, zero or positive as a < b, a = b or a > b
+export function compareMoney(a: MoneyValue, b: MoneyValue): number {
+  return Math.sign(toCents(a) - toCents(b));
+}
+
+// Approximate value for charts and ratios; never feed it back into arithmetic
+export function moneyToNumber(value: MoneyValue): number {
+  return toCents(value) / 100;
+}
+
+// Share of whole that part makes up, as a percentage
+export function percentOf(part: MoneyValue, whole: MoneyValue): number {
+  const wholeCents = toCents(whole);
+  return wholeCents === 0 ? 0 : (toCents(part) / wholeCents) * 100;
+}
+
+export function formatCurrency(value: MoneyValue, currency = "USD"): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+  }).format(moneyToNumber(value));
+}
+
+// Accepts a string or number amount and yields its canonical string form
+export const moneySchema = z.union([z.string(), z.number()]).transform((value, ctx) => {
+  const cents = tryToCents(value);
+  if (cents === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be a valid money amount" });
+    return z.NEVER;
+  }
+  return fromCents(cents);
+});
+
+export const positiveMoneySchema = moneySchema.refine(value => toCents(value) > 0, {
+  message: "Amount must be greater than 0",
+});
@@ -0,0 +1,160 @@
+import { z } from "zod";
+
+// Recurring transactions are scheduled with a subset of iCalendar RRULE:
+//
+//   FREQ=DAILY|WEEKLY|MONTHLY|YEARLY   required
+//   INTERVAL=n                         every n days/weeks/months/years (default 1)
+//   BYDAY=MO,WE,FR                     weekly only: the weekdays to run on
+//   BYMONTHDAY=n                       monthly only: day of month, -1 for the last day
+//
+// e.g. "FREQ=MONTHLY;BYMONTHDAY=1" for rent or "FREQ=WEEKLY;INTERVAL=2;BYDAY=FR"
+// for a fortnightly salary. Occurrences keep the start date's time of day and
+// are calculated in UTC. Days past the end of a month clamp to its last day.
+
+export const recurrenceFrequencies = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+type Weekday = typeof WEEKDAYS[number];
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseRecurrenceRule(rule: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of rule.split(";")) {
+    if (!part.trim()) continue;
+    const [key, value] = part.split("=");
+    if (!key || value === undefined || parts.has(key.trim().toUpperCase())) {
+      throw new Error(`Invalid recurrence rule part: ${part}`);
+    }
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq || !recurrenceFrequencies.includes(freq)) {
+    throw new Error("Recurrence rule needs FREQ=DAILY, WEEKLY, MONTHLY or YEARLY");
+  }
+
+  const interval = Number(parts.get("INTERVAL") ?? "1");
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error("INTERVAL must be a positive whole number");
+  }
+
+  const parsed: RecurrenceRule = { freq, interval };
+
+  const byDay = parts.get("BYDAY");
+  if (byDay !== undefined) {
+    if (freq !== "WEEKLY") throw new Error("BYDAY is only supported with FREQ=WEEKLY");
+    const days = byDay.split(",");
+    if (!days.every((day): day is Weekday => (WEEKDAYS as readonly string[]).includes(day))) {
+      throw new Error("BYDAY must list weekdays as MO, TU, WE, TH, FR, SA or SU");
+    }
+    parsed.byDay = WEEKDAYS.filter(day => days.includes(day));
+  }
+
+  const byMonthDay = parts.get("BYMONTHDAY");
+  if (byMonthDay !== undefined) {
+    if (freq !== "MONTHLY") throw new Error("BYMONTHDAY is only supported with FREQ=MONTHLY");
+    const day = Number(byMonthDay);
+    if (!Number.isInteger(day) || day === 0 || day < -1 || day > 31) {
+      throw new Error("BYMONTHDAY must be between 1 and 31, or -1 for the last day");
+    }
+    parsed.byMonthDay = day;
+  }
+
+  for (const key of Array.from(parts.keys())) {
+    if (!["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY"].includes(key)) {
+      throw new Error(`Unsupported recurrence rule part: ${key}`);
+    }
+  }
+
+  return parsed;
+}
+
+export const recurrenceRuleSchema = z.string().superRefine((rule, ctx) => {
+  try {
+    parseRecurrenceRule(rule);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+  }
+});
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+// The date in the given month with the start's time of day, clamping the day
+function atMonthDay(start: Date, year: number, monthIndex: number, day: number): Date {
+  const lastDay = daysInMonth(year, monthIndex);
+  const date = new Date(start);
+  date.setUTCFullYear(year, monthIndex, day === -1 ? lastDay : Math.min(day, lastDay));
+  return date;
+}
+
+// The occurrences in the i-th period (day, week, month or year) of the schedule
+function occurrencesInPeriod(rule: RecurrenceRule, start: Date, i: number): Date[] {
+  const step = i * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY":
+      return [new Date(start.getTime() + step * DAY_MS)];
+
+    case "WEEKLY": {
+      if (!rule.byDay) {
+        return [new Date(start.getTime() + step * 7 * DAY_MS)];
+      }
+      // Weeks run Monday to Sunday, counted from the week containing start
+      const startOffset = (start.getUTCDay() + 6) % 7;
+      const weekStart = start.getTime() - startOffset * DAY_MS + step * 7 * DAY_MS;
+      return rule.byDay
+        .map(day => new Date(weekStart + WEEKDAYS.indexOf(day) * DAY_MS))
+        .filter(date => date >= start);
+    }
+
+    case "MONTHLY": {
+      const monthIndex = start.getUTCMonth() + step;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const date = atMonthDay(start, year, monthIndex % 12, rule.byMonthDay ?? start.getUTCDate());
+      return date >= start ? [date] : [];
+    }
+
+    case "YEARLY":
+      return [atMonthDay(start, start.getUTCFullYear() + step, start.getUTCMonth(), start.getUTCDate())];
+  }
+}
+
+// The first occurrence strictly after `after`
+export function nextOccurrence(rule: string, start: Date, after: Date): Date {
+  const parsed = parseRecurrenceRule(rule);
+  for (let i = 0; ; i++) {
+    const date = occurrencesInPeriod(parsed, start, i).find(occurrence => occurrence > after);
+    if (date) return date;
+  }
+}
+
+// The first occurrence on or after the start date itself
+export function firstOccurrence(rule: string, start: Date): Date {
+  return nextOccurrence(rule, start, new Date(start.getTime() - 1));
+}
+
+export function describeRecurrenceRule(rule: string): string {
+  const parsed = parseRecurrenceRule(rule);
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" }[parsed.freq];
+  let description = parsed.interval === 1 ? `Every ${unit}` : `Every ${parsed.interval} ${unit}s`;
+
+  if (parsed.byDay) {
+    description += ` on ${parsed.byDay.join(", ")}`;
+  }
+  if (parsed.byMonthDay !== undefined) {
+    description += parsed.byMonthDay === -1 ? " on the last day" : ` on day ${parsed.byMonthDay}`;
+  }
+
+  return description;
+}
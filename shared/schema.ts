@@ -1,6 +1,10 @@
-import { pgTable, text, serial, integer, numeric, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, numeric, timestamp, boolean, unique, date, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { compareMoney, moneySchema, positiveMoneySchema } from "./money";
+import { recurrenceRuleSchema } from "./recurrence";
+import { currencyCodeSchema, exchangeRateValueSchema } from "./currency";
+import { isSafePattern } from "./categorization";
 
 // User schema
 export const users = pgTable("users", {
@@ -9,9 +13,117 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name").notNull(),
   email: text("email").notNull().unique(),
+  emailVerified: boolean("email_verified").notNull().default(false), // set once a link sent to the address is opened
+  homeCurrency: text("home_currency").notNull().default("USD"), // totals across accounts are converted into this
+  isAdmin: boolean("is_admin").notNull().default(false), // may maintain shared data such as exchange rates
+  deletionRequestedAt: timestamp("deletion_requested_at"), // set while the user's deletion is pending
+  deleteAfter: timestamp("delete_after"), // the account is erased once this passes, unless the user cancels
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// User preference schema: the switches on the Privacy tab. Users without a
+// row have the column defaults. Each switch that is off keeps the data it
+// names away from the features that would use it.
+export const userPreferences = pgTable("user_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  dataAnalysis: boolean("data_analysis").notNull().default(true), // the AI advisor may analyse transactions
+  aiAdvisor: boolean("ai_advisor").notNull().default(true), // the AI advisor may be asked at all
+  aiUsesJournal: boolean("ai_uses_journal").notNull().default(true), // the AI advisor may consider journal moods
+  marketingEmails: boolean("marketing_emails").notNull().default(false), // offers based on financial activity
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Two-factor credential schema: a user's TOTP secret, from the moment they
+// start enrolling. Kept apart from users so the secret never travels with
+// the user row.
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  secret: text("secret").notNull(), // base32, as authenticator apps take it
+  enabledAt: timestamp("enabled_at"), // null until the user confirms a first code
+  lastUsedStep: integer("last_used_step"), // codes from this time step or earlier are spent
+  recoveryCodes: text("recovery_codes").array().notNull().default([]), // SHA-256 hashes of the unused codes
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Login throttle schema: recent failed sign-ins for one username or one IP
+// address, and until when further attempts from it are refused. Usernames
+// that don't exist are counted too, so a lockout says nothing about them.
+export const loginThrottles = pgTable("login_throttles", {
+  id: serial("id").primaryKey(),
+  scope: text("scope").notNull(), // one of loginThrottleScopes
+  key: text("key").notNull(), // the lowercased username or the IP address
+  failures: integer("failures").notNull().default(0),
+  lastFailedAt: timestamp("last_failed_at"),
+  blockedUntil: timestamp("blocked_until"),
+}, (table) => [
+  unique("login_throttles_scope_key_unique").on(table.scope, table.key),
+]);
+
+// Password reset token schema: one outstanding "forgot password" link per
+// user. Only a hash of the token is stored; the token itself is in the email.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256, hex
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Email verification token schema: a link sent to an address to prove the
+// user owns it, either their current one or one they want to change to. The
+// address only replaces theirs once the link is opened.
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  email: text("email").notNull(), // the address being verified
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256, hex
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// API token schema: a personal access token a user created for their own
+// scripts. Only a hash of the token is stored; the token itself is shown once,
+// when it's created. Each token may only do what its scopes allow.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256, hex
+  prefix: text("prefix").notNull(), // the start of the token, to tell tokens apart
+  scopes: text("scopes").array().notNull(), // from apiTokenScopes
+  expiresAt: timestamp("expires_at"), // null for tokens that never expire
+  lastUsedAt: timestamp("last_used_at"), // updated at most once a minute
+  lastUsedIp: text("last_used_ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Erasure receipt schema: proof that a deleted user's data was erased, and
+// how much of each kind. It outlives the user, so it holds nothing about them
+// but their former id; the receipt id is what they were given to quote.
+export const erasureReceipts = pgTable("erasure_receipts", {
+  id: serial("id").primaryKey(),
+  receiptId: text("receipt_id").notNull().unique(), // random UUID
+  userId: integer("user_id").notNull(),
+  requestedAt: timestamp("requested_at").notNull(),
+  erasedAt: timestamp("erased_at").notNull().defaultNow(),
+  erasedRecords: jsonb("erased_records").$type<ErasedRecords>().notNull(), // rows removed per dataset
+});
+
+// Email outbox schema: every message the app has sent through the default
+// mail transport, kept so mail can be read without a mail server
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  to: text("to_address").notNull(),
+  userId: integer("user_id"), // whose account the message is about, so erasing the user removes it
+  subject: text("subject").notNull(),
+  text: text("body").notNull(), // plain text
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Bank Account schema
 export const bankAccounts = pgTable("bank_accounts", {
   id: serial("id").primaryKey(),
@@ -19,7 +131,12 @@ export const bankAccounts = pgTable("bank_accounts", {
   name: text("name").notNull(),
   accountNumber: text("account_number").notNull(),
   balance: numeric("balance").notNull().default("0"),
-  type: text("type").notNull(),
+  type: text("type").notNull(), // one of bankAccountTypes
+  currency: text("currency").notNull().default("USD"), // ISO 4217 code; the balance and every transaction are in it
+  creditLimit: numeric("credit_limit"), // credit cards only
+  apr: numeric("apr"), // annual percentage rate, for credit cards and loans
+  paymentDueDay: integer("payment_due_day"), // day of the month a payment is due, for credit cards and loans
+  closed: boolean("closed").notNull().default(false), // closed accounts keep their history but move no money
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -33,7 +150,17 @@ export const transactions = pgTable("transactions", {
   merchant: text("merchant"),
   date: timestamp("date").defaultNow(),
   type: text("type").notNull(), // 'debit' or 'credit'
-});
+  linkedTransactionId: integer("linked_transaction_id"), // the other leg of a transfer
+  reversalOfId: integer("reversal_of_id"), // the entry this one offsets, if it is a reversal
+  recurringTransactionId: integer("recurring_transaction_id"), // the schedule that posted it, if any
+  scheduledFor: timestamp("scheduled_for"), // the schedule's due date this posting covers
+  categoryRuleId: integer("category_rule_id"), // the rule that set category and merchant, null if set by hand
+  originalMerchant: text("original_merchant"), // the merchant as received, kept when a rule renames it
+  exchangeRate: numeric("exchange_rate"), // source to target currency rate, on both legs of a cross-currency transfer
+}, (table) => [
+  // A schedule can only ever post each due date once, however often it catches up
+  unique("transactions_recurring_occurrence_unique").on(table.recurringTransactionId, table.scheduledFor),
+]);
 
 // Saving Goal schema
 export const savingGoals = pgTable("saving_goals", {
@@ -43,8 +170,85 @@ export const savingGoals = pgTable("saving_goals", {
   targetAmount: numeric("target_amount").notNull(),
   currentAmount: numeric("current_amount").notNull().default("0"),
   deadline: timestamp("deadline"),
-  completed: boolean("completed").default(false),
+  completed: boolean("completed").default(false), // follows currentAmount reaching targetAmount
+  archived: boolean("archived").notNull().default(false), // put away; hidden from active and completed goals
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Goal contribution schema: every deposit into and withdrawal from a goal.
+// A goal's currentAmount is the sum of its contributions, and each one moves
+// money out of or back into one of the user's bank accounts.
+export const goalContributions = pgTable("goal_contributions", {
+  id: serial("id").primaryKey(),
+  goalId: integer("goal_id").notNull(),
+  type: text("type").notNull(), // 'deposit' or 'withdrawal'
+  amount: numeric("amount").notNull(), // always positive; type gives the direction
+  note: text("note"),
+  accountId: integer("account_id"), // the account the money came from or went back to
+  transactionId: integer("transaction_id"), // the entry that moved it; both null for opening balances
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Exchange rate schema: one unit of baseCurrency buys `rate` of quoteCurrency
+// from effectiveDate until a later rate for the pair takes over
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  baseCurrency: text("base_currency").notNull(),
+  quoteCurrency: text("quote_currency").notNull(),
+  rate: numeric("rate").notNull(),
+  effectiveDate: date("effective_date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  source: text("source").notNull(), // 'manual' or 'upload'
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // Entering a pair's rate for a day again replaces it
+  unique("exchange_rates_pair_date_unique").on(table.baseCurrency, table.quoteCurrency, table.effectiveDate),
+]);
+
+// Net worth snapshot schema: a user's position at the end of each day (UTC),
+// in their home currency. Liabilities are what credit cards and loans owe and
+// count against net worth: netWorth = assets - liabilities.
+export const netWorthSnapshots = pgTable("net_worth_snapshots", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  currency: text("currency").notNull(), // the home currency when it was taken
+  assets: numeric("assets").notNull(),
+  liabilities: numeric("liabilities").notNull(),
+  netWorth: numeric("net_worth").notNull(),
+  missingRates: text("missing_rates").array().notNull().default([]), // currencies left out for lack of a rate
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("net_worth_snapshots_user_date_unique").on(table.userId, table.date),
+]);
+
+// Account balance snapshot schema: each account's balance at the end of each
+// day, in the account's own currency; the per-account detail behind net worth
+export const accountBalanceSnapshots = pgTable("account_balance_snapshots", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull(),
+  userId: integer("user_id").notNull(),
+  date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  balance: numeric("balance").notNull(),
+}, (table) => [
+  unique("account_balance_snapshots_account_date_unique").on(table.accountId, table.date),
+]);
+
+// Audit event schema: an append-only trail of every change to financial data
+// and every sign-in, with who made it, from where and in which request.
+// Nothing updates these rows, and the only deletion is of a user's own events
+// when their account is erased; the "user.erase" event then stands in for them.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"), // whose data changed; null for shared data such as exchange rates
+  actorId: integer("actor_id"), // who made the change; null for background jobs
+  action: text("action").notNull(), // one of auditActions
+  entityType: text("entity_type").notNull(), // one of auditEntityTypes
+  entityId: integer("entity_id"),
+  before: jsonb("before"), // the row before the change, null for creations
+  after: jsonb("after"), // the row after the change, null for deletions
+  ip: text("ip"),
+  requestId: text("request_id"), // matches the X-Request-Id response header
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Journal Entry schema
@@ -65,23 +269,134 @@ export const aiAdvices = pgTable("ai_advices", {
   date: timestamp("date").defaultNow(),
 });
 
+// Spending categories offered when entering a payment or budget
+export const transactionCategories = [
+  "Shopping",
+  "Food & Drink",
+  "Transportation",
+  "Entertainment",
+  "Utilities",
+  "Housing",
+  "Healthcare",
+  "Travel",
+  "Education",
+  "Other",
+] as const;
+
+// Budget schema: one monthly spending limit per user and category
+export const budgets = pgTable("budgets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  category: text("category").notNull(), // matched against transactions.category
+  monthlyLimit: numeric("monthly_limit").notNull(),
+  rollover: boolean("rollover").notNull().default(false), // carry unspent amounts into the next month
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("budgets_user_category_unique").on(table.userId, table.category),
+]);
+
+// Recurring transaction schema: a template posted to an account on a schedule
+export const recurringTransactions = pgTable("recurring_transactions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  accountId: integer("account_id").notNull(),
+  amount: numeric("amount").notNull(),
+  description: text("description").notNull(),
+  category: text("category"),
+  merchant: text("merchant"),
+  type: text("type").notNull(), // 'debit' or 'credit'
+  rule: text("rule").notNull(), // RRULE subset, see shared/recurrence.ts
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date"), // no occurrences are posted after this
+  nextRunAt: timestamp("next_run_at").notNull(), // the earliest occurrence not yet posted or skipped
+  paused: boolean("paused").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Category rule schema: fills in category and a clean merchant name on matching transactions
+export const categoryRules = pgTable("category_rules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  field: text("field").notNull(), // 'merchant' or 'description'
+  matchType: text("match_type").notNull(), // 'contains' or 'regex', both case-insensitive
+  pattern: text("pattern").notNull(),
+  minAmount: numeric("min_amount"), // inclusive bounds on the unsigned amount
+  maxAmount: numeric("max_amount"),
+  category: text("category").notNull(),
+  merchant: text("merchant"), // normalized merchant name, replacing the raw one
+  priority: integer("priority").notNull().default(0), // lowest first; the first matching rule wins
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Zod schemas for input validation
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  email: (schema) => schema.trim().email("Please enter a valid email address"),
+}).pick({
   username: true,
   password: true,
   name: true,
   email: true,
 });
 
-export const insertBankAccountSchema = createInsertSchema(bankAccounts).pick({
+export const bankAccountTypes = ["checking", "savings", "credit_card", "loan", "cash", "investment"] as const;
+export type BankAccountType = typeof bankAccountTypes[number];
+
+const bankAccountShape = createInsertSchema(bankAccounts, {
+  name: (schema) => schema.trim().min(1),
+  balance: moneySchema.optional(),
+  type: z.enum(bankAccountTypes),
+  currency: currencyCodeSchema.optional(),
+  creditLimit: positiveMoneySchema.nullish(),
+  apr: z.union([z.string(), z.number()])
+    .transform(String)
+    .refine(value => /^\d{1,3}(\.\d{1,3})?$/.test(value) && Number(value) <= 100, {
+      message: "APR must be a percentage between 0 and 100",
+    })
+    .nullish(),
+  paymentDueDay: z.number().int().min(1).max(31).nullish(),
+}).pick({
   userId: true,
   name: true,
   accountNumber: true,
   balance: true,
   type: true,
+  currency: true,
+  creditLimit: true,
+  apr: true,
+  paymentDueDay: true,
 });
 
-export const insertTransactionSchema = createInsertSchema(transactions).pick({
+// Credit limits only make sense for credit cards, and APR and due days only for borrowing
+function hasOnlyTypeFields(account: {
+  type?: string;
+  creditLimit?: string | null;
+  apr?: string | null;
+  paymentDueDay?: number | null;
+}): boolean {
+  const isCredit = account.type === "credit_card";
+  const isBorrowing = isCredit || account.type === "loan";
+  return (isCredit || account.creditLimit == null) &&
+    (isBorrowing || (account.apr == null && account.paymentDueDay == null));
+}
+
+const typeFieldsMessage = {
+  message: "Credit limits apply only to credit cards, and APR and due days only to credit cards and loans",
+  path: ["type"],
+};
+
+export const insertBankAccountSchema = bankAccountShape.refine(hasOnlyTypeFields, typeFieldsMessage);
+
+// An account keeps its type; the route checks changes against the stored account
+export const updateBankAccountSchema = bankAccountShape.pick({
+  name: true,
+  creditLimit: true,
+  apr: true,
+  paymentDueDay: true,
+}).partial();
+
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  amount: positiveMoneySchema,
+}).pick({
   accountId: true,
   amount: true,
   description: true,
@@ -90,13 +405,212 @@ export const insertTransactionSchema = createInsertSchema(transactions).pick({
   type: true,
 });
 
-export const insertSavingGoalSchema = createInsertSchema(savingGoals).pick({
+export const updateTransactionSchema = insertTransactionSchema.pick({
+  amount: true,
+  description: true,
+  category: true,
+  merchant: true,
+  type: true,
+}).partial();
+
+export const insertSavingGoalSchema = createInsertSchema(savingGoals, {
+  name: (schema) => schema.trim().min(1),
+  targetAmount: positiveMoneySchema,
+  deadline: z.coerce.date().nullish(),
+}).pick({
   userId: true,
   name: true,
   targetAmount: true,
   deadline: true,
 });
 
+export const updateSavingGoalSchema = insertSavingGoalSchema.omit({ userId: true }).partial();
+
+export const goalContributionTypes = ["deposit", "withdrawal"] as const;
+
+export const insertGoalContributionSchema = createInsertSchema(goalContributions, {
+  type: z.enum(goalContributionTypes),
+  amount: positiveMoneySchema,
+  note: z.string().trim().max(200).nullish(),
+  accountId: z.number().int(),
+}).pick({
+  goalId: true,
+  type: true,
+  amount: true,
+  note: true,
+  accountId: true,
+});
+
+export const insertBudgetSchema = createInsertSchema(budgets, {
+  category: (schema) => schema.trim().min(1),
+  monthlyLimit: positiveMoneySchema,
+}).pick({
+  userId: true,
+  category: true,
+  monthlyLimit: true,
+  rollover: true,
+});
+
+export const updateBudgetSchema = insertBudgetSchema.pick({
+  category: true,
+  monthlyLimit: true,
+  rollover: true,
+}).partial();
+
+export const insertRecurringTransactionSchema = createInsertSchema(recurringTransactions, {
+  amount: positiveMoneySchema,
+  type: z.enum(["debit", "credit"]),
+  rule: recurrenceRuleSchema,
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullish(),
+}).pick({
+  userId: true,
+  accountId: true,
+  amount: true,
+  description: true,
+  category: true,
+  merchant: true,
+  type: true,
+  rule: true,
+  startDate: true,
+  endDate: true,
+}).refine(data => !data.endDate || data.endDate >= data.startDate, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+});
+
+export const categoryRuleFields = ["merchant", "description"] as const;
+export const categoryRuleMatchTypes = ["contains", "regex"] as const;
+
+const categoryRuleShape = createInsertSchema(categoryRules, {
+  field: z.enum(categoryRuleFields),
+  matchType: z.enum(categoryRuleMatchTypes),
+  pattern: (schema) => schema.trim().min(1).max(200),
+  minAmount: moneySchema.nullish(),
+  maxAmount: moneySchema.nullish(),
+  category: (schema) => schema.trim().min(1),
+  merchant: z.string().trim().min(1).nullish(),
+}).pick({
+  userId: true,
+  field: true,
+  matchType: true,
+  pattern: true,
+  minAmount: true,
+  maxAmount: true,
+  category: true,
+  merchant: true,
+  priority: true,
+});
+
+function isValidPattern(rule: { matchType?: string; pattern?: string }): boolean {
+  if (rule.matchType !== "regex" || rule.pattern === undefined) return true;
+  try {
+    new RegExp(rule.pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isSafeRegexPattern(rule: { matchType?: string; pattern?: string }): boolean {
+  return rule.matchType !== "regex" || rule.pattern === undefined || isSafePattern(rule.pattern);
+}
+
+function isValidAmountRange(rule: { minAmount?: string | null; maxAmount?: string | null }): boolean {
+  return !rule.minAmount || !rule.maxAmount || compareMoney(rule.minAmount, rule.maxAmount) <= 0;
+}
+
+export const insertCategoryRuleSchema = categoryRuleShape
+  .refine(isValidPattern, { message: "Pattern is not a valid regular expression", path: ["pattern"] })
+  .refine(isSafeRegexPattern, { message: "Pattern could take too long to match; avoid nested repeats such as (a+)+", path: ["pattern"] })
+  .refine(isValidAmountRange, { message: "Minimum amount must not exceed maximum", path: ["maxAmount"] });
+
+// A change to matchType or pattern is checked against the stored rule by the route
+export const updateCategoryRuleSchema = categoryRuleShape.omit({ userId: true }).partial()
+  .refine(isValidPattern, { message: "Pattern is not a valid regular expression", path: ["pattern"] })
+  .refine(isSafeRegexPattern, { message: "Pattern could take too long to match; avoid nested repeats such as (a+)+", path: ["pattern"] })
+  .refine(isValidAmountRange, { message: "Minimum amount must not exceed maximum", path: ["maxAmount"] });
+
+export const exchangeRateSources = ["manual", "upload"] as const;
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates, {
+  baseCurrency: currencyCodeSchema,
+  quoteCurrency: currencyCodeSchema,
+  rate: exchangeRateValueSchema,
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date")
+    .refine(value => !isNaN(Date.parse(value)), { message: "Not a valid date" }),
+  source: z.enum(exchangeRateSources),
+}).pick({
+  baseCurrency: true,
+  quoteCurrency: true,
+  rate: true,
+  effectiveDate: true,
+  source: true,
+}).refine(rate => rate.baseCurrency !== rate.quoteCurrency, {
+  message: "Base and quote currencies must differ",
+  path: ["quoteCurrency"],
+});
+
+export const homeCurrencySchema = z.object({
+  currency: currencyCodeSchema,
+});
+
+// Any of these may change; the unique constraints on the users table still apply
+// The email address isn't among these: it only changes once the new one is confirmed
+export const updateProfileSchema = z.object({
+  name: z.string().trim().min(3, "Name must be at least 3 characters"),
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+}).partial();
+
+export const changeEmailSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "The verification link is incomplete"),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("Please enter a valid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "The reset link is incomplete"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+export const updatePrivacyPreferencesSchema = z.object({
+  dataAnalysis: z.boolean(),
+  aiAdvisor: z.boolean(),
+  aiUsesJournal: z.boolean(),
+  marketingEmails: z.boolean(),
+}).partial();
+
+export const outboxQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Asking for deletion takes the password, and a code too with two-factor on
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+  code: z.string().trim().max(32).optional(),
+});
+
+// An authenticator code or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(32),
+});
+
+// Turning two-factor off takes the password and a code, whatever the session
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Password is required"),
+});
+
 export const insertJournalEntrySchema = createInsertSchema(journalEntries).pick({
   userId: true,
   entry: true,
@@ -110,25 +624,373 @@ export const insertAiAdviceSchema = createInsertSchema(aiAdvices).pick({
 
 // Export types for input validation
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
 export type InsertBankAccount = z.infer<typeof insertBankAccountSchema>;
+export type UpdateBankAccount = z.infer<typeof updateBankAccountSchema>;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type UpdateTransaction = z.infer<typeof updateTransactionSchema>;
 export type InsertSavingGoal = z.infer<typeof insertSavingGoalSchema>;
+export type UpdateSavingGoal = z.infer<typeof updateSavingGoalSchema>;
+export type InsertGoalContribution = z.infer<typeof insertGoalContributionSchema>;
+export type InsertBudget = z.infer<typeof insertBudgetSchema>;
+export type UpdateBudget = z.infer<typeof updateBudgetSchema>;
+export type InsertRecurringTransaction = z.infer<typeof insertRecurringTransactionSchema>;
+export type InsertCategoryRule = z.infer<typeof insertCategoryRuleSchema>;
+export type UpdateCategoryRule = z.infer<typeof updateCategoryRuleSchema>;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
 export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
 export type InsertAiAdvice = z.infer<typeof insertAiAdviceSchema>;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type UpdatePrivacyPreferences = z.infer<typeof updatePrivacyPreferencesSchema>;
+export type DeleteAccount = z.infer<typeof deleteAccountSchema>;
 
 // Export types for database queries
 export type User = typeof users.$inferSelect;
 export type BankAccount = typeof bankAccounts.$inferSelect;
 export type Transaction = typeof transactions.$inferSelect;
 export type SavingGoal = typeof savingGoals.$inferSelect;
+export type GoalContribution = typeof goalContributions.$inferSelect;
+export type Budget = typeof budgets.$inferSelect;
+export type RecurringTransaction = typeof recurringTransactions.$inferSelect;
+export type CategoryRule = typeof categoryRules.$inferSelect;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type NetWorthSnapshot = typeof netWorthSnapshots.$inferSelect;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type UserPreference = typeof userPreferences.$inferSelect;
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type ErasureReceipt = typeof erasureReceipts.$inferSelect;
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type MailMessage = Pick<OutboxEmail, "to" | "userId" | "subject" | "text">;
+export type AccountBalanceSnapshot = typeof accountBalanceSnapshots.$inferSelect;
 export type JournalEntry = typeof journalEntries.$inferSelect;
 export type AiAdvice = typeof aiAdvices.$inferSelect;
 
+// What storage accepts when posting a transaction. The extra fields are only
+// ever set by the server: imports and schedules backdate entries, schedules
+// tag each posting with the occurrence it covers, and category rules record
+// which rule filled in the category and the merchant name they replaced.
+export type TransactionPosting = InsertTransaction & {
+  date?: Date;
+  recurringTransactionId?: number;
+  scheduledFor?: Date;
+  categoryRuleId?: number | null;
+  originalMerchant?: string | null;
+};
+
 // Additional types for API requests
 export type LoginData = Pick<InsertUser, "username" | "password">;
 export type TransferData = {
   fromAccountId: number;
   toAccountId: number;
-  amount: number;
+  amount: string;
   description: string;
 };
+
+// Balances across a user's open accounts, converted into their home currency
+export type AccountTotals = {
+  currency: string;
+  total: string;
+  missingRates: string[]; // currencies with no rate into the home currency, left out of the total
+};
+
+// Tokens are only ever minted by the server
+export type InsertApiToken = Omit<typeof apiTokens.$inferInsert, "id" | "lastUsedAt" | "lastUsedIp" | "createdAt">;
+
+// Snapshots are only ever written by the server
+export type InsertNetWorthSnapshot = typeof netWorthSnapshots.$inferInsert;
+export type InsertAccountBalanceSnapshot = typeof accountBalanceSnapshots.$inferInsert;
+
+// A contribution together with the goal and account entry it moved
+export type GoalContributionResult = {
+  goal: SavingGoal;
+  contribution: GoalContribution;
+  transaction: Transaction;
+};
+
+// Transaction search and cursor pagination
+export const transactionSortOptions = ["date_desc", "date_asc", "amount_desc", "amount_asc"] as const;
+export type TransactionSort = typeof transactionSortOptions[number];
+
+// A cursor points at the last row of the previous page, for the sort it was produced under
+export type TransactionCursor = {
+  sort: TransactionSort;
+  value: string; // ISO date for date sorts, decimal string for amount sorts
+  id: number;
+};
+
+export function encodeTransactionCursor(cursor: TransactionCursor): string {
+  return btoa(JSON.stringify([cursor.sort, cursor.value, cursor.id]));
+}
+
+export function decodeTransactionCursor(encoded: string): TransactionCursor | undefined {
+  try {
+    const [sort, value, id] = JSON.parse(atob(encoded));
+    if (!transactionSortOptions.includes(sort) || typeof value !== "string" || !Number.isInteger(id)) {
+      return undefined;
+    }
+    return { sort, value, id };
+  } catch {
+    return undefined;
+  }
+}
+
+export const transactionQuerySchema = z.object({
+  from: z.coerce.date().optional(), // inclusive
+  to: z.coerce.date().optional(), // inclusive
+  accountId: z.coerce.number().int().optional(),
+  category: z.string().min(1).optional(),
+  type: z.enum(["debit", "credit"]).optional(),
+  minAmount: moneySchema.optional(),
+  maxAmount: moneySchema.optional(),
+  search: z.string().trim().min(1).optional(), // matched against merchant and description
+  sort: z.enum(transactionSortOptions).default("date_desc"),
+  cursor: z.string().optional().transform((val, ctx) => {
+    if (val === undefined) return undefined;
+    const cursor = decodeTransactionCursor(val);
+    if (!cursor) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+      return z.NEVER;
+    }
+    return cursor;
+  }),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+}).refine(query => !query.cursor || query.cursor.sort === query.sort, {
+  message: "Cursor was issued for a different sort order",
+  path: ["cursor"],
+});
+
+export type TransactionQuery = z.infer<typeof transactionQuerySchema>;
+export type TransactionPage = {
+  items: Transaction[];
+  nextCursor: string | null;
+  total: number;
+};
+
+// Budget progress for a single month ("YYYY-MM", in UTC)
+export const budgetMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in YYYY-MM format");
+
+export type CategorySpending = {
+  category: string;
+  month: string;
+  currency: string; // of the accounts the spending was on
+  spent: string; // debits minus credits, so refunds and reversals net out
+};
+
+export type BudgetProgress = {
+  budget: Budget;
+  month: string;
+  carriedOver: string; // unspent amount rolled in from earlier months
+  available: string; // monthlyLimit + carriedOver
+  spent: string;
+  remaining: string; // negative when over budget
+  percentUsed: number;
+};
+
+// Net worth history over a range ending today
+export const netWorthRanges = ["1m", "3m", "6m", "1y", "all"] as const;
+export type NetWorthRange = typeof netWorthRanges[number];
+export const netWorthHistoryQuerySchema = z.object({
+  range: z.enum(netWorthRanges).default("3m"),
+});
+
+export type NetWorthHistory = {
+  currency: string;
+  range: NetWorthRange;
+  snapshots: NetWorthSnapshot[]; // oldest first
+  accounts: AccountBalanceSnapshot[]; // oldest first
+};
+
+// Audit log
+export const auditActions = [
+  "auth.login", "auth.login_failed", "auth.logout",
+  "user.create", "user.update", "user.password", "user.password_reset", "user.email_verify", "user.email_change", "user.two_factor_enable", "user.two_factor_disable", "user.privacy_update",
+  "user.deletion_request", "user.deletion_cancel", "user.erase",
+  "api_token.create", "api_token.revoke",
+  "account.create", "account.update", "account.close", "account.delete", "account.balance",
+  "transaction.create", "transaction.update", "transaction.delete", "transaction.reverse", "transaction.recategorize",
+  "transfer.create",
+  "goal.create", "goal.update", "goal.delete", "goal.contribution",
+  "budget.create", "budget.update", "budget.delete",
+  "recurring.create", "recurring.update", "recurring.delete",
+  "category_rule.create", "category_rule.update", "category_rule.delete",
+  "exchange_rate.save", "exchange_rate.delete",
+] as const;
+export type AuditAction = typeof auditActions[number];
+
+export const auditEntityTypes = [
+  "user", "api_token", "bank_account", "transaction", "saving_goal", "budget", "recurring_transaction", "category_rule", "exchange_rate",
+] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+// What storage is told about a change; the request context fills in the rest
+export type AuditRecord = {
+  userId: number | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: number | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+export const auditQuerySchema = z.object({
+  userId: z.coerce.number().int().optional(),
+  actorId: z.coerce.number().int().optional(),
+  action: z.enum(auditActions).optional(),
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.coerce.number().int().optional(),
+  requestId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(), // inclusive
+  to: z.coerce.date().optional(), // inclusive
+  cursor: z.coerce.number().int().optional(), // only events older than this id
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type AuditEventPage = {
+  items: AuditEvent[]; // newest first
+  nextCursor: number | null;
+};
+
+// Signed-in sessions, as the Security tab lists them. The id is derived from
+// the session's own id, which is never sent anywhere but the cookie.
+export type ActiveSession = {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  signedInAt: string | null; // null for sessions from before this was recorded
+  lastSeenAt: string | null;
+  expiresAt: string | null;
+  current: boolean;
+};
+
+// Account deletion: dataset name to the number of rows erased from it
+export type ErasedRecords = Record<string, number>;
+
+// Privacy preferences, as the Privacy tab shows them
+export type PrivacyPreferences = Omit<UserPreference, "id" | "userId" | "updatedAt">;
+
+// Matches the column defaults, for users who never changed a switch
+export const defaultPrivacyPreferences: PrivacyPreferences = {
+  dataAnalysis: true,
+  aiAdvisor: true,
+  aiUsesJournal: true,
+  marketingEmails: false,
+};
+
+// API tokens. A signed-in browser may do anything its user can; a token only
+// what its scopes allow, and nothing at all outside the routes scopes cover.
+export const apiTokenScopes = [
+  "accounts:read", "accounts:write",
+  "transactions:read", "transactions:write",
+  "goals:read", "goals:write",
+  "budgets:read", "budgets:write",
+  "recurring:read", "recurring:write",
+  "journal:read", "journal:write",
+  "activity:read",
+] as const;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Give the token a name").max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Choose at least one scope"),
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(90), // null for a token that never expires
+});
+
+// The hash never leaves the server
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+
+// Shown once, when the token is created
+export type CreatedApiToken = PublicApiToken & {
+  token: string;
+};
+
+// Login throttling
+export const loginThrottleScopes = ["username", "ip"] as const;
+export type LoginThrottleScope = typeof loginThrottleScopes[number];
+export type LoginThrottleState = Pick<LoginThrottle, "failures" | "lastFailedAt" | "blockedUntil">;
+
+// Two-factor authentication
+export type TwoFactorMethod = "totp" | "recovery_code";
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  recoveryCodesLeft: number;
+};
+
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUri: string;
+};
+
+// Shown once, when two-factor is turned on
+export type TwoFactorRecoveryCodes = {
+  recoveryCodes: string[];
+};
+
+// What POST /api/login answers when the password was right but a code is still needed
+export type TwoFactorChallenge = {
+  twoFactorRequired: true;
+};
+
+// Statement import: files from other banks loaded into one of the user's accounts
+export const statementFormats = ["csv", "ofx", "qif"] as const;
+export const statementDateFormats = ["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY"] as const;
+export type StatementDateFormat = typeof statementDateFormats[number];
+
+// Names of the CSV header columns holding each field. Amounts come either from
+// one signed column (negative for money out) or from separate debit/credit columns.
+export const csvColumnMappingSchema = z.object({
+  date: z.string().min(1),
+  description: z.string().min(1),
+  amount: z.string().min(1).optional(),
+  debit: z.string().min(1).optional(),
+  credit: z.string().min(1).optional(),
+  category: z.string().min(1).optional(),
+  merchant: z.string().min(1).optional(),
+}).refine(mapping => mapping.amount || mapping.debit || mapping.credit, {
+  message: "Map an amount column, or debit and credit columns",
+});
+
+export const statementImportSchema = z.object({
+  format: z.enum(statementFormats),
+  content: z.string().min(1, "The file is empty"),
+  dateFormat: z.enum(statementDateFormats).optional(), // CSV defaults to YYYY-MM-DD, QIF to MM/DD/YYYY
+  mapping: csvColumnMappingSchema.optional(), // CSV only; guessed from the headers when omitted
+  skipDuplicates: z.boolean().default(true),
+});
+
+export type CsvColumnMapping = z.infer<typeof csvColumnMappingSchema>;
+export type StatementImport = z.infer<typeof statementImportSchema>;
+
+export type StatementRow = {
+  line: number; // line in the file, or entry number for OFX
+  date: string; // ISO timestamp
+  amount: string;
+  type: "debit" | "credit";
+  description: string;
+  category: string | null;
+  merchant: string | null;
+  duplicate: boolean; // matches a transaction already on the account
+};
+
+export type StatementError = {
+  line: number;
+  message: string;
+};
+
+export type StatementPreview = {
+  columns: string[]; // CSV header, empty for other formats
+  mapping: CsvColumnMapping | null; // the CSV mapping used, as given or guessed
+  rows: StatementRow[];
+  errors: StatementError[];
+};
+
+export type StatementImportResult = {
+  imported: Transaction[];
+  skippedDuplicates: number;
+  errors: StatementError[];
+};